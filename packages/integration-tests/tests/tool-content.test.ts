@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { toCallToolContent } from '../../shared/src/bridge-types.js';
+
+describe('toCallToolContent', () => {
+  it('relays binary and text resources as resource content', () => {
+    expect(
+      toCallToolContent({
+        type: 'resource',
+        resource: { uri: 'obsidian://open?vault=Vault&file=report.pdf', mimeType: 'application/pdf', blob: 'JVBERi0=' },
+      }),
+    ).toEqual({
+      type: 'resource',
+      resource: { uri: 'obsidian://open?vault=Vault&file=report.pdf', mimeType: 'application/pdf', blob: 'JVBERi0=' },
+    });
+
+    expect(
+      toCallToolContent({
+        type: 'resource',
+        resource: { uri: 'obsidian://open?vault=Vault&file=data.csv', mimeType: 'text/csv', text: 'a,b' },
+      }),
+    ).toEqual({
+      type: 'resource',
+      resource: { uri: 'obsidian://open?vault=Vault&file=data.csv', mimeType: 'text/csv', text: 'a,b' },
+    });
+  });
+
+  it('keeps text and image content and falls back to JSON text', () => {
+    expect(toCallToolContent({ type: 'text', text: 'hello' })).toEqual({ type: 'text', text: 'hello' });
+    expect(toCallToolContent({ type: 'image', data: 'iVBORw0=', mimeType: 'image/jpeg' })).toEqual({
+      type: 'image',
+      data: 'iVBORw0=',
+      mimeType: 'image/jpeg',
+    });
+    expect(toCallToolContent({ type: 'resource' })).toEqual({ type: 'text', text: '{"type":"resource"}' });
+  });
+});
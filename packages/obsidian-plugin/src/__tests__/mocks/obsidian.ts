@@ -31,11 +31,15 @@ export const Platform = {
 export interface Vault {
 	adapter: any;
 	read(file: any): Promise<string>;
+	cachedRead(file: any): Promise<string>;
 	modify(file: any, data: string): Promise<void>;
 	create(path: string, data: string): Promise<any>;
 	delete(file: any): Promise<void>;
 	getAbstractFileByPath(path: string): any;
 	getMarkdownFiles(): any[];
+	getFiles(): any[];
+	getRoot(): any;
+	createFolder(path: string): Promise<any>;
 }
 
 // Minimal App interface
@@ -67,14 +71,139 @@ export class Plugin {
 
 // Re-export types
 export type TAbstractFile = any;
+export type CachedMetadata = any;
 export class TFile {
 	path = "";
 	basename = "";
+	extension = "md";
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+export class TFolder {
+	path = "";
+	name = "";
+	children: any[] = [];
 }
-export class TFolder {}
 
 // Path normalization function
 export function normalizePath(path: string): string {
 	// Simple normalization: trim, remove leading/trailing slashes
 	return path.trim().replace(/^\/+|\/+$/g, "");
 }
+
+// Collects frontmatter and inline tags with a leading "#", like Obsidian does
+export function getAllTags(cache: any): string[] | null {
+	const tags: string[] = [];
+	const frontmatterTags = cache?.frontmatter?.tags;
+	const fmList = Array.isArray(frontmatterTags)
+		? frontmatterTags
+		: typeof frontmatterTags === "string"
+			? frontmatterTags.split(/[,\s]+/)
+			: [];
+	for (const tag of fmList) {
+		if (typeof tag === "string" && tag.length > 0) {
+			tags.push(tag.startsWith("#") ? tag : `#${tag}`);
+		}
+	}
+	for (const tagCache of cache?.tags ?? []) {
+		tags.push(tagCache.tag);
+	}
+	return tags;
+}
+
+// Splits "note#heading" into path and subpath (subpath keeps its leading "#")
+export function parseLinktext(linktext: string): { path: string; subpath: string } {
+	const hashIndex = linktext.indexOf("#");
+	if (hashIndex === -1) {
+		return { path: linktext, subpath: "" };
+	}
+	return { path: linktext.slice(0, hashIndex), subpath: linktext.slice(hashIndex) };
+}
+
+// YAML helpers backed by JSON, which is a subset of YAML; tests write frontmatter as JSON
+export function parseYaml(yaml: string): any {
+	return JSON.parse(yaml);
+}
+
+export function stringifyYaml(data: unknown): string {
+	return `${JSON.stringify(data)}\n`;
+}
+
+// Date wrapper covering the moment calls the tools make; format supports
+// YYYY, MM, DD, gggg, ww, HH, mm, ss and [literal] text
+class MockMoment {
+	constructor(private date: Date) {}
+
+	clone(): MockMoment {
+		return new MockMoment(new Date(this.date.getTime()));
+	}
+
+	isValid(): boolean {
+		return !Number.isNaN(this.date.getTime());
+	}
+
+	startOf(unit: "day" | "week" | "month"): MockMoment {
+		this.date.setHours(0, 0, 0, 0);
+		if (unit === "week") {
+			this.date.setDate(this.date.getDate() - this.date.getDay());
+		}
+		if (unit === "month") {
+			this.date.setDate(1);
+		}
+		return this;
+	}
+
+	add(amount: number, unit: "days" | "weeks" | "months"): MockMoment {
+		if (unit === "months") {
+			this.date.setMonth(this.date.getMonth() + amount);
+		} else {
+			this.date.setDate(this.date.getDate() + amount * (unit === "weeks" ? 7 : 1));
+		}
+		return this;
+	}
+
+	valueOf(): number {
+		return this.date.getTime();
+	}
+
+	format(pattern = "YYYY-MM-DDTHH:mm:ss"): string {
+		const pad = (value: number): string => String(value).padStart(2, "0");
+		// Locale week (en-US): the week containing Jan 1, starting on Sunday
+		const weekStart = new Date(this.date.getFullYear(), this.date.getMonth(), this.date.getDate() - this.date.getDay());
+		const weekYear = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6).getFullYear();
+		const firstWeekStart = new Date(weekYear, 0, 1 - new Date(weekYear, 0, 1).getDay());
+		const week = Math.round((weekStart.getTime() - firstWeekStart.getTime()) / (7 * 24 * 3600 * 1000)) + 1;
+		const tokens: Record<string, string> = {
+			YYYY: String(this.date.getFullYear()),
+			gggg: String(weekYear),
+			MM: pad(this.date.getMonth() + 1),
+			DD: pad(this.date.getDate()),
+			ww: pad(week),
+			HH: pad(this.date.getHours()),
+			mm: pad(this.date.getMinutes()),
+			ss: pad(this.date.getSeconds()),
+		};
+		return pattern.replace(/\[([^\]]*)\]|YYYY|gggg|MM|DD|ww|HH|mm|ss/g, (match, literal: string | undefined) =>
+			literal ?? tokens[match] ?? match,
+		);
+	}
+}
+
+export function moment(input?: number | string | Date): MockMoment {
+	if (input === undefined) {
+		return new MockMoment(new Date());
+	}
+	return new MockMoment(new Date(input));
+}
+
+// Base64 helpers
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	let binary = "";
+	for (const byte of new Uint8Array(buffer)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)).buffer;
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared fixtures for built-in tool tests: an in-memory vault behind a tool context.
+ */
+import { vi } from "vitest";
+import { TFile, TFolder } from "obsidian";
+
+export function createTFile(path: string): TFile {
+	const file = new TFile();
+	const name = path.split("/").pop()!;
+	const extension = name.includes(".") ? name.split(".").pop()! : "";
+	Object.assign(file, { path, name, basename: name.replace(/\.[^.]+$/, ""), extension });
+	return file;
+}
+
+/**
+ * Builds a tool context whose vault reads and writes `contents`, so tests can assert on the
+ * resulting notes. Tools that need more of the app (metadata cache, plugins) get it by
+ * assigning onto `context.app`.
+ */
+export function createVaultContext(notes: Record<string, string> = {}): any {
+	const contents = new Map(Object.entries(notes));
+	const files = new Map(Object.keys(notes).map((path) => [path, createTFile(path)]));
+	const folders = new Set<string>();
+	const read = (file: TFile) => Promise.resolve(contents.get(file.path) ?? "");
+	const vault = {
+		getAbstractFileByPath: vi.fn().mockImplementation((path: string) => {
+			if (folders.has(path)) {
+				return Object.assign(new TFolder(), { path });
+			}
+			return files.get(path) ?? null;
+		}),
+		getMarkdownFiles: vi.fn().mockImplementation(() => [...files.values()].filter((file) => file.extension === "md")),
+		read: vi.fn().mockImplementation(read),
+		cachedRead: vi.fn().mockImplementation(read),
+		modify: vi.fn().mockImplementation((file: TFile, data: string) => {
+			contents.set(file.path, data);
+			return Promise.resolve();
+		}),
+		create: vi.fn().mockImplementation((path: string, data: string) => {
+			const file = createTFile(path);
+			files.set(path, file);
+			contents.set(path, data);
+			return Promise.resolve(file);
+		}),
+		createFolder: vi.fn().mockImplementation((path: string) => {
+			folders.add(path);
+			return Promise.resolve();
+		}),
+	};
+	return { vault, app: { vault }, contents, files };
+}
+
+/**
+ * Parses the JSON payload of a tool result's text content.
+ */
+export function parse(text: string | undefined): Record<string, any> {
+	return JSON.parse(text ?? "{}") as Record<string, any>;
+}
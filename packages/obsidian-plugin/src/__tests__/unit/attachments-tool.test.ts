@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from "vitest";
+import { arrayBufferToBase64, TFile } from "obsidian";
+import { readAttachmentTool, writeAttachmentTool } from "../../mcp/tools/builtin/attachments";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_BASE64 = arrayBufferToBase64(PNG_BYTES.buffer);
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.4");
+
+function createTFile(path: string, size: number): TFile {
+	const file = new TFile();
+	const name = path.split("/").pop()!;
+	Object.assign(file, {
+		path,
+		name,
+		basename: name.replace(/\.[^.]+$/, ""),
+		extension: name.split(".").pop(),
+		stat: { ctime: 0, mtime: 0, size },
+	});
+	return file;
+}
+
+function createContext(files: Record<string, Uint8Array> = {}): any {
+	const entries = new Map(Object.entries(files).map(([path, bytes]) => [path, { file: createTFile(path, bytes.length), bytes }]));
+	return {
+		vault: {
+			getName: vi.fn().mockReturnValue("My Vault"),
+			getAbstractFileByPath: vi.fn().mockImplementation((path: string) => entries.get(path)?.file ?? null),
+			readBinary: vi.fn().mockImplementation((file: TFile) => {
+				return Promise.resolve(entries.get(file.path)!.bytes.slice().buffer);
+			}),
+			createBinary: vi.fn().mockImplementation((path: string, data: ArrayBuffer) => {
+				const file = createTFile(path, data.byteLength);
+				entries.set(path, { file, bytes: new Uint8Array(data) });
+				return Promise.resolve(file);
+			}),
+			createFolder: vi.fn().mockResolvedValue(undefined),
+		},
+		app: {
+			fileManager: {
+				getAvailablePathForAttachment: vi.fn().mockImplementation((filename: string) => Promise.resolve(`Attachments/${filename}`)),
+				generateMarkdownLink: vi.fn().mockImplementation((file: TFile) => `[[${file.name}]]`),
+			},
+		},
+		entries,
+	};
+}
+
+describe("read_attachment tool", () => {
+	it("returns images as base64 image content", async () => {
+		const result = await readAttachmentTool.handler({ path: "img/logo.png" }, createContext({ "img/logo.png": PNG_BYTES }));
+		expect(result.isError).toBeUndefined();
+		expect(JSON.parse(result.content[0]?.text ?? "{}")).toEqual({
+			path: "img/logo.png",
+			mime_type: "image/png",
+			size: 8,
+			original_size: 8,
+		});
+		expect(result.content[1]).toEqual({ type: "image", data: PNG_BASE64, mimeType: "image/png" });
+	});
+
+	it("returns other files as embedded resources", async () => {
+		const result = await readAttachmentTool.handler({ path: "docs/spec.pdf" }, createContext({ "docs/spec.pdf": PDF_BYTES }));
+		expect(result.content[1]).toEqual({
+			type: "resource",
+			resource: {
+				uri: "obsidian://open?vault=My%20Vault&file=docs%2Fspec.pdf",
+				mimeType: "application/pdf",
+				blob: arrayBufferToBase64(PDF_BYTES.buffer),
+			},
+		});
+	});
+
+	it("enforces the size limit", async () => {
+		const context = createContext({ "img/logo.png": PNG_BYTES, "docs/spec.pdf": PDF_BYTES });
+		const image = await readAttachmentTool.handler({ path: "img/logo.png", max_bytes: 4 }, context);
+		expect(image.content[0]?.text).toBe('Error: "img/logo.png" is 8 bytes, over the 4 byte limit. Pass max_dimension to downscale it.');
+
+		const resize = await readAttachmentTool.handler({ path: "docs/spec.pdf", max_dimension: 100 }, context);
+		expect(resize.isError).toBe(true);
+		expect(context.vault.readBinary).not.toHaveBeenCalled();
+	});
+});
+
+describe("write_attachment tool", () => {
+	it("saves decoded data to the attachment folder", async () => {
+		const context = createContext();
+		const result = await writeAttachmentTool.handler(
+			{ filename: "logo.png", data: `data:image/png;base64,${PNG_BASE64}`, note: "Projects/Plan" },
+			context,
+		);
+		expect(JSON.parse(result.content[0]?.text ?? "{}")).toEqual({
+			ok: true,
+			path: "Attachments/logo.png",
+			size: 8,
+			mime_type: "image/png",
+			embed: "![[logo.png]]",
+		});
+		expect(context.app.fileManager.getAvailablePathForAttachment).toHaveBeenCalledWith("logo.png", "Projects/Plan.md");
+		expect(context.vault.createFolder).toHaveBeenCalledWith("Attachments");
+		expect((context.entries.get("Attachments/logo.png") as { bytes: Uint8Array }).bytes).toEqual(PNG_BYTES);
+	});
+
+	it("journals the new file so it can be undone", async () => {
+		const context = createContext();
+		context.editJournal = { record: vi.fn().mockResolvedValue(undefined) };
+		await writeAttachmentTool.handler({ filename: "logo.png", data: PNG_BASE64 }, context);
+		expect(context.editJournal.record).toHaveBeenCalledWith({
+			tool: "write_attachment",
+			keyId: null,
+			action: "create",
+			path: "Attachments/logo.png",
+			before: null,
+			after: null,
+			binary: true,
+		});
+	});
+
+	it("rejects invalid names, payloads and oversized data", async () => {
+		const context = createContext();
+		const folder = await writeAttachmentTool.handler({ filename: "a/b.png", data: "AAAA" }, context);
+		expect(folder.isError).toBe(true);
+
+		const invalid = await writeAttachmentTool.handler({ filename: "b.png", data: "not base64!" }, context);
+		expect(invalid.content[0]?.text).toBe("Error: data must be a non-empty base64 string.");
+
+		const large = await writeAttachmentTool.handler({ filename: "b.png", data: PNG_BASE64, max_bytes: 4 }, context);
+		expect(large.content[0]?.text).toBe("Error: Attachment is 8 bytes, over the 4 byte limit.");
+
+		const overRequest = await writeAttachmentTool.handler({ filename: "b.png", data: PNG_BASE64, max_bytes: 1024 * 1024 }, context);
+		expect(overRequest.content[0]?.text).toBe("Error: max_bytes must be an integer between 1 and 774144.");
+		expect(context.vault.createBinary).not.toHaveBeenCalled();
+	});
+});
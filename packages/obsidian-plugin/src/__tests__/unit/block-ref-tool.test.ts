@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { blockRefTool } from "../../mcp/tools/builtin/block-ref";
+
+const NOTE = "---\ntitle: Plan\n---\n# Plan\nFirst paragraph ^intro\n\nSecond paragraph\n";
+
+function createContext(note: string = NOTE): any {
+	const context = createVaultContext({ "Projects/Plan.md": note });
+	context.app.metadataCache = {
+		getFileCache: vi.fn().mockReturnValue({
+			frontmatterPosition: { start: { line: 0 }, end: { line: 2 } },
+			blocks: {
+				intro: { id: "intro", position: { start: { line: 4 }, end: { line: 4 } } },
+			},
+		}),
+	};
+	return context;
+}
+
+describe("block_ref tool", () => {
+	it("lists anchors with body line numbers and links", async () => {
+		const result = await blockRefTool.handler({ path: "Projects/Plan" }, createContext());
+		expect(parse(result.content[0]?.text).anchors).toEqual([
+			{ id: "intro", start_line: 2, end_line: 2, text: "First paragraph ^intro", link: "[[Plan#^intro]]" },
+		]);
+	});
+
+	it("looks up an anchor by id", async () => {
+		const context = createContext();
+		const found = await blockRefTool.handler({ path: "Projects/Plan", action: "get", id: "^intro" }, context);
+		expect(parse(found.content[0]?.text)).toMatchObject({ id: "intro", start_line: 2 });
+
+		const missing = await blockRefTool.handler({ path: "Projects/Plan", action: "get", id: "nope" }, context);
+		expect(missing.isError).toBe(true);
+		expect(missing.content[0]?.text).toBe('Error: Block "^nope" not found in "Projects/Plan.md".');
+	});
+
+	it("appends a new id to a line", async () => {
+		const context = createContext();
+		const result = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 4, id: "second" }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({ id: "second", created: true, link: "[[Plan#^second]]" });
+		expect(context.vault.modify).toHaveBeenCalledWith(
+			expect.anything(),
+			"---\ntitle: Plan\n---\n# Plan\nFirst paragraph ^intro\n\nSecond paragraph ^second\n",
+		);
+	});
+
+	it("returns the existing id instead of adding another", async () => {
+		const context = createContext();
+		const result = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 2 }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({ id: "intro", created: false });
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("rejects blank lines and duplicate ids", async () => {
+		const context = createContext();
+		const blank = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 3 }, context);
+		expect(blank.content[0]?.text).toBe("Error: line 3 is blank; anchor a line with content.");
+
+		const duplicate = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 4, id: "intro" }, context);
+		expect(duplicate.content[0]?.text).toBe('Error: Block id "^intro" is already used in "Projects/Plan.md".');
+	});
+
+	it("anchors the end of the block containing the line", async () => {
+		const note = "# Plan\nLine one\nline two\n\n- item\n  continued\n  - child\n";
+		const context = createContext(note);
+		const paragraph = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 2, id: "para" }, context);
+		expect(parse(paragraph.content[0]?.text)).toMatchObject({ id: "para", line: 3, created: true });
+		expect(context.contents.get("Projects/Plan.md")).toBe("# Plan\nLine one\nline two ^para\n\n- item\n  continued\n  - child\n");
+
+		const item = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 5, id: "item" }, context);
+		expect(parse(item.content[0]?.text)).toMatchObject({ id: "item", line: 6 });
+		expect(context.contents.get("Projects/Plan.md")).toBe("# Plan\nLine one\nline two ^para\n\n- item\n  continued ^item\n  - child\n");
+	});
+
+	it("rejects headings, code blocks and tables", async () => {
+		const note = "# Plan\n\n```js\nrun()\n```\n\n| a | b |\n| - | - |\n| 1 | 2 |\n";
+		const context = createContext(note);
+		const heading = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 1 }, context);
+		expect(heading.content[0]?.text).toBe("Error: line 1 is part of a heading; block ids can only be added to paragraphs, list items and blockquotes.");
+
+		const code = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 4 }, context);
+		expect(code.content[0]?.text).toContain("line 4 is inside a code block");
+
+		const table = await blockRefTool.handler({ path: "Projects/Plan", action: "create", line: 8 }, context);
+		expect(table.content[0]?.text).toContain("line 8 is part of a table");
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { editCanvasTool, readCanvasTool } from "../../mcp/tools/builtin/canvas";
+import { CanvasData, validateCanvas } from "../../mcp/tools/helpers/canvas-helper";
+
+function createContext(files: Record<string, string> = {}): any {
+	const context = createVaultContext(files);
+	context.app.metadataCache = {
+		getFirstLinkpathDest: vi.fn().mockImplementation((linkpath: string) =>
+			[...(context.files as Map<string, TFile>).values()].find((file) => file.basename === linkpath || file.path === `${linkpath}.md`) ?? null),
+	};
+	return context;
+}
+
+const BOARD = JSON.stringify({
+	nodes: [
+		{ id: "group1", type: "group", x: 0, y: 0, width: 1000, height: 600, label: "Plan" },
+		{ id: "text1", type: "text", x: 20, y: 40, width: 250, height: 60, text: "Start" },
+		{ id: "file1", type: "file", x: 400, y: 40, width: 400, height: 400, file: "Projects/Apollo.md" },
+		{ id: "file2", type: "file", x: 1200, y: 0, width: 400, height: 400, file: "Missing.md" },
+	],
+	edges: [
+		{ id: "edge1", fromNode: "text1", toNode: "file1", toEnd: "arrow" },
+	],
+}, null, "\t");
+
+describe("read_canvas tool", () => {
+	it("returns nodes with resolved file paths and parent groups", async () => {
+		const context = createContext({ "Boards/plan.canvas": BOARD, "Projects/Apollo.md": "# Apollo" });
+		const result = await readCanvasTool.handler({ path: "Boards/plan" }, context);
+		const payload = parse(result.content[0]?.text);
+
+		expect(payload.path).toBe("Boards/plan.canvas");
+		expect(payload.version).toEqual(expect.any(String));
+		expect(payload.edges).toHaveLength(1);
+		expect((payload.nodes as Record<string, unknown>[]).map((node) => [node.id, node.parent_group, node.resolved_path])).toEqual([
+			["group1", null, undefined],
+			["text1", "group1", undefined],
+			["file1", "group1", "Projects/Apollo.md"],
+			["file2", null, null],
+		]);
+	});
+
+	it("reports invalid canvas JSON", async () => {
+		const result = await readCanvasTool.handler({ path: "bad.canvas" }, createContext({ "bad.canvas": "{nodes" }));
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toContain("Invalid canvas JSON");
+	});
+});
+
+describe("edit_canvas tool", () => {
+	it("adds, updates and removes nodes and edges while keeping layout", async () => {
+		const context = createContext({ "Boards/plan.canvas": BOARD, "Projects/Apollo.md": "# Apollo" });
+		const result = await editCanvasTool.handler({
+			path: "Boards/plan.canvas",
+			operations: [
+				{ op: "add_node", node: { id: "note1", type: "file", file: "Apollo" } },
+				{ op: "update_node", id: "text1", changes: { text: "Kickoff", color: "4" } },
+				{ op: "add_edge", edge: { id: "edge2", fromNode: "text1", toNode: "note1", label: "next" } },
+				{ op: "remove_node", id: "file1" },
+			],
+		}, context);
+		const payload = parse(result.content[0]?.text);
+
+		expect(result.isError).toBeUndefined();
+		expect(payload.applied).toEqual([
+			{ op: "add_node", id: "note1" },
+			{ op: "update_node", id: "text1" },
+			{ op: "add_edge", id: "edge2" },
+			{ op: "remove_node", id: "file1", removed_edges: ["edge1"] },
+		]);
+
+		const written = context.contents.get("Boards/plan.canvas") as string;
+		const canvas = JSON.parse(written) as CanvasData;
+		expect(written).toContain("\n\t\"nodes\"");
+		expect(canvas.nodes.find((node) => node.id === "text1")).toEqual({
+			id: "text1", type: "text", x: 20, y: 40, width: 250, height: 60, text: "Kickoff", color: "4",
+		});
+		expect(canvas.nodes.find((node) => node.id === "note1")).toEqual({
+			id: "note1", type: "file", x: 1640, y: 0, width: 400, height: 400, file: "Projects/Apollo.md",
+		});
+		expect(canvas.edges.map((edge) => edge.id)).toEqual(["edge2"]);
+		expect(validateCanvas(canvas)).toBeNull();
+	});
+
+	it("removes properties set to null and generates missing ids", async () => {
+		const context = createContext({ "plan.canvas": BOARD });
+		const result = await editCanvasTool.handler({
+			path: "plan",
+			operations: [
+				{ op: "update_node", id: "group1", changes: { label: null, width: 1200 } },
+				{ op: "add_node", node: { type: "text", text: "Loose", x: 5, y: 700 } },
+			],
+		}, context);
+		const generatedId = parse(result.content[0]?.text).applied[1].id as string;
+		const canvas = JSON.parse(context.contents.get("plan.canvas") as string) as CanvasData;
+
+		expect(generatedId).toMatch(/^[0-9a-f]{16}$/);
+		expect(canvas.nodes[0]).toEqual({ id: "group1", type: "group", x: 0, y: 0, width: 1200, height: 600 });
+		expect(canvas.nodes.find((node) => node.id === generatedId)).toMatchObject({ x: 5, y: 700, width: 250, height: 60 });
+	});
+
+	it("writes nothing when any operation or the result is invalid", async () => {
+		const context = createContext({ "plan.canvas": BOARD });
+		const missing = await editCanvasTool.handler({
+			path: "plan.canvas",
+			operations: [
+				{ op: "update_node", id: "text1", changes: { text: "Changed" } },
+				{ op: "remove_edge", id: "nope" },
+			],
+		}, context);
+		expect(missing.isError).toBe(true);
+		expect(missing.content[0]?.text).toBe('Error: operation 2 (remove_edge): edge "nope" not found.');
+
+		const invalid = await editCanvasTool.handler({
+			path: "plan.canvas",
+			operations: [{ op: "add_edge", edge: { fromNode: "text1", toNode: "ghost" } }],
+		}, context);
+		expect(invalid.isError).toBe(true);
+		expect(invalid.content[0]?.text).toContain("toNode must be the id of an existing node");
+
+		const badColor = await editCanvasTool.handler({
+			path: "plan.canvas",
+			operations: [{ op: "update_node", id: "text1", changes: { color: "purple" } }],
+		}, context);
+		expect(badColor.content[0]?.text).toContain("color must be a preset");
+
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("leaves untouched nodes the spec check would reject alone", async () => {
+		const board = JSON.stringify({
+			nodes: [
+				{ id: "custom", type: "excalidraw", x: 0, y: 0, width: 100, height: 100, color: "#ff000080" },
+				{ id: "text1", type: "text", x: 200, y: 0, width: 100, height: 60, text: "Start" },
+			],
+			edges: [{ id: "edge1", fromNode: "custom", toNode: "text1" }],
+		});
+		const context = createContext({ "plan.canvas": board });
+
+		const edited = await editCanvasTool.handler({
+			path: "plan.canvas",
+			operations: [
+				{ op: "update_node", id: "text1", changes: { text: "Changed" } },
+				{ op: "add_edge", edge: { id: "edge2", fromNode: "text1", toNode: "custom" } },
+			],
+		}, context);
+		expect(edited.isError).toBeUndefined();
+		expect(JSON.parse(context.contents.get("plan.canvas") as string).nodes[0]).toMatchObject({ type: "excalidraw", color: "#ff000080" });
+
+		const touched = await editCanvasTool.handler({
+			path: "plan.canvas",
+			operations: [{ op: "update_node", id: "custom", changes: { x: 10 } }],
+		}, context);
+		expect(touched.content[0]?.text).toContain('node "custom": type must be one of');
+	});
+
+	it("creates a missing canvas only with allow_create", async () => {
+		const context = createContext();
+		const operations = [{ op: "add_node", node: { id: "a", type: "link", url: "https://obsidian.md" } }];
+
+		const refused = await editCanvasTool.handler({ path: "new", operations }, context);
+		expect(refused.isError).toBe(true);
+
+		const created = await editCanvasTool.handler({ path: "new", operations, allow_create: true }, context);
+		expect(parse(created.content[0]?.text)).toMatchObject({ ok: true, action: "create", nodes: 1, edges: 0 });
+		expect(context.vault.create).toHaveBeenCalledWith("new.canvas", expect.stringContaining("https://obsidian.md"));
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { codeBlocksTool } from "../../mcp/tools/builtin/code-blocks";
+
+const NOTE = [
+	"---",
+	'{"type":"dashboard"}',
+	"---",
+	"# Open tasks",
+	"```dataview",
+	"TASK FROM #project",
+	"```",
+	"",
+	"## Flow",
+	"",
+	"> [!note] Diagram",
+	"> ```mermaid title=\"flow\"",
+	"> graph TD",
+	">   A --> B",
+	"> ```",
+	"",
+	"- Query:",
+	"  ~~~query",
+	"  tag:#idea",
+	"  ~~~",
+	"",
+	"Closing prose.",
+].join("\n");
+
+describe("code_blocks tool", () => {
+	it("lists fenced blocks with language, label, lines and heading", async () => {
+		const result = await codeBlocksTool.handler({ path: "Dash" }, createVaultContext({ "Dash.md": NOTE }));
+		expect(parse(result.content[0]?.text).blocks).toEqual([
+			{ index: 0, language: "dataview", info: "dataview", label: null, heading: "Open tasks", start_line: 2, end_line: 4 },
+			{ index: 1, language: "mermaid", info: 'mermaid title="flow"', label: "flow", heading: "Flow", start_line: 9, end_line: 12 },
+			{ index: 2, language: "query", info: "query", label: null, heading: "Flow", start_line: 15, end_line: 17 },
+		]);
+	});
+
+	it("reads block content without fences or container prefixes", async () => {
+		const context = createVaultContext({ "Dash.md": NOTE });
+		const mermaid = parse((await codeBlocksTool.handler({ action: "read", path: "Dash", label: "flow" }, context)).content[0]?.text);
+		expect(mermaid.content).toBe("graph TD\n  A --> B");
+
+		const query = parse((await codeBlocksTool.handler({ action: "read", path: "Dash", language: "query" }, context)).content[0]?.text);
+		expect(query).toMatchObject({ index: 2, content: "tag:#idea" });
+	});
+
+	it("replaces a block and keeps the surrounding text", async () => {
+		const context = createVaultContext({ "Dash.md": NOTE });
+		await codeBlocksTool.handler({ action: "replace", path: "Dash", label: "flow", content: "graph LR\n\n  A --> C\n" }, context);
+		await codeBlocksTool.handler({ action: "replace", path: "Dash", index: 0, content: "TABLE file.name\n```\nnested\n```" }, context);
+
+		expect(context.contents.get("Dash.md")).toBe([
+			"---",
+			'{"type":"dashboard"}',
+			"---",
+			"# Open tasks",
+			"````dataview",
+			"TABLE file.name",
+			"```",
+			"nested",
+			"```",
+			"````",
+			"",
+			"## Flow",
+			"",
+			"> [!note] Diagram",
+			"> ```mermaid title=\"flow\"",
+			"> graph LR",
+			">",
+			">   A --> C",
+			"> ```",
+			"",
+			"- Query:",
+			"  ~~~query",
+			"  tag:#idea",
+			"  ~~~",
+			"",
+			"Closing prose.",
+		].join("\n"));
+	});
+
+	it("replaces the info string and reports missing blocks", async () => {
+		const context = createVaultContext({ "Dash.md": NOTE });
+		await codeBlocksTool.handler({ action: "replace", path: "Dash", language: "query", content: "tag:#done", info: "query" }, context);
+		expect(context.contents.get("Dash.md")).toContain("  ~~~query\n  tag:#done\n  ~~~\n");
+
+		const missing = await codeBlocksTool.handler({ action: "read", path: "Dash", language: "python" }, context);
+		expect(missing.content[0]?.text).toBe("Error: Code block 0 not found (0 python blocks).");
+
+		const noContent = await codeBlocksTool.handler({ action: "replace", path: "Dash" }, context);
+		expect(noContent.content[0]?.text).toBe("Error: content is required for replace.");
+	});
+
+	it("finds and replaces blocks in CRLF notes", async () => {
+		const context = createVaultContext({ "Win.md": "Intro\r\n```js\r\nold()\r\n```\r\nOutro" });
+		const read = parse((await codeBlocksTool.handler({ action: "read", path: "Win" }, context)).content[0]?.text);
+		expect(read).toMatchObject({ index: 0, language: "js", start_line: 2, end_line: 4, content: "old()" });
+
+		await codeBlocksTool.handler({ action: "replace", path: "Win", content: "first()\nsecond()" }, context);
+		expect(context.contents.get("Win.md")).toBe("Intro\r\n```js\r\nfirst()\r\nsecond()\r\n```\r\nOutro");
+	});
+
+	it("refuses to replace a block without a closing fence", async () => {
+		const note = "# Draft\n```js\nconsole.log(1);\n\n## Later\nMore text";
+		const context = createVaultContext({ "Draft.md": note });
+		const result = await codeBlocksTool.handler({ action: "replace", path: "Draft", content: "x" }, context);
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe("Error: Code block 0 has no closing fence, so it runs to the end of the note. Add the closing ``` before replacing it.");
+		expect(context.contents.get("Draft.md")).toBe(note);
+	});
+});
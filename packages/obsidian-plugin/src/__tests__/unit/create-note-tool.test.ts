@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { createNoteTool } from "../../mcp/tools/builtin/create-note";
+
+function createContext(files: Record<string, string> = {}, templater?: unknown): any {
+	const context = createVaultContext(files);
+	context.app.plugins = {
+		getPlugin: vi.fn().mockImplementation((id: string) => (id === "templater-obsidian" ? templater : undefined)),
+	};
+	return context;
+}
+
+describe("create_note tool", () => {
+	it("renders a template with variables and merges frontmatter", async () => {
+		const context = createContext({
+			"Templates/Meeting.md": '---\n{"type":"meeting"}\n---\n# {{title}}\nProject: {{project}}\nDay: {{date:YYYY}}\n',
+		});
+		const result = await createNoteTool.handler(
+			{ path: "Meetings/Kickoff", template: "Templates/Meeting", variables: { project: "Apollo" }, frontmatter: { attendees: 3 } },
+			context,
+		);
+		expect(parse(result.content[0]?.text)).toMatchObject({
+			ok: true,
+			path: "Meetings/Kickoff.md",
+			created_folder: "Meetings",
+			template: "Templates/Meeting.md",
+			templater: "skipped",
+		});
+		expect(context.vault.createFolder).toHaveBeenCalledWith("Meetings");
+		const year = new Date().getFullYear();
+		expect(context.vault.create).toHaveBeenCalledWith(
+			"Meetings/Kickoff.md",
+			`---\n{"type":"meeting","attendees":3}\n---\n# Kickoff\nProject: Apollo\nDay: ${year}\n`,
+		);
+	});
+
+	it("creates a note from plain content", async () => {
+		const context = createContext();
+		await createNoteTool.handler({ path: "Idea", content: "Title: {{title}}\n{{unknown}}\n" }, context);
+		expect(context.vault.create).toHaveBeenCalledWith("Idea.md", "Title: Idea\n{{unknown}}\n");
+		expect(context.vault.createFolder).not.toHaveBeenCalled();
+	});
+
+	it("runs Templater when requested and available", async () => {
+		const overwrite = vi.fn();
+		const context = createContext({}, { templater: { overwrite_file_commands: overwrite } });
+		overwrite.mockImplementation((file: TFile) => {
+			context.contents.set(file.path, "processed\n");
+			return Promise.resolve();
+		});
+		const result = await createNoteTool.handler({ path: "Daily", content: "<% tp.date.now() %>\n", run_templater: true }, context);
+		expect(overwrite).toHaveBeenCalledTimes(1);
+		expect(parse(result.content[0]?.text).templater).toBe("applied");
+
+		const unavailable = await createNoteTool.handler({ path: "Other", run_templater: true }, createContext());
+		expect(parse(unavailable.content[0]?.text).templater).toBe("unavailable");
+	});
+
+	it("refuses to overwrite or create folders when disabled", async () => {
+		const existing = await createNoteTool.handler({ path: "Note", content: "x" }, createContext({ "Note.md": "old" }));
+		expect(existing.content[0]?.text).toBe('Error: A file or folder already exists at "Note.md"');
+
+		const noFolder = await createNoteTool.handler({ path: "A/B", create_folders: false }, createContext());
+		expect(noFolder.content[0]?.text).toBe('Error: Folder "A" does not exist. Set create_folders=true to create it.');
+	});
+});
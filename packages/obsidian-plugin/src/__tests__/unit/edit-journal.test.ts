@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext } from "../mocks/tool-context";
+import { EditJournal, EditJournalEntry } from "../../plugin/edit-journal";
+import { editNoteTool } from "../../mcp/tools/builtin/edit";
+import { listEditsTool, revertEditTool, undoLastEditTool } from "../../mcp/tools/builtin/journal";
+
+function createMemoryPersistence() {
+	let stored: EditJournalEntry[] | null = null;
+	return {
+		load: vi.fn().mockImplementation(() => Promise.resolve(stored)),
+		save: vi.fn().mockImplementation((entries: EditJournalEntry[]) => {
+			stored = JSON.parse(JSON.stringify(entries)) as EditJournalEntry[];
+			return Promise.resolve();
+		}),
+	};
+}
+
+function createContext(initial: Record<string, string>, journal: EditJournal | undefined): any {
+	const context = createVaultContext(initial);
+	context.app.fileManager = {
+		trashFile: vi.fn().mockImplementation((file: TFile) => {
+			context.files.delete(file.path);
+			context.contents.delete(file.path);
+			return Promise.resolve();
+		}),
+	};
+	return Object.assign(context, { editJournal: journal, caller: { keyId: "abcd1234" } });
+}
+
+const PATCH = "@@ -1,1 +1,1 @@\n-Hello\n+Hello world\n";
+
+describe("edit journal", () => {
+	it("records edit_note writes with the caller key id and undoes them", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({ "Note.md": "Hello\n" }, journal);
+
+		await editNoteTool.handler({ path: "Note", patch: PATCH }, context);
+		expect(context.contents.get("Note.md")).toBe("Hello world\n");
+
+		const [entry] = journal.list();
+		expect(entry).toMatchObject({
+			id: 1,
+			tool: "edit_note",
+			key_id: "abcd1234",
+			action: "modify",
+			path: "Note.md",
+			before: "Hello\n",
+			after: "Hello world\n",
+		});
+
+		const result = await undoLastEditTool.handler({}, context);
+		expect(result.isError).toBeUndefined();
+		expect(context.contents.get("Note.md")).toBe("Hello\n");
+		expect(journal.get(1)?.reverted_at).toBeDefined();
+
+		const again = await undoLastEditTool.handler({}, context);
+		expect(again.isError).toBe(true);
+		expect(again.content[0]?.text).toBe("Error: No journaled edits to undo.");
+	});
+
+	it("restores a note removed through the delete path", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({ "Note.md": "Keep me\n" }, journal);
+
+		await editNoteTool.handler({ path: "Note.md", patch: "", delete: true }, context);
+		expect(context.contents.has("Note.md")).toBe(false);
+
+		const result = await revertEditTool.handler({ id: 1 }, context);
+		expect(result.isError).toBeUndefined();
+		expect(context.vault.create).toHaveBeenCalledWith("Note.md", "Keep me\n");
+	});
+
+	it("refuses to revert a note that changed after the write unless forced", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({ "Note.md": "Hello\n" }, journal);
+
+		await editNoteTool.handler({ path: "Note.md", patch: PATCH }, context);
+		context.contents.set("Note.md", "Edited by hand\n");
+
+		const refused = await revertEditTool.handler({ id: 1 }, context);
+		expect(refused.isError).toBe(true);
+		expect(refused.content[0]?.text).toContain("changed after journal entry 1");
+		expect(context.contents.get("Note.md")).toBe("Edited by hand\n");
+
+		const forced = await revertEditTool.handler({ id: 1, force: true }, context);
+		expect(forced.isError).toBeUndefined();
+		expect(context.contents.get("Note.md")).toBe("Hello\n");
+	});
+
+	it("keeps only the newest entries and persists them", async () => {
+		const persistence = createMemoryPersistence();
+		const journal = new EditJournal(persistence, 2);
+		for (const path of ["A.md", "B.md", "C.md"]) {
+			await journal.record({ tool: "edit_note", keyId: null, action: "create", path, before: null, after: "x" });
+		}
+
+		expect(journal.list().map((entry) => entry.path)).toEqual(["C.md", "B.md"]);
+
+		const reloaded = new EditJournal(persistence, 2);
+		await reloaded.load();
+		expect(reloaded.list().map((entry) => entry.id)).toEqual([3, 2]);
+		const next = await reloaded.record({ tool: "edit_note", keyId: null, action: "create", path: "D.md", before: null, after: "x" });
+		expect(next.id).toBe(4);
+	});
+
+	it("drops the oldest entries once the snapshots exceed the size budget", async () => {
+		const journal = new EditJournal(createMemoryPersistence(), 100, 10);
+		await journal.record({ tool: "edit_note", keyId: null, action: "modify", path: "A.md", before: "aaa", after: "aaaa" });
+		await journal.record({ tool: "edit_note", keyId: null, action: "modify", path: "B.md", before: "b", after: "bb" });
+		await journal.record({ tool: "edit_note", keyId: null, action: "modify", path: "C.md", before: "ccc", after: "cccc" });
+		expect(journal.list().map((entry) => entry.path)).toEqual(["C.md", "B.md"]);
+
+		await journal.record({ tool: "edit_note", keyId: null, action: "modify", path: "D.md", before: "dddddd", after: "dddddd" });
+		expect(journal.list().map((entry) => entry.path)).toEqual(["D.md"]);
+	});
+
+	it("lists entries without snapshots and filters by path", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({}, journal);
+		await journal.record({ tool: "edit_note", keyId: null, action: "create", path: "A.md", before: null, after: "a" });
+		await journal.record({ tool: "edit_frontmatter", keyId: "k1", action: "modify", path: "B.md", before: "b", after: "bb" });
+
+		const result = await listEditsTool.handler({ path: "B" }, context);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { total: number; entries: Record<string, unknown>[] };
+		expect(payload.total).toBe(1);
+		expect(payload.entries[0]).toMatchObject({ id: 2, tool: "edit_frontmatter", key_id: "k1", has_before: true, has_after: true });
+		expect(payload.entries[0]).not.toHaveProperty("before");
+	});
+
+	it("filters and undoes entries of non-markdown files by their exact path", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({ "Board.canvas": '{"nodes":[]}' }, journal);
+		await journal.record({ tool: "edit_canvas", keyId: null, action: "modify", path: "Board.canvas", before: "{}", after: '{"nodes":[]}' });
+		await journal.record({ tool: "edit_note", keyId: null, action: "create", path: "Board.canvas.md", before: null, after: "x" });
+
+		const listed = await listEditsTool.handler({ path: "Board.canvas" }, context);
+		const payload = JSON.parse(listed.content[0]?.text ?? "{}") as { entries: Record<string, unknown>[] };
+		expect(payload.entries.map((entry) => entry.path)).toEqual(["Board.canvas"]);
+
+		const undone = await undoLastEditTool.handler({ path: "Board.canvas" }, context);
+		expect(undone.isError).toBeUndefined();
+		expect(context.contents.get("Board.canvas")).toBe("{}");
+	});
+
+	it("trashes created binary files on undo and refuses other binary reverts", async () => {
+		const journal = new EditJournal(createMemoryPersistence());
+		const context = createContext({ "Attachments/a.png": "", "Attachments/b.png": "" }, journal);
+		await journal.record({ tool: "write_attachment", keyId: null, action: "modify", path: "Attachments/b.png", before: null, after: null, binary: true });
+		await journal.record({ tool: "write_attachment", keyId: null, action: "create", path: "Attachments/a.png", before: null, after: null, binary: true });
+
+		const undone = await undoLastEditTool.handler({ path: "Attachments/a.png" }, context);
+		expect(undone.isError).toBeUndefined();
+		expect(context.app.fileManager.trashFile).toHaveBeenCalledTimes(1);
+		expect(context.contents.has("Attachments/a.png")).toBe(false);
+
+		const refused = await revertEditTool.handler({ id: 1 }, context);
+		expect(refused.content[0]?.text).toBe("Error: Journal entry 1 changed a binary file; only newly created files can be reverted.");
+		expect(context.contents.has("Attachments/b.png")).toBe(true);
+	});
+
+	it("reports when the journal is unavailable", async () => {
+		const context = createContext({}, undefined);
+		const result = await undoLastEditTool.handler({}, context);
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe("Error: The edit journal is not available.");
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 import { TFile } from "obsidian";
 import { editNoteTool } from "../../mcp/tools/builtin/edit";
+import { computeContentVersion } from "../../mcp/tools/helpers/version-helper";
 
 function createTFile(path: string, basename: string): TFile {
 	const file = new TFile();
@@ -79,3 +80,116 @@ describe("edit_note tool", () => {
 		expect(modify).toHaveBeenCalledWith(noteFile, "# Entry\nToday\nTomorrow\n");
 	});
 });
+
+describe("edit_note expected_version", () => {
+	it("rejects a stale version with a structured conflict and diff", async () => {
+		const noteFile = createTFile("Notes/Daily.md", "Daily");
+		const readContent = "# Entry\nToday\n";
+		const staleVersion = computeContentVersion(readContent);
+		const modify = vi.fn();
+		const context = {
+			vault: {
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue("# Entry\nToday, edited by the user\n"),
+				modify,
+			},
+			app: {
+				fileManager: {
+					trashFile: vi.fn(),
+				},
+			},
+		} as any;
+
+		const patch = "@@ -1,2 +1,3 @@\n # Entry\n Today\n+Tomorrow\n";
+		const result = await editNoteTool.handler({ path: "Notes/Daily", patch, expected_version: staleVersion }, context);
+		expect(result.isError).toBe(true);
+		expect(modify).not.toHaveBeenCalled();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.error).toBe("conflict");
+		expect(payload.expected_version).toBe(staleVersion);
+		expect(payload.current_version).toBe(computeContentVersion("# Entry\nToday, edited by the user\n"));
+		expect(payload.diff).toContain("+Today, edited by the user");
+	});
+
+	it("writes when the version matches", async () => {
+		const noteFile = createTFile("Notes/Daily.md", "Daily");
+		const currentNote = "# Entry\nToday\n";
+		const modify = vi.fn();
+		const context = {
+			vault: {
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue(currentNote),
+				modify,
+			},
+			app: {
+				fileManager: {
+					trashFile: vi.fn(),
+				},
+			},
+		} as any;
+
+		const patch = "@@ -1,2 +1,3 @@\n # Entry\n Today\n+Tomorrow\n";
+		const result = await editNoteTool.handler(
+			{ path: "Notes/Daily", patch, expected_version: computeContentVersion(currentNote) },
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		expect(result.content[0]?.text).toContain(computeContentVersion("# Entry\nToday\nTomorrow\n"));
+	});
+});
+
+describe("edit_note dry_run", () => {
+	it("previews the result with a normalized diff and reports fuzzed hunks", async () => {
+		const noteFile = createTFile("Notes/Daily.md", "Daily");
+		const currentNote = "---\ntitle: Daily\n---\nIntro\n# Entry\nToday\n";
+		const modify = vi.fn();
+		const context = {
+			vault: {
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue(currentNote),
+				modify,
+			},
+			app: {
+				fileManager: {
+					trashFile: vi.fn(),
+				},
+			},
+		} as any;
+
+		// The hunk header claims line 1, but the context actually starts at line 2.
+		const patch = "@@ -1,2 +1,3 @@\n # Entry\n Today\n+Tomorrow\n";
+		const result = await editNoteTool.handler({ path: "Notes/Daily", patch, dry_run: true }, context);
+		expect(result.isError).toBeUndefined();
+		expect(modify).not.toHaveBeenCalled();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.dry_run).toBe(true);
+		expect(payload.content).toBe("Intro\n# Entry\nToday\nTomorrow\n");
+		expect(payload.diff).toContain("+Tomorrow");
+		expect(payload.hunks).toEqual([
+			{ index: 0, old_start: 1, applied_start: 2, offset: 1, fuzz: 0, fuzzed: true },
+		]);
+	});
+
+	it("reports the position and fuzz applyPatch actually used", async () => {
+		const noteFile = createTFile("Notes/Letters.md", "Letters");
+		const context = {
+			vault: {
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue("a\nb\nEXTRA\nc\nd\ne\nf\ng\n"),
+				modify: vi.fn(),
+			},
+		} as any;
+
+		// The note has a line the hunk's context does not know about; it still applies at line 1.
+		const patch = "@@ -1,6 +1,6 @@\n a\n b\n c\n-d\n+D\n e\n f\n@@ -7,1 +7,2 @@\n g\n+h\n";
+		const result = await editNoteTool.handler({ path: "Notes/Letters", patch, dry_run: true }, context);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.content).toBe("a\nb\nEXTRA\nc\nD\ne\nf\ng\nh\n");
+		expect(payload.hunks).toEqual([
+			{ index: 0, old_start: 1, applied_start: 1, offset: 0, fuzz: 1, fuzzed: true },
+			{ index: 1, old_start: 7, applied_start: 8, offset: 1, fuzz: 0, fuzzed: true },
+		]);
+	});
+});
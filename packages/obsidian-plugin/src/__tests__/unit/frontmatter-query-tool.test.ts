@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { queryFrontmatterTool } from "../../mcp/tools/builtin/frontmatter-query";
+import { parseFrontmatterQuery } from "../../mcp/tools/helpers/query-helper";
+
+function createTFile(path: string, mtime: number): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename: path.replace(/\.md$/, ""), stat: { ctime: 0, mtime, size: 0 } });
+	return file;
+}
+
+function createContext(frontmatters: Record<string, Record<string, unknown> | null>): any {
+	const files = Object.keys(frontmatters).map((path, index) => createTFile(path, index));
+	return {
+		vault: {
+			getMarkdownFiles: vi.fn().mockReturnValue(files),
+		},
+		app: {
+			metadataCache: {
+				getFileCache: vi.fn().mockImplementation((file: TFile) => {
+					const frontmatter = frontmatters[file.path];
+					return frontmatter ? { frontmatter: { ...frontmatter, position: { start: {}, end: {} } } } : {};
+				}),
+			},
+		},
+	};
+}
+
+const NOTES = {
+	"Tasks/A.md": { status: "open", due: "2024-03-01", priority: 2, tags: ["work", "urgent"] },
+	"Tasks/B.md": { status: "Open", due: "2024-05-10", priority: 1, tags: ["home"] },
+	"Tasks/C.md": { status: "done", due: "2024-02-01", priority: 3 },
+	"Notes/D.md": { title: "No status", project: { owner: "kim" } },
+	"Notes/E.md": null,
+};
+
+function paths(text: string | undefined): string[] {
+	const payload = JSON.parse(text ?? "{}") as { notes: Array<{ path: string }> };
+	return payload.notes.map((note) => note.path);
+}
+
+describe("query_frontmatter tool", () => {
+	it("filters with equality, comparison and relative dates", async () => {
+		const context = createContext(NOTES);
+		const now = new Date(2024, 3, 1);
+		const predicate = parseFrontmatterQuery("status = open AND due < today", now);
+		expect("error" in predicate).toBe(false);
+
+		const result = await queryFrontmatterTool.handler({ query: "status = \"open\" AND priority >= 2" }, context);
+		expect(paths(result.content[0]?.text)).toEqual(["Tasks/A.md"]);
+
+		const overdue = parseFrontmatterQuery("due < today AND NOT status = done", now);
+		if ("error" in overdue) {
+			throw new Error(overdue.error);
+		}
+		expect(overdue(NOTES["Tasks/A.md"])).toBe(true);
+		expect(overdue(NOTES["Tasks/B.md"])).toBe(false);
+		expect(overdue(NOTES["Tasks/C.md"])).toBe(false);
+	});
+
+	it("supports contains, exists, between and nested keys", async () => {
+		const context = createContext(NOTES);
+
+		const contains = await queryFrontmatterTool.handler({ query: "tags contains urgent OR project.owner = kim" }, context);
+		expect(paths(contains.content[0]?.text)).toEqual(["Notes/D.md", "Tasks/A.md"]);
+
+		const exists = await queryFrontmatterTool.handler({ query: "NOT exists(status)" }, context);
+		expect(paths(exists.content[0]?.text)).toEqual(["Notes/D.md"]);
+
+		const between = await queryFrontmatterTool.handler({ query: "due between 2024-02-15 and 2024-06-01" }, context);
+		expect(paths(between.content[0]?.text)).toEqual(["Tasks/A.md", "Tasks/B.md"]);
+	});
+
+	it("projects, sorts by property and paginates", async () => {
+		const context = createContext(NOTES);
+		const result = await queryFrontmatterTool.handler(
+			{ query: "exists(due)", select: ["due", "missing"], sort_by: "due", order: "desc", limit: 2 },
+			context,
+		);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as Record<string, unknown>;
+		expect(payload.total).toBe(3);
+		expect(payload.notes).toEqual([
+			{ path: "Tasks/B.md", properties: { due: "2024-05-10", missing: null } },
+			{ path: "Tasks/A.md", properties: { due: "2024-03-01", missing: null } },
+		]);
+		expect(payload.next_cursor).toBe("2");
+
+		const next = await queryFrontmatterTool.handler(
+			{ query: "exists(due)", sort_by: "due", order: "desc", limit: 2, cursor: "2" },
+			context,
+		);
+		expect(paths(next.content[0]?.text)).toEqual(["Tasks/C.md"]);
+	});
+
+	it("reports invalid queries", async () => {
+		const result = await queryFrontmatterTool.handler({ query: "status ~ open" }, createContext(NOTES));
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe("Error: Invalid query: Unknown operator \"~\".");
+	});
+});
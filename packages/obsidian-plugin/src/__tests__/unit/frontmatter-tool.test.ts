@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { batchEditFrontmatterTool, editFrontmatterTool, readFrontmatterTool } from "../../mcp/tools/builtin/frontmatter-tool";
+
+function createTFile(path: string, basename: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename });
+	return file;
+}
+
+describe("edit_frontmatter tool", () => {
+	it("previews merged frontmatter in dry_run mode without writing", async () => {
+		const noteFile = createTFile("Notes/Task.md", "Task");
+		const modify = vi.fn();
+		const context = {
+			vault: {
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue('---\n{"status":"open"}\n---\nBody\n'),
+				modify,
+			},
+		} as any;
+
+		const result = await editFrontmatterTool.handler(
+			{ path: "Notes/Task", mode: "merge", data: { priority: 1 }, dry_run: true },
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		expect(modify).not.toHaveBeenCalled();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload).toMatchObject({
+			dry_run: true,
+			action: "modify",
+			changed: true,
+			frontmatter: { status: "open", priority: 1 },
+			content: '---\n{"status":"open","priority":1}\n---\nBody\n',
+		});
+		expect(payload.diff).toContain('+{"status":"open","priority":1}');
+	});
+});
+
+describe("batch_edit_frontmatter tool", () => {
+	function createBatchContext(notes: Record<string, string>, modify = vi.fn()): any {
+		const contents = new Map(Object.entries(notes));
+		const files = Object.keys(notes).map((path) => createTFile(path, path.replace(/\.md$/, "")));
+		modify.mockImplementation((file: TFile, content: string) => {
+			contents.set(file.path, content);
+			return Promise.resolve();
+		});
+		return {
+			contents,
+			vault: {
+				getMarkdownFiles: vi.fn().mockReturnValue(files),
+				getAbstractFileByPath: vi.fn().mockImplementation((path: string) => files.find((file) => file.path === path) ?? null),
+				read: vi.fn().mockImplementation((file: TFile) => Promise.resolve(contents.get(file.path))),
+				modify,
+			},
+			app: {
+				metadataCache: {
+					getFileCache: vi.fn().mockImplementation((file: TFile) => {
+						const match = contents.get(file.path)?.match(/^---\n(.*)\n---/);
+						return match ? { frontmatter: JSON.parse(match[1] ?? "{}") as Record<string, unknown> } : {};
+					}),
+				},
+			},
+		};
+	}
+
+	const NOTES = {
+		"Projects/A.md": '---\n{"status":"open"}\n---\nA\n',
+		"Projects/B.md": '---\n{"status":"done"}\n---\nB\n',
+		"Projects/C.md": "C\n",
+		"Inbox/D.md": '---\n{"status":"open"}\n---\nD\n',
+	};
+
+	it("merges into every note matching folder and query", async () => {
+		const context = createBatchContext(NOTES);
+		const result = await batchEditFrontmatterTool.handler(
+			{ folder: "Projects", query: "status = open", mode: "merge", data: { reviewed: true } },
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as Record<string, unknown>;
+		expect(payload).toMatchObject({ ok: true, matched: 1, changed: 1, files: [{ path: "Projects/A.md", status: "changed" }] });
+		expect(context.contents.get("Projects/A.md")).toBe('---\n{"status":"open","reviewed":true}\n---\nA\n');
+		expect(context.contents.get("Inbox/D.md")).toBe(NOTES["Inbox/D.md"]);
+	});
+
+	it("previews diffs in dry_run mode without writing", async () => {
+		const context = createBatchContext(NOTES);
+		const result = await batchEditFrontmatterTool.handler(
+			{ paths: ["Projects/A", "Projects/B"], mode: "delete", keys: ["status"], dry_run: true },
+			context,
+		);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { changed: number; files: Array<{ diff: string }> };
+		expect(payload.changed).toBe(2);
+		expect(payload.files[0]?.diff).toContain('-{"status":"open"}');
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("writes nothing when a listed note is missing", async () => {
+		const context = createBatchContext(NOTES);
+		const result = await batchEditFrontmatterTool.handler(
+			{ paths: ["Projects/A", "Missing"], mode: "set", data: { status: "archived" } },
+			context,
+		);
+		expect(result.isError).toBe(true);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { ok: boolean; files: Array<{ path: string; status: string }> };
+		expect(payload.ok).toBe(false);
+		expect(payload.files).toContainEqual(expect.objectContaining({ path: "Missing.md", status: "error" }));
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("rolls back earlier writes when a later write fails", async () => {
+		const modify = vi.fn();
+		const context = createBatchContext(NOTES, modify);
+		const write = modify.getMockImplementation()!;
+		modify.mockImplementation((file: TFile, content: string) => {
+			if (file.path === "Projects/B.md" && content !== NOTES["Projects/B.md"]) {
+				return Promise.reject(new Error("disk full"));
+			}
+			return write(file, content) as Promise<void>;
+		});
+
+		const result = await batchEditFrontmatterTool.handler(
+			{ folder: "Projects", query: "exists(status)", mode: "set", data: { owner: "kim" } },
+			context,
+		);
+		expect(result.isError).toBe(true);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { files: Array<{ path: string; status: string }> };
+		expect(payload.files).toEqual([
+			{ path: "Projects/B.md", status: "error", error: "Error: disk full" },
+			{ path: "Projects/A.md", status: "rolled_back" },
+		]);
+		expect(context.contents.get("Projects/A.md")).toBe(NOTES["Projects/A.md"]);
+	});
+});
+
+describe("property types", () => {
+	const TYPES = JSON.stringify({
+		types: { priority: "number", due: "date", started: "datetime", aliases: "aliases", done: "checkbox", Status: "text" },
+	});
+
+	function createTypedContext(content: string): any {
+		const noteFile = createTFile("Notes/Task.md", "Task");
+		return {
+			vault: {
+				configDir: "config",
+				adapter: {
+					exists: vi.fn().mockImplementation((path: string) => Promise.resolve(path === "config/types.json")),
+					read: vi.fn().mockResolvedValue(TYPES),
+				},
+				getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+				read: vi.fn().mockResolvedValue(content),
+				modify: vi.fn(),
+			},
+		};
+	}
+
+	it("coerces values to the declared types before writing", async () => {
+		const context = createTypedContext('---\n{"status":"open"}\n---\nBody\n');
+		const result = await editFrontmatterTool.handler(
+			{
+				path: "Notes/Task",
+				mode: "merge",
+				data: { priority: "3", due: "March 5, 2024", started: "2024-03-05 09:30", aliases: "Todo", done: "true", status: 1 },
+			},
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { frontmatter: Record<string, unknown> };
+		expect(payload.frontmatter).toEqual({
+			status: "1",
+			priority: 3,
+			due: "2024-03-05",
+			started: "2024-03-05T09:30",
+			aliases: ["Todo"],
+			done: true,
+		});
+	});
+
+	it("rejects values that do not match the declared type", async () => {
+		const context = createTypedContext("Body\n");
+		const result = await editFrontmatterTool.handler(
+			{ path: "Notes/Task", mode: "set", data: { priority: "high", done: "yes", other: { free: true } } },
+			context,
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe(
+			'Error: Property type mismatch: "priority" is a number property: expected a number, got "high"; "done" is a checkbox property: expected true or false, got "yes".',
+		);
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("returns the declared type of each key from read_frontmatter", async () => {
+		const context = createTypedContext('---\n{"priority":2,"notes":"x"}\n---\nBody\n');
+		const result = await readFrontmatterTool.handler({ path: "Notes/Task" }, context);
+		const payload = JSON.parse(result.content[0]?.text ?? "{}") as { types: Record<string, string | null> };
+		expect(payload.types).toEqual({ priority: "number", notes: null });
+	});
+});
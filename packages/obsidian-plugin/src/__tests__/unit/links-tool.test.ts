@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { getLinksTool } from "../../mcp/tools/builtin/links";
+
+function createTFile(path: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename: path.replace(/\.md$/, "") });
+	return file;
+}
+
+function reference(link: string, line: number, offset: number) {
+	return { link, original: `[[${link}]]`, position: { start: { line, col: 0, offset }, end: { line, col: 0, offset } } };
+}
+
+function createContext(): any {
+	const files: Record<string, TFile> = {
+		"A.md": createTFile("A.md"),
+		"B.md": createTFile("B.md"),
+		"C.md": createTFile("C.md"),
+		"D.md": createTFile("D.md"),
+	};
+	const contents: Record<string, string> = {
+		"A.md": "---\ntitle: A\n---\nSee [[B]]\n![[C#Sec]] and [[Missing]]",
+		"B.md": "# B\nBack to [[A|the A note]]",
+	};
+	const caches: Record<string, unknown> = {
+		"A.md": {
+			frontmatterPosition: { start: { line: 0 }, end: { line: 2 } },
+			links: [reference("B", 3, 20), reference("Missing", 4, 40)],
+			embeds: [reference("C#Sec", 4, 30)],
+		},
+		"B.md": {
+			links: [{ ...reference("A", 1, 12), displayText: "the A note" }],
+		},
+	};
+
+	return {
+		vault: {
+			getAbstractFileByPath: vi.fn().mockImplementation((path: string) => files[path] ?? null),
+			cachedRead: vi.fn().mockImplementation(async (file: TFile) => contents[file.path] ?? ""),
+		},
+		app: {
+			metadataCache: {
+				getFileCache: vi.fn().mockImplementation((file: TFile) => caches[file.path] ?? null),
+				getFirstLinkpathDest: vi.fn().mockImplementation((linkPath: string) => files[`${linkPath}.md`] ?? null),
+				resolvedLinks: {
+					"A.md": { "B.md": 1, "C.md": 1 },
+					"B.md": { "A.md": 1 },
+					"C.md": { "D.md": 2 },
+				},
+			},
+		},
+	};
+}
+
+describe("get_links tool", () => {
+	it("returns outgoing links, embeds, unresolved links and backlinks", async () => {
+		const result = await getLinksTool.handler({ path: "A" }, createContext());
+		expect(result.isError).toBeUndefined();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.links).toEqual([
+			{ link: "B", target: "B.md", subpath: "", display: "B", line: 1 },
+			{ link: "Missing", target: null, subpath: "", display: "Missing", line: 2 },
+		]);
+		expect(payload.embeds).toEqual([
+			{ link: "C#Sec", target: "C.md", subpath: "Sec", display: "C#Sec", line: 2 },
+		]);
+		expect(payload.unresolved.map((entry: { link: string }) => entry.link)).toEqual(["Missing"]);
+		expect(payload.backlinks).toEqual([
+			{ source: "B.md", link: "A", line: 2, text: "Back to [[A|the A note]]" },
+		]);
+	});
+
+	it("returns the N-hop neighbourhood in graph mode", async () => {
+		const result = await getLinksTool.handler({ path: "B", mode: "graph", depth: 2, direction: "out" }, createContext());
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.nodes).toEqual([
+			{ path: "B.md", distance: 0 },
+			{ path: "A.md", distance: 1 },
+			{ path: "C.md", distance: 2 },
+		]);
+		expect(payload.edges).toEqual([
+			{ source: "A.md", target: "B.md", count: 1 },
+			{ source: "A.md", target: "C.md", count: 1 },
+			{ source: "B.md", target: "A.md", count: 1 },
+		]);
+		expect(payload.truncated).toBe(false);
+	});
+
+	it("limits graph size with max_nodes", async () => {
+		const result = await getLinksTool.handler({ path: "A", mode: "graph", depth: 3, max_nodes: 2 }, createContext());
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.nodes).toHaveLength(2);
+		expect(payload.truncated).toBe(true);
+	});
+});
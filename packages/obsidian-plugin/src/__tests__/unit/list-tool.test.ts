@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import { listNotesTool } from "../../mcp/tools/builtin/list";
+
+function createTFile(path: string, stat: { ctime: number; mtime: number; size: number }): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename: path.split("/").pop()!.replace(/\.md$/, ""), stat });
+	return file;
+}
+
+function createTFolder(path: string, children: unknown[] = []): TFolder {
+	const folder = new TFolder();
+	Object.assign(folder, { path, name: path.split("/").pop() ?? "", children });
+	return folder;
+}
+
+function createContext(): any {
+	const files = [
+		createTFile("Projects/Alpha.md", { ctime: 1, mtime: 30, size: 100 }),
+		createTFile("Projects/Beta.md", { ctime: 2, mtime: 10, size: 300 }),
+		createTFile("Projects/Archive/Old.md", { ctime: 3, mtime: 20, size: 200 }),
+		createTFile("Inbox.md", { ctime: 4, mtime: 40, size: 50 }),
+	];
+	const archive = createTFolder("Projects/Archive");
+	const projects = createTFolder("Projects", [files[0], files[1], archive]);
+	const root = createTFolder("/", [projects, files[3]]);
+	const folders: Record<string, TFolder> = { Projects: projects, "Projects/Archive": archive };
+
+	return {
+		vault: {
+			getMarkdownFiles: vi.fn().mockReturnValue(files),
+			getRoot: vi.fn().mockReturnValue(root),
+			getAbstractFileByPath: vi.fn().mockImplementation((path: string) => folders[path] ?? null),
+		},
+		app: {
+			metadataCache: {
+				getFileCache: vi.fn().mockImplementation((file: TFile) =>
+					file.path === "Projects/Alpha.md"
+						? { frontmatter: { status: "open", tags: ["project"] }, tags: [{ tag: "#Idea" }] }
+						: null,
+				),
+			},
+		},
+	};
+}
+
+describe("list_notes tool", () => {
+	it("lists notes recursively with metadata and frontmatter keys", async () => {
+		const result = await listNotesTool.handler({ folder: "Projects", include_frontmatter_keys: true }, createContext());
+		expect(result.isError).toBeUndefined();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.total).toBe(3);
+		expect(payload.notes[0]).toEqual({
+			path: "Projects/Alpha.md",
+			size: 100,
+			ctime: 1,
+			mtime: 30,
+			tags: ["project", "idea"],
+			frontmatter_keys: ["status", "tags"],
+		});
+		expect(payload.folders).toBeUndefined();
+	});
+
+	it("lists one level with subfolders", async () => {
+		const result = await listNotesTool.handler({ folder: "Projects", recursive: false }, createContext());
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.notes.map((note: { path: string }) => note.path)).toEqual(["Projects/Alpha.md", "Projects/Beta.md"]);
+		expect(payload.folders).toEqual(["Projects/Archive"]);
+	});
+
+	it("applies globs, sorting and pagination", async () => {
+		const context = createContext();
+		const first = await listNotesTool.handler(
+			{ exclude: ["**/Archive/**"], sort_by: "mtime", order: "desc", limit: 2 },
+			context,
+		);
+		const firstPayload = JSON.parse(first.content[0]?.text ?? "{}");
+		expect(firstPayload.notes.map((note: { path: string }) => note.path)).toEqual(["Inbox.md", "Projects/Alpha.md"]);
+		expect(firstPayload.next_cursor).toBe("2");
+
+		const second = await listNotesTool.handler(
+			{ exclude: ["**/Archive/**"], sort_by: "mtime", order: "desc", limit: 2, cursor: firstPayload.next_cursor },
+			context,
+		);
+		const secondPayload = JSON.parse(second.content[0]?.text ?? "{}");
+		expect(secondPayload.notes.map((note: { path: string }) => note.path)).toEqual(["Projects/Beta.md"]);
+		expect(secondPayload.next_cursor).toBeUndefined();
+
+		const included = await listNotesTool.handler({ include: ["Projects/*.md"] }, context);
+		expect(JSON.parse(included.content[0]?.text ?? "{}").total).toBe(2);
+
+		const unclosed = await listNotesTool.handler({ exclude: ["Projects/{a,b"] }, context);
+		expect(unclosed.isError).toBe(true);
+		expect(unclosed.content[0]?.text).toBe('Error: Glob "Projects/{a,b" has an unclosed "{".');
+	});
+
+	it("returns an error for a missing folder", async () => {
+		const result = await listNotesTool.handler({ folder: "Missing" }, createContext());
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe('Error: Folder not found at path "Missing"');
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import { moveNoteTool } from "../../mcp/tools/builtin/move";
+
+function createTFile(path: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename: path.split("/").pop()!.replace(/\.\w+$/, ""), extension: path.split(".").pop() });
+	return file;
+}
+
+function createTFolder(path: string): TFolder {
+	const folder = new TFolder();
+	Object.assign(folder, { path, name: path.split("/").pop() ?? "" });
+	return folder;
+}
+
+function createContext(alwaysUpdateLinks: boolean): any {
+	const entries: Record<string, unknown> = {
+		Projects: createTFolder("Projects"),
+		Archive: createTFolder("Archive"),
+		"Projects/Plan.md": createTFile("Projects/Plan.md"),
+		"Projects/diagram.png": createTFile("Projects/diagram.png"),
+		"Inbox.md": createTFile("Inbox.md"),
+	};
+	return {
+		vault: {
+			getAbstractFileByPath: vi.fn().mockImplementation((path: string) => entries[path] ?? null),
+			getFiles: vi.fn().mockImplementation(() => Object.values(entries).filter((entry) => entry instanceof TFile)),
+			createFolder: vi.fn().mockResolvedValue(undefined),
+			getConfig: vi.fn().mockImplementation((key: string) => (key === "alwaysUpdateLinks" ? alwaysUpdateLinks : undefined)),
+		},
+		app: {
+			fileManager: {
+				renameFile: vi.fn().mockResolvedValue(undefined),
+			},
+			metadataCache: {
+				resolvedLinks: {
+					"Inbox.md": { "Projects/Plan.md": 2, "Projects/diagram.png": 1 },
+					"Projects/Plan.md": { "Projects/diagram.png": 1 },
+					"Other.md": { "Inbox.md": 1 },
+				},
+			},
+		},
+	};
+}
+
+describe("move_note tool", () => {
+	it("renames a note through the file manager and reports rewritten links", async () => {
+		const context = createContext(true);
+		context.app.vault = context.vault;
+
+		const result = await moveNoteTool.handler({ path: "Projects/Plan", new_path: "Archive/Plan 2024" }, context);
+		expect(result.isError).toBeUndefined();
+		expect(context.app.fileManager.renameFile).toHaveBeenCalledWith(
+			context.vault.getAbstractFileByPath("Projects/Plan.md"),
+			"Archive/Plan 2024.md",
+		);
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.links_updated).toBe(true);
+		expect(payload.affected_files).toEqual([{ path: "Inbox.md", link_count: 2 }]);
+	});
+
+	it("lists folder moves in dry-run mode without touching the vault", async () => {
+		const context = createContext(false);
+		context.app.vault = context.vault;
+
+		const result = await moveNoteTool.handler({ path: "Projects", new_path: "Work/Projects", dry_run: true }, context);
+		expect(result.isError).toBeUndefined();
+		expect(context.app.fileManager.renameFile).not.toHaveBeenCalled();
+		expect(context.vault.createFolder).not.toHaveBeenCalled();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload).toMatchObject({
+			type: "folder",
+			links_updated: false,
+			created_folder: "Work",
+			moved_files: [
+				{ from: "Projects/diagram.png", to: "Work/Projects/diagram.png" },
+				{ from: "Projects/Plan.md", to: "Work/Projects/Plan.md" },
+			],
+			affected_files: [
+				{ path: "Inbox.md", link_count: 3 },
+				{ path: "Projects/Plan.md", link_count: 1 },
+			],
+		});
+	});
+
+	it("refuses to overwrite an existing destination", async () => {
+		const context = createContext(true);
+		context.app.vault = context.vault;
+
+		const result = await moveNoteTool.handler({ path: "Inbox", new_path: "Projects/Plan" }, context);
+		expect(result.isError).toBe(true);
+		expect(context.app.fileManager.renameFile).not.toHaveBeenCalled();
+	});
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
 import { TFile } from "obsidian";
 import { readNoteTool } from "../../mcp/tools/builtin/read";
+import { computeContentVersion } from "../../mcp/tools/helpers/version-helper";
+import { expandEmbeds } from "../../mcp/tools/helpers/link-helper";
 
 function createTFile(path: string, basename: string): TFile {
 	const file = new TFile();
@@ -40,6 +42,7 @@ describe("read_note tool", () => {
 				start_line: 1,
 				end_line: 2,
 				truncated: false,
+				version: computeContentVersion("# Entry\nGo to [[Plan]] and [[Plan#Roadmap|roadmap section]]"),
 			}, null, 2),
 		);
 	});
@@ -92,6 +95,7 @@ describe("read_note tool", () => {
 				start_line: 1,
 				end_line: 4,
 				truncated: false,
+				version: computeContentVersion("---\ntitle: Daily\ntags:\n  - journal\n---\n# Entry\nToday\n## Sub\nChild"),
 			}, null, 2),
 		);
 	});
@@ -125,6 +129,7 @@ describe("read_note tool", () => {
 				start_line: 1,
 				end_line: 7,
 				truncated: false,
+				version: computeContentVersion("# Root\nTop\n## Child\nInner\n### Grandchild\nDeep\nBack"),
 			}, null, 2),
 		);
 	});
@@ -147,4 +152,161 @@ describe("read_note tool", () => {
 		expect(result.isError).toBe(true);
 		expect(result.content[0]?.text).toBe('Error: Section "Missing" not found.');
 	});
+
+	describe("without a section", () => {
+		const NOTE = "---\ntitle: Daily\n---\nIntro line\nSecond line ^intro\n\n- item\nLast line";
+
+		function createContext(blocks: Record<string, unknown> = {}): any {
+			return {
+				vault: {
+					getAbstractFileByPath: vi.fn().mockReturnValue(createTFile("Notes/Daily.md", "Daily")),
+					read: vi.fn().mockResolvedValue(NOTE),
+				},
+				app: {
+					metadataCache: {
+						getFirstLinkpathDest: vi.fn(),
+						getFileCache: vi.fn().mockReturnValue({
+							frontmatterPosition: { start: { line: 0 }, end: { line: 2 } },
+							blocks,
+						}),
+					},
+				},
+			};
+		}
+
+		function parse(text: string | undefined): Record<string, unknown> {
+			return JSON.parse(text ?? "{}") as Record<string, unknown>;
+		}
+
+		it("reads the whole body and optionally the frontmatter", async () => {
+			const result = await readNoteTool.handler({ path: "Notes/Daily", include_frontmatter: true }, createContext());
+			expect(parse(result.content[0]?.text)).toEqual({
+				range: "body",
+				start_line: 1,
+				end_line: 5,
+				total_lines: 5,
+				content: "Intro line\nSecond line ^intro\n\n- item\nLast line",
+				truncated: false,
+				frontmatter: "---\ntitle: Daily\n---\n",
+				version: computeContentVersion(NOTE),
+			});
+		});
+
+		it("reads a line range with line numbers", async () => {
+			const result = await readNoteTool.handler(
+				{ path: "Notes/Daily", start_line: 4, end_line: 10, with_line_numbers: true },
+				createContext(),
+			);
+			const payload = parse(result.content[0]?.text);
+			expect(payload.range).toBe("lines");
+			expect(payload.content).toBe("4: - item\n5: Last line");
+			expect(payload.end_line).toBe(5);
+		});
+
+		it("reads a block by its id", async () => {
+			const context = createContext({
+				intro: { id: "intro", position: { start: { line: 3 }, end: { line: 4 } } },
+			});
+			const result = await readNoteTool.handler({ path: "Notes/Daily", block_id: "^intro" }, context);
+			const payload = parse(result.content[0]?.text);
+			expect(payload).toMatchObject({ range: "block", block_id: "intro", start_line: 1, end_line: 2 });
+			expect(payload.content).toBe("Intro line\nSecond line ^intro");
+
+			const missing = await readNoteTool.handler({ path: "Notes/Daily", block_id: "nope" }, context);
+			expect(missing.isError).toBe(true);
+			expect(missing.content[0]?.text).toBe('Error: Block "^nope" not found.');
+		});
+
+		it("pages through the body with max_chars and cursor", async () => {
+			const context = createContext();
+			const pages: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const result = await readNoteTool.handler({ path: "Notes/Daily", max_chars: 20, cursor }, context);
+				const payload = parse(result.content[0]?.text);
+				pages.push(payload.content as string);
+				cursor = payload.next_cursor as string | undefined;
+				expect(payload.truncated).toBe(cursor !== undefined);
+			} while (cursor !== undefined);
+
+			expect(pages).toHaveLength(3);
+			expect(pages.join("")).toBe("Intro line\nSecond line ^intro\n\n- item\nLast line");
+		});
+
+		it("rejects combining selectors", async () => {
+			const result = await readNoteTool.handler({ path: "Notes/Daily", section: "Entry", start_line: 1 }, createContext());
+			expect(result.isError).toBe(true);
+			expect(result.content[0]?.text).toBe("Error: Use only one of section, start_line/end_line, or block_id.");
+		});
+	});
+
+	describe("expand_embeds", () => {
+		function createContext(files: Record<string, string>, blocks: Record<string, unknown> = {}): any {
+			const tfiles = new Map(Object.keys(files).map((path) => [path, createTFile(path, path.replace(/\.md$/, ""))]));
+			return {
+				vault: {
+					getAbstractFileByPath: vi.fn().mockImplementation((path: string) => tfiles.get(path) ?? null),
+					read: vi.fn().mockImplementation((file: TFile) => Promise.resolve(files[file.path])),
+					cachedRead: vi.fn().mockImplementation((file: TFile) => Promise.resolve(files[file.path])),
+				},
+				app: {
+					metadataCache: {
+						getFirstLinkpathDest: vi.fn().mockImplementation((linkPath: string) => tfiles.get(`${linkPath}.md`) ?? null),
+						getFileCache: vi.fn().mockReturnValue({ blocks }),
+					},
+				},
+			};
+		}
+
+		function parse(text: string | undefined): Record<string, unknown> {
+			return JSON.parse(text ?? "{}") as Record<string, unknown>;
+		}
+
+		it("inlines notes, headings and blocks", async () => {
+			const context = createContext(
+				{
+					"Host.md": "Start\n![[Other#Details]]\n![[Quotes#^q1]]\nEnd",
+					"Other.md": "# Intro\nSkip\n## Details\nSee [[Quotes]]\n# Next\nSkip too",
+					"Quotes.md": "Para one ^q1\n\nPara two",
+				},
+				{ q1: { id: "q1", position: { start: { line: 0 }, end: { line: 0 } } } },
+			);
+
+			const result = await readNoteTool.handler({ path: "Host", expand_embeds: true }, context);
+			const payload = parse(result.content[0]?.text);
+			expect(payload.content).toBe("Start\n## Details\nSee [Quotes](Quotes.md)\nPara one ^q1\nEnd");
+			expect(payload.transclusion).toEqual({ expanded: 2, skipped: [] });
+		});
+
+		it("stops at cycles and at the depth limit", async () => {
+			const context = createContext({
+				"A.md": "A says ![[B]]",
+				"B.md": "B says ![[A]] and ![[C]]",
+				"C.md": "C says ![[D]]",
+				"D.md": "D",
+			});
+
+			const result = await readNoteTool.handler({ path: "A", expand_embeds: true, embed_depth: 2 }, context);
+			const payload = parse(result.content[0]?.text);
+			expect(payload.content).toBe("A says B says ![A](A.md) and C says ![D](D.md)");
+			expect(payload.transclusion).toEqual({
+				expanded: 2,
+				skipped: [{ link: "A", reason: "cycle" }, { link: "D", reason: "depth" }],
+			});
+		});
+
+		it("stops inlining once the character budget is spent", async () => {
+			const context = createContext({
+				"A.md": "![[B]] ![[B]] ![[B]]",
+				"B.md": "0123456789",
+			});
+
+			const expansion = await expandEmbeds("![[B]] ![[B]] ![[B]]", "A.md", context, 3, 25);
+			expect(expansion).toEqual({
+				text: "0123456789 0123456789 ![[B]]",
+				expanded: 2,
+				skipped: [{ link: "B", reason: "size" }],
+			});
+		});
+	});
 });
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { periodicNoteTool } from "../../mcp/tools/builtin/periodic-note";
+
+function createContext(options: { dailyNotes?: Record<string, unknown>; periodicNotes?: Record<string, unknown>; files?: Record<string, string> }): any {
+	const context = createVaultContext(options.files);
+	context.app.internalPlugins = {
+		getPluginById: vi.fn().mockImplementation((id: string) =>
+			id === "daily-notes" && options.dailyNotes ? { enabled: true, instance: { options: options.dailyNotes } } : null,
+		),
+	};
+	context.app.plugins = {
+		getPlugin: vi.fn().mockImplementation((id: string) =>
+			id === "periodic-notes" && options.periodicNotes ? { settings: options.periodicNotes } : undefined,
+		),
+	};
+	return context;
+}
+
+describe("periodic_note tool", () => {
+	it("resolves an existing daily note from the Daily Notes settings", async () => {
+		const context = createContext({
+			dailyNotes: { folder: "Journal", format: "YYYY-MM-DD" },
+			files: { "Journal/2024-03-05.md": "Notes" },
+		});
+		const result = await periodicNoteTool.handler({ date: "2024-03-05" }, context);
+		expect(parse(result.content[0]?.text)).toEqual({
+			period: "daily",
+			date: "2024-03-05",
+			path: "Journal/2024-03-05.md",
+			settings_source: "daily-notes",
+			format: "YYYY-MM-DD",
+			template: null,
+			status: "existing",
+		});
+	});
+
+	it("reports a missing note without creating it", async () => {
+		const context = createContext({});
+		const result = await periodicNoteTool.handler({ date: "2024-03-05", offset: -1 }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({ path: "2024-03-04.md", settings_source: "default", status: "missing" });
+		expect(context.vault.create).not.toHaveBeenCalled();
+	});
+
+	it("creates a weekly note from the Periodic Notes template and folder", async () => {
+		const context = createContext({
+			periodicNotes: { weekly: { enabled: true, folder: "Weekly", format: "gggg-[W]ww", template: "Templates/Week" } },
+			files: { "Templates/Week.md": "# {{title}}\nStarts {{date:YYYY-MM-DD}}\n" },
+		});
+		const result = await periodicNoteTool.handler({ period: "weekly", date: "2024-03-06", create: true }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({
+			path: "Weekly/2024-W10.md",
+			date: "2024-03-03",
+			settings_source: "periodic-notes",
+			status: "created",
+		});
+		expect(context.vault.createFolder).toHaveBeenCalledWith("Weekly");
+		expect(context.vault.create).toHaveBeenCalledWith("Weekly/2024-W10.md", "# 2024-W10\nStarts 2024-03-03\n");
+	});
+
+	it("fails when the configured template is missing", async () => {
+		const context = createContext({ dailyNotes: { template: "Templates/Daily" } });
+		const result = await periodicNoteTool.handler({ date: "2024-03-05", create: true }, context);
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe('Error: Template not found at path "Templates/Daily.md"');
+	});
+});
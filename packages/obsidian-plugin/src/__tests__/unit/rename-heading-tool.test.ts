@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { buildOutline } from "../../mcp/tools/builtin/note-outline";
+import { renameHeadingTool } from "../../mcp/tools/builtin/rename-heading";
+
+/**
+ * Builds links and embeds the way the metadata cache indexes them, with offsets into the content.
+ */
+function indexReferences(content: string) {
+	const links: unknown[] = [];
+	const embeds: unknown[] = [];
+	const pattern = /(!?)\[\[([^\]]+?)\]\]|(!?)\[[^\]]*\]\(([^)\s]+)\)/g;
+	for (const match of content.matchAll(pattern)) {
+		const start = match.index;
+		const end = start + match[0].length;
+		const link = match[2] !== undefined ? match[2].split(/\\?\|/)[0]! : decodeURIComponent(match[4]!);
+		const line = content.slice(0, start).split("\n").length - 1;
+		const entry = { link, original: match[0], position: { start: { line, col: 0, offset: start }, end: { line, col: 0, offset: end } } };
+		(match[1] || match[3] ? embeds : links).push(entry);
+	}
+	const frontmatter = content.match(/^---\n[\s\S]*?\n---\n/);
+	return {
+		links,
+		embeds,
+		...(frontmatter ? { frontmatterPosition: { start: { line: 0 }, end: { line: frontmatter[0].split("\n").length - 2 } } } : {}),
+	};
+}
+
+function createContext(notes: Record<string, string>): any {
+	const context = createVaultContext(notes);
+	const files: Map<string, TFile> = context.files;
+	const resolvedLinks: Record<string, Record<string, number>> = {};
+	for (const [path, content] of Object.entries(notes)) {
+		for (const target of files.keys()) {
+			const name = target.replace(/\.md$/, "");
+			if (target !== path && (content.includes(`[[${name}`) || content.includes(`](${name}.md`))) {
+				resolvedLinks[path] = { ...resolvedLinks[path], [target]: 1 };
+			}
+		}
+	}
+	context.app.metadataCache = {
+		getFileCache: vi.fn().mockImplementation((file: TFile) => indexReferences(notes[file.path] ?? "")),
+		getFirstLinkpathDest: vi.fn().mockImplementation((linkPath: string) => files.get(linkPath.endsWith(".md") ? linkPath : `${linkPath}.md`) ?? null),
+		resolvedLinks,
+	};
+	return context;
+}
+
+const NOTES = {
+	"Guide.md": '---\n{"title":"Guide"}\n---\n# Guide\n\n## Setup Steps ##\nSee [[#Setup Steps]].\n\n## Usage\n',
+	"Notes/A.md": "Read [[Guide#setup steps|how to set up]] and ![[Guide#Setup Steps]].\nAlso [[Guide#Usage]] and [[Guide]].\n",
+	"Notes/B.md": "| Link |\n| --- |\n| [[Guide#Setup Steps\\|setup]] |\n\n[md](Guide.md#Setup%20Steps)\n",
+	"Notes/C.md": "Nothing about [[Notes/A]].\n",
+};
+
+describe("rename_heading tool", () => {
+	it("renames the heading and rewrites anchored links vault-wide", async () => {
+		const context = createContext(NOTES);
+		const result = await renameHeadingTool.handler({ path: "Guide", heading: "Setup Steps", new_heading: "Installation" }, context);
+		const payload = parse(result.content[0]?.text);
+
+		expect(result.isError).toBeUndefined();
+		expect(payload).toMatchObject({ ok: true, changed: true, heading: "Setup Steps", new_heading: "Installation", level: 2, line: 3, links_updated: 5 });
+		expect(payload.files.map((file: { path: string }) => file.path)).toEqual(["Guide.md", "Notes/A.md", "Notes/B.md"]);
+		expect(payload.files[0]).toMatchObject({ heading_renamed: true, links: [{ line: 4, before: "[[#Setup Steps]]", after: "[[#Installation]]" }] });
+		expect(payload.files[1].links).toEqual([
+			{ line: 1, before: "[[Guide#setup steps|how to set up]]", after: "[[Guide#Installation|how to set up]]" },
+			{ line: 1, before: "![[Guide#Setup Steps]]", after: "![[Guide#Installation]]" },
+		]);
+		expect(payload.skipped).toBeUndefined();
+
+		expect(context.contents.get("Guide.md")).toBe('---\n{"title":"Guide"}\n---\n# Guide\n\n## Installation ##\nSee [[#Installation]].\n\n## Usage\n');
+		expect(context.contents.get("Notes/A.md")).toBe(
+			"Read [[Guide#Installation|how to set up]] and ![[Guide#Installation]].\nAlso [[Guide#Usage]] and [[Guide]].\n",
+		);
+		expect(context.contents.get("Notes/B.md")).toBe(
+			"| Link |\n| --- |\n| [[Guide#Installation\\|setup]] |\n\n[md](Guide.md#Installation)\n",
+		);
+		expect(context.contents.get("Notes/C.md")).toBe(NOTES["Notes/C.md"]);
+	});
+
+	it("reports the changes without writing on dry_run", async () => {
+		const context = createContext(NOTES);
+		const result = await renameHeadingTool.handler({ path: "Guide", heading: "Setup Steps", new_heading: "First Run", dry_run: true }, context);
+		const payload = parse(result.content[0]?.text);
+
+		expect(payload).toMatchObject({ ok: true, dry_run: true, links_updated: 5 });
+		expect(payload.files[2].links).toEqual([
+			{ line: 3, before: "[[Guide#Setup Steps\\|setup]]", after: "[[Guide#First Run\\|setup]]" },
+			{ line: 5, before: "[md](Guide.md#Setup%20Steps)", after: "[md](Guide.md#First%20Run)" },
+		]);
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("rejects unlinkable names and clashes with another heading", async () => {
+		const invalid = await renameHeadingTool.handler({ path: "Guide", heading: "Usage", new_heading: "Use | Abuse" }, createContext(NOTES));
+		expect(invalid.isError).toBe(true);
+		expect(invalid.content[0]?.text).toContain("new_heading must be a single line");
+
+		const clash = await renameHeadingTool.handler({ path: "Guide", heading: "Usage", new_heading: "setup steps" }, createContext(NOTES));
+		expect(clash.isError).toBe(true);
+		expect(clash.content[0]?.text).toBe('Error: The note already has a heading "Setup Steps" (line 3); links to it would become ambiguous.');
+
+		const missing = await renameHeadingTool.handler({ path: "Guide", heading: "Nope", new_heading: "Other" }, createContext(NOTES));
+		expect(missing.content[0]?.text).toBe('Error: Section "Nope" not found.');
+	});
+
+	it("only rewrites links that resolve to the selected heading when its name is duplicated", async () => {
+		const notes = {
+			"Log.md": "# Monday\n## Notes\n# Tuesday\n## Notes\n",
+			"Ref.md": "[[Log#Notes]] and [[Log#Tuesday#Notes]] and [[Log#Monday#Notes]]\n",
+		};
+		const context = createContext(notes);
+		const ambiguous = await renameHeadingTool.handler({ path: "Log", heading: "Notes", new_heading: "Retro" }, context);
+		expect(ambiguous.content[0]?.text).toBe('Error: 2 headings match "Notes" (lines 2, 4). Specify level or id.');
+
+		const id = buildOutline(notes["Log.md"], { includeFrontmatter: false, includeCodeblocks: false })[3]!.id;
+		const result = await renameHeadingTool.handler({ path: "Log", id, new_heading: "Retro" }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({ ok: true, line: 4, links_updated: 1 });
+		expect(context.contents.get("Log.md")).toBe("# Monday\n## Notes\n# Tuesday\n## Retro\n");
+		expect(context.contents.get("Ref.md")).toBe("[[Log#Notes]] and [[Log#Tuesday#Retro]] and [[Log#Monday#Notes]]\n");
+	});
+});
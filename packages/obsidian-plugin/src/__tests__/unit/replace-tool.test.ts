@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { replaceInVaultTool } from "../../mcp/tools/builtin/replace";
+
+function createContext(notes: Record<string, string>, tags: Record<string, string[]> = {}): any {
+	const context = createVaultContext(notes);
+	context.app.metadataCache = {
+		getFileCache: vi.fn().mockImplementation((file: TFile) => ({
+			tags: (tags[file.path] ?? []).map((tag) => ({ tag })),
+		})),
+	};
+	return context;
+}
+
+const NOTES = {
+	"Projects/A.md": '---\n{"client":"Acme"}\n---\nAcme ships `Acme` today.\n\n```\nAcme.run()\n```\n',
+	"Projects/B.md": "Nothing here.\n",
+	"Archive/C.md": "Acme was here.\n",
+};
+
+describe("replace_in_vault tool", () => {
+	it("previews diffs and versions without writing", async () => {
+		const context = createContext(NOTES);
+		const result = await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex" }, context);
+		const payload = parse(result.content[0]?.text);
+
+		expect(result.isError).toBeUndefined();
+		expect(context.vault.modify).not.toHaveBeenCalled();
+		expect(payload).toMatchObject({ ok: true, applied: false, matched_files: 2, replacements: 5 });
+		expect(payload.files.map((file: { path: string }) => file.path)).toEqual(["Archive/C.md", "Projects/A.md"]);
+		expect(payload.files[0].diff).toContain("+Globex was here.");
+		expect(Object.keys(payload.expected_versions as object)).toEqual(["Archive/C.md", "Projects/A.md"]);
+	});
+
+	it("skips code and frontmatter and scopes by folder", async () => {
+		const context = createContext(NOTES);
+		const result = await replaceInVaultTool.handler({
+			pattern: "Acme",
+			replacement: "Globex",
+			folder: "Projects",
+			skip_code: true,
+			skip_frontmatter: true,
+			apply: true,
+		}, context);
+
+		expect(parse(result.content[0]?.text)).toMatchObject({
+			ok: true,
+			applied: true,
+			replacements: 1,
+			files: [{ path: "Projects/A.md", replacements: 1, skipped_matches: 3 }],
+		});
+		expect(context.contents.get("Projects/A.md")).toBe(
+			'---\n{"client":"Acme"}\n---\nGlobex ships `Acme` today.\n\n```\nAcme.run()\n```\n',
+		);
+		expect(context.contents.get("Archive/C.md")).toBe("Acme was here.\n");
+	});
+
+	it("expands capture groups in regex mode and filters by glob and tag", async () => {
+		const context = createContext({
+			"Log/2024-01-05.md": "Met on 05/01/2024 and 06/01/2024.\n",
+			"Log/draft.md": "Met on 07/01/2024.\n",
+			"Other/x.md": "08/01/2024\n",
+		}, { "Log/2024-01-05.md": ["#log"], "Other/x.md": ["#log"] });
+		await replaceInVaultTool.handler({
+			pattern: "(?<day>\\d{2})/(\\d{2})/(\\d{4})",
+			replacement: "$3-$2-$<day>",
+			regex: true,
+			include: ["Log/**"],
+			tag: "#log",
+			apply: true,
+		}, context);
+
+		expect(context.contents.get("Log/2024-01-05.md")).toBe("Met on 2024-01-05 and 2024-01-06.\n");
+		expect(context.contents.get("Log/draft.md")).toBe("Met on 07/01/2024.\n");
+		expect(context.contents.get("Other/x.md")).toBe("08/01/2024\n");
+	});
+
+	it("treats literal replacements literally", async () => {
+		const context = createContext({ "a.md": "price: 10\n" });
+		await replaceInVaultTool.handler({ pattern: "10", replacement: "$1 & $&", apply: true }, context);
+		expect(context.contents.get("a.md")).toBe("price: $1 & $&\n");
+	});
+
+	it("refuses to apply when a note changed since the preview", async () => {
+		const context = createContext(NOTES);
+		const preview = parse((await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex" }, context)).content[0]?.text);
+		context.contents.set("Archive/C.md", "Acme was here. Edited.\n");
+
+		const result = await replaceInVaultTool.handler(
+			{ pattern: "Acme", replacement: "Globex", apply: true, expected_versions: preview.expected_versions },
+			context,
+		);
+		const payload = parse(result.content[0]?.text);
+
+		expect(result.isError).toBe(true);
+		expect(payload.applied).toBe(false);
+		expect(payload.files[0]).toMatchObject({ path: "Archive/C.md", status: "error" });
+		expect(payload.files[0].error).toContain("changed since the preview");
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("pages the preview and applies with the versions of all pages", async () => {
+		const context = createContext(NOTES);
+		const first = parse((await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex", limit: 1 }, context)).content[0]?.text);
+		expect(first).toMatchObject({ matched_files: 2, truncated: true, next_cursor: "1" });
+		expect(Object.keys(first.expected_versions as object)).toEqual(["Archive/C.md"]);
+
+		const second = parse((await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex", limit: 1, cursor: first.next_cursor }, context)).content[0]?.text);
+		expect(second).toMatchObject({ truncated: false });
+		expect(second.next_cursor).toBeUndefined();
+		expect(Object.keys(second.expected_versions as object)).toEqual(["Projects/A.md"]);
+
+		const applied = parse((await replaceInVaultTool.handler({
+			pattern: "Acme",
+			replacement: "Globex",
+			apply: true,
+			expected_versions: { ...first.expected_versions, ...second.expected_versions },
+		}, context)).content[0]?.text);
+		expect(applied).toMatchObject({ ok: true, applied: true });
+		expect(applied.files[0]).not.toHaveProperty("diff");
+
+		const badCursor = await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex", cursor: "x" }, context);
+		expect(badCursor.content[0]?.text).toBe("Error: cursor is invalid.");
+	});
+
+	it("leaves fenced code alone in CRLF notes", async () => {
+		const context = createContext({ "a.md": "Acme here.\r\n\r\n```\r\nAcme.run()\r\n```\r\nAnd `Acme` inline.\r\n" });
+		const result = await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex", skip_code: true, apply: true }, context);
+		expect(parse(result.content[0]?.text).files[0]).toMatchObject({ replacements: 1, skipped_matches: 2 });
+		expect(context.contents.get("a.md")).toBe("Globex here.\r\n\r\n```\r\nAcme.run()\r\n```\r\nAnd `Acme` inline.\r\n");
+	});
+
+	it("rejects invalid and empty-matching patterns", async () => {
+		const context = createContext(NOTES);
+		const invalid = await replaceInVaultTool.handler({ pattern: "(", replacement: "", regex: true }, context);
+		expect(invalid.content[0]?.text).toContain("Invalid regular expression");
+
+		const empty = await replaceInVaultTool.handler({ pattern: "x*", replacement: "y", regex: true }, context);
+		expect(empty.content[0]?.text).toBe("Error: pattern must not match an empty string.");
+
+		const glob = await replaceInVaultTool.handler({ pattern: "Acme", replacement: "Globex", include: ["Projects/{a,b"] }, context);
+		expect(glob.isError).toBe(true);
+		expect(glob.content[0]?.text).toBe('Error: Glob "Projects/{a,b" has an unclosed "{".');
+	});
+});
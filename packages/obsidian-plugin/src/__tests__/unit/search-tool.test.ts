@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { searchNotesTool } from "../../mcp/tools/builtin/search";
+import type { MCPToolResult } from "../../mcp/tools/types";
+
+function createTFile(path: string, basename: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename });
+	return file;
+}
+
+function createContext(notes: Record<string, string>, caches: Record<string, unknown> = {}): any {
+	const files = Object.keys(notes).map((path) =>
+		createTFile(path, path.split("/").pop()!.replace(/\.md$/, "")),
+	);
+	return {
+		vault: {
+			getMarkdownFiles: vi.fn().mockReturnValue(files),
+			cachedRead: vi.fn().mockImplementation(async (file: TFile) => notes[file.path] ?? ""),
+		},
+		app: {
+			metadataCache: {
+				getFileCache: vi.fn().mockImplementation((file: TFile) => caches[file.path] ?? null),
+			},
+		},
+	} as any;
+}
+
+function resultPaths(result: MCPToolResult): string[] {
+	const payload = JSON.parse(result.content[0]?.text ?? "{}") as { results: Array<{ path: string }> };
+	return payload.results.map((entry) => entry.path);
+}
+
+describe("search_notes tool", () => {
+	it("ranks notes and returns hits with body line numbers and heading context", async () => {
+		const context = createContext({
+			"Notes/A.md": "---\ntitle: A\n---\n# Intro\nalpha beta\n## Details\nbeta only\nalpha beta again",
+			"Notes/B.md": "# Other\nalpha\nno match",
+			"Notes/C.md": "nothing here",
+		});
+
+		const result = await searchNotesTool.handler({ query: "alpha beta" }, context);
+		expect(result.isError).toBeUndefined();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.total).toBe(1);
+		expect(payload.results[0].path).toBe("Notes/A.md");
+		expect(payload.results[0].hits).toEqual([
+			{ line: 2, heading: "Intro", snippet: "alpha beta" },
+			{ line: 4, heading: "Details", snippet: "beta only" },
+			{ line: 5, heading: "Details", snippet: "alpha beta again" },
+		]);
+		expect(payload.next_cursor).toBeUndefined();
+	});
+
+	it("supports phrase and regex modes", async () => {
+		const context = createContext({
+			"A.md": "the quick  brown fox",
+			"B.md": "quick red brown fox",
+		});
+
+		const phrase = await searchNotesTool.handler({ query: "quick brown", mode: "phrase" }, context);
+		expect(resultPaths(phrase)).toEqual(["A.md"]);
+
+		const regex = await searchNotesTool.handler({ query: "quick (red|blue)", mode: "regex" }, context);
+		expect(resultPaths(regex)).toEqual(["B.md"]);
+
+		const invalid = await searchNotesTool.handler({ query: "(", mode: "regex" }, context);
+		expect(invalid.isError).toBe(true);
+	});
+
+	it("filters by folder, tag and frontmatter", async () => {
+		const context = createContext(
+			{
+				"Work/A.md": "todo item",
+				"Work/B.md": "todo item",
+				"Work/C.md": "todo item",
+				"Home/D.md": "todo item",
+			},
+			{
+				"Work/A.md": { frontmatter: { status: "open", tags: ["project/alpha"] } },
+				"Work/B.md": { frontmatter: { status: "done", tags: ["project"] } },
+				"Work/C.md": { frontmatter: { status: "open" } },
+				"Home/D.md": { frontmatter: { status: "open", tags: ["project"] } },
+			},
+		);
+
+		const result = await searchNotesTool.handler(
+			{ query: "todo", folder: "Work", tags: ["#project"], frontmatter: { status: "open" } },
+			context,
+		);
+		expect(resultPaths(result)).toEqual(["Work/A.md"]);
+	});
+
+	it("paginates results with a cursor", async () => {
+		const context = createContext({
+			"A.md": "match",
+			"B.md": "match",
+			"C.md": "match",
+		});
+
+		const first = await searchNotesTool.handler({ query: "match", limit: 2 }, context);
+		const firstPayload = JSON.parse(first.content[0]?.text ?? "{}");
+		expect(resultPaths(first)).toEqual(["A.md", "B.md"]);
+		expect(firstPayload.next_cursor).toBe("2");
+
+		const second = await searchNotesTool.handler({ query: "match", limit: 2, cursor: firstPayload.next_cursor }, context);
+		expect(resultPaths(second)).toEqual(["C.md"]);
+		expect(JSON.parse(second.content[0]?.text ?? "{}").next_cursor).toBeUndefined();
+	});
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { editSectionTool } from "../../mcp/tools/builtin/section-edit";
+import { buildOutline } from "../../mcp/tools/builtin/note-outline";
+
+const NOTE = "---\ntitle: Doc\n---\n# A\nintro\n\n## B\nb text\n\n# C\nc text";
+
+function createTFile(path: string, basename: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename });
+	return file;
+}
+
+function createContext(content: string): any {
+	const noteFile = createTFile("Notes/Doc.md", "Doc");
+	return {
+		vault: {
+			getAbstractFileByPath: vi.fn().mockReturnValue(noteFile),
+			read: vi.fn().mockResolvedValue(content),
+			modify: vi.fn().mockResolvedValue(undefined),
+		},
+	};
+}
+
+describe("edit_section tool", () => {
+	it("appends to a section's own content before its subsections", async () => {
+		const context = createContext(NOTE);
+		const result = await editSectionTool.handler(
+			{ path: "Notes/Doc", heading: "A", operation: "append", content: "more", include_subsections: false },
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		expect(context.vault.modify).toHaveBeenCalledWith(
+			expect.anything(),
+			"---\ntitle: Doc\n---\n# A\nintro\nmore\n\n## B\nb text\n\n# C\nc text",
+		);
+	});
+
+	it("replaces a section addressed by outline id", async () => {
+		const context = createContext(NOTE);
+		const id = buildOutline(NOTE, { includeFrontmatter: false, includeCodeblocks: false })
+			.find((item) => item.heading === "B")!.id;
+
+		const result = await editSectionTool.handler(
+			{ path: "Notes/Doc", id, operation: "replace", content: "new b\n" },
+			context,
+		);
+		expect(result.isError).toBeUndefined();
+		expect(context.vault.modify).toHaveBeenCalledWith(
+			expect.anything(),
+			"---\ntitle: Doc\n---\n# A\nintro\n\n## B\nnew b\n\n# C\nc text",
+		);
+	});
+
+	it("inserts after and deletes whole sections", async () => {
+		const insertContext = createContext(NOTE);
+		await editSectionTool.handler(
+			{ path: "Notes/Doc", heading: "A", level: 1, operation: "insert_after", content: "# Between" },
+			insertContext,
+		);
+		expect(insertContext.vault.modify).toHaveBeenCalledWith(
+			expect.anything(),
+			"---\ntitle: Doc\n---\n# A\nintro\n\n## B\nb text\n\n# Between\n# C\nc text",
+		);
+
+		const deleteContext = createContext(NOTE);
+		await editSectionTool.handler({ path: "Notes/Doc", heading: "A", operation: "delete" }, deleteContext);
+		expect(deleteContext.vault.modify).toHaveBeenCalledWith(expect.anything(), "---\ntitle: Doc\n---\n# C\nc text");
+	});
+
+	it("rejects ambiguous headings", async () => {
+		const context = createContext("# Same\na\n## Same\nb");
+		const result = await editSectionTool.handler(
+			{ path: "Notes/Doc", heading: "Same", operation: "append", content: "x" },
+			context,
+		);
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toContain("Specify level or id");
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+});
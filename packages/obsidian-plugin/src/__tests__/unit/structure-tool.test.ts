@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { calloutsTool, listItemsTool } from "../../mcp/tools/builtin/structure";
+
+describe("callouts tool", () => {
+	const NOTE = [
+		"# Notes",
+		"",
+		"> [!warning]- Careful",
+		"> First line",
+		">",
+		"> - item",
+		"",
+		"> Plain quote",
+		"",
+		"> [!tip]",
+		"> Short",
+		"",
+	].join("\n");
+
+	it("lists callouts with type, title, fold state and content", async () => {
+		const result = await calloutsTool.handler({ path: "Note" }, createVaultContext({ "Note.md": NOTE }));
+		expect(parse(result.content[0]?.text).callouts).toEqual([
+			{ index: 0, type: "warning", title: "Careful", fold: "collapsed", content: "First line\n\n- item", heading: "Notes", start_line: 3, end_line: 6 },
+			{ index: 1, type: "tip", title: "", fold: "none", content: "Short", heading: "Notes", start_line: 10, end_line: 11 },
+		]);
+	});
+
+	it("updates a callout in place", async () => {
+		const context = createVaultContext({ "Note.md": NOTE });
+		const result = await calloutsTool.handler(
+			{ action: "update", path: "Note", index: 0, type: "danger", fold: "expanded", content: "Replaced\n\nSecond" },
+			context,
+		);
+		expect(parse(result.content[0]?.text)).toMatchObject({ ok: true, changed: true, type: "danger", title: "Careful", fold: "expanded" });
+		expect(context.contents.get("Note.md")).toBe([
+			"# Notes",
+			"",
+			"> [!danger]+ Careful",
+			"> Replaced",
+			">",
+			"> Second",
+			"",
+			"> Plain quote",
+			"",
+			"> [!tip]",
+			"> Short",
+			"",
+		].join("\n"));
+
+		const missing = await calloutsTool.handler({ action: "update", path: "Note", index: 4, title: "x" }, context);
+		expect(missing.content[0]?.text).toBe("Error: Callout 4 not found (2 callouts).");
+	});
+});
+
+describe("list_items tool", () => {
+	const NOTE = [
+		"---",
+		'{"a":1}',
+		"---",
+		"- one",
+		"  - one.a",
+		"- two",
+		"- three",
+		"  - three.a",
+		"",
+		"1. first",
+		"2. second",
+	].join("\n");
+
+	it("lists items with depth and parent lines", async () => {
+		const result = await listItemsTool.handler({ path: "Note" }, createVaultContext({ "Note.md": NOTE }));
+		const items = parse(result.content[0]?.text).items as Array<Record<string, unknown>>;
+		expect(items.map((item) => [item.line, item.depth, item.text, item.parent_line])).toEqual([
+			[1, 0, "one", null],
+			[2, 1, "one.a", 1],
+			[3, 0, "two", null],
+			[4, 0, "three", null],
+			[5, 1, "three.a", 4],
+			[7, 0, "first", null],
+			[8, 0, "second", null],
+		]);
+	});
+
+	it("indents and outdents items with their children", async () => {
+		const context = createVaultContext({ "Note.md": NOTE });
+		await listItemsTool.handler({ action: "indent", path: "Note", line: 4 }, context);
+		expect(context.contents.get("Note.md")).toContain("- two\n  - three\n    - three.a\n");
+
+		await listItemsTool.handler({ action: "outdent", path: "Note", line: 2 }, context);
+		expect(context.contents.get("Note.md")).toContain("- one\n- one.a\n- two\n");
+
+		const top = await listItemsTool.handler({ action: "outdent", path: "Note", line: 1 }, context);
+		expect(top.content[0]?.text).toBe("Error: Top-level list items cannot be outdented.");
+	});
+
+	it("moves items among siblings and keeps ordered numbering", async () => {
+		const context = createVaultContext({ "Note.md": NOTE });
+		const result = await listItemsTool.handler({ action: "move", path: "Note", line: 1, direction: "down" }, context);
+		expect(parse(result.content[0]?.text).line).toBe(2);
+		expect(context.contents.get("Note.md")).toContain("---\n- two\n- one\n  - one.a\n- three\n");
+
+		await listItemsTool.handler({ action: "move", path: "Note", line: 8, direction: "up" }, context);
+		expect(context.contents.get("Note.md")).toContain("1. second\n2. first");
+	});
+
+	it("inserts child items", async () => {
+		const context = createVaultContext({ "Note.md": NOTE });
+		await listItemsTool.handler({ action: "insert_child", path: "Note", line: 3, text: "[ ] two.a" }, context);
+		await listItemsTool.handler({ action: "insert_child", path: "Note", line: 1, text: "one.0", position: "first" }, context);
+		expect(context.contents.get("Note.md")).toContain("- one\n  - one.0\n  - one.a\n- two\n  - [ ] two.a\n- three\n");
+
+		const notItem = await listItemsTool.handler({ action: "indent", path: "Note", line: 11 }, context);
+		expect(notItem.content[0]?.text).toBe('Error: line 11 of "Note.md" is not a list item.');
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { tablesTool } from "../../mcp/tools/builtin/tables";
+
+const NOTE = [
+	"---",
+	'{"type":"data"}',
+	"---",
+	"# Inventory",
+	"",
+	"| Item | Qty |",
+	"|:-|-:|",
+	"| Apple | 3 |",
+	"| Pear \\| green | 10 |",
+	"",
+	"## Prices",
+	"",
+	"| Item | Price |",
+	"| --- | --- |",
+	"| Apple | 1.20 |",
+	"",
+].join("\n");
+
+describe("tables tool", () => {
+	it("lists tables with headings and reads one as JSON", async () => {
+		const context = createVaultContext({ "Data.md": NOTE });
+		const list = parse((await tablesTool.handler({ path: "Data" }, context)).content[0]?.text);
+		expect(list.tables).toEqual([
+			{ index: 0, heading: "Inventory", line: 3, columns: ["Item", "Qty"], row_count: 2 },
+			{ index: 1, heading: "Prices", line: 10, columns: ["Item", "Price"], row_count: 1 },
+		]);
+
+		const read = parse((await tablesTool.handler({ action: "read", path: "Data", heading: "Prices" }, context)).content[0]?.text);
+		expect(read).toMatchObject({ index: 1, header: ["Item", "Price"], rows: [["Apple", "1.20"]], align: [null, null] });
+
+		const unescaped = parse((await tablesTool.handler({ action: "read", path: "Data" }, context)).content[0]?.text);
+		expect(unescaped.rows[1]).toEqual(["Pear | green", "10"]);
+	});
+
+	it("inserts and updates rows and rewrites the table aligned", async () => {
+		const context = createVaultContext({ "Data.md": NOTE });
+		await tablesTool.handler({ action: "insert_row", path: "Data", row: 0, values: ["Banana", 12] }, context);
+		const result = await tablesTool.handler({ action: "update_row", path: "Data", row: 1, cells: { Qty: 4 } }, context);
+
+		expect(parse(result.content[0]?.text)).toMatchObject({ ok: true, changed: true, rows: [["Banana", "12"], ["Apple", "4"], ["Pear | green", "10"]] });
+		expect(context.contents.get("Data.md")).toContain([
+			"| Item          | Qty |",
+			"| :------------ | --: |",
+			"| Banana        |  12 |",
+			"| Apple         |   4 |",
+			"| Pear \\| green |  10 |",
+		].join("\n"));
+		expect(context.contents.get("Data.md")).toContain("## Prices\n\n| Item | Price |\n| --- | --- |\n| Apple | 1.20 |\n");
+	});
+
+	it("adds and removes columns", async () => {
+		const context = createVaultContext({ "Data.md": NOTE });
+		await tablesTool.handler(
+			{ action: "add_column", path: "Data", table: 1, column: "Unit", position: 1, align: "center", values: ["kg"] },
+			context,
+		);
+		await tablesTool.handler({ action: "remove_column", path: "Data", table: 1, column: "Price" }, context);
+		expect(context.contents.get("Data.md")).toContain("| Item  | Unit |\n| ----- | :--: |\n| Apple |  kg  |\n");
+	});
+
+	it("deletes rows and reports invalid selections", async () => {
+		const context = createVaultContext({ "Data.md": NOTE });
+		await tablesTool.handler({ action: "delete_row", path: "Data", row: 0 }, context);
+		expect(context.contents.get("Data.md")).not.toContain("Apple | 3");
+
+		const missingTable = await tablesTool.handler({ action: "read", path: "Data", table: 5 }, context);
+		expect(missingTable.content[0]?.text).toBe('Error: Table 5 not found in "Data.md" (2 tables).');
+
+		const badColumn = await tablesTool.handler({ action: "update_row", path: "Data", row: 0, cells: { Color: "red" } }, context);
+		expect(badColumn.content[0]?.text).toBe('Error: Column "Color" not found. Columns: Item, Qty.');
+
+		const badRow = await tablesTool.handler({ action: "delete_row", path: "Data", row: 3 }, context);
+		expect(badRow.content[0]?.text).toBe("Error: row must be an integer between 0 and 0.");
+	});
+
+	it("edits tables in CRLF notes and pads wide characters by display width", async () => {
+		const context = createVaultContext({ "Menu.md": "# Menu\r\n\r\n| Dish | Qty |\r\n| --- | --- |\r\n| Ramen | 1 |\r\n\r\nAfter" });
+		const result = await tablesTool.handler({ action: "insert_row", path: "Menu", values: ["寿司 🍣", 2] }, context);
+
+		expect(parse(result.content[0]?.text)).toMatchObject({ ok: true, rows: [["Ramen", "1"], ["寿司 🍣", "2"]] });
+		expect(context.contents.get("Menu.md")).toBe([
+			"# Menu",
+			"",
+			"| Dish    | Qty |",
+			"| ------- | --- |",
+			"| Ramen   | 1   |",
+			"| 寿司 🍣 | 2   |",
+			"",
+			"After",
+		].join("\r\n"));
+	});
+});
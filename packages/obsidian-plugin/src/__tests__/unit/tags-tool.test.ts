@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { tagsTool } from "../../mcp/tools/builtin/tags";
+
+/**
+ * Frontmatter is written as JSON because the obsidian mock parses YAML with JSON.parse.
+ */
+function createContext(notes: Record<string, string>, caches: Record<string, unknown>): any {
+	const context = createVaultContext(notes);
+	context.app.metadataCache = {
+		getFileCache: vi.fn().mockImplementation((file: TFile) => caches[file.path] ?? null),
+	};
+	return context;
+}
+
+function inlineTags(...tags: string[]) {
+	return { tags: tags.map((tag) => ({ tag })) };
+}
+
+const NOTES = {
+	"A.md": "---\n{\"tags\":[\"project/alpha\",\"active\"]}\n---\nBody #review",
+	"B.md": "Plain #project and `#project` in code",
+	"C.md": "---\n{\"tags\":[\"archived\"]}\n---\nOld #project/beta",
+};
+
+const CACHES = {
+	"A.md": { frontmatter: { tags: ["project/alpha", "active"] }, ...inlineTags("#review") },
+	"B.md": inlineTags("#project"),
+	"C.md": { frontmatter: { tags: ["archived"] }, ...inlineTags("#project/beta") },
+};
+
+describe("tags tool", () => {
+	it("lists tags with nested counts", async () => {
+		const result = await tagsTool.handler({ action: "list", prefix: "project" }, createContext(NOTES, CACHES));
+		expect(parse(result.content[0]?.text).tags).toEqual([
+			{ tag: "project", count: 3, direct: 1 },
+			{ tag: "project/alpha", count: 1, direct: 1 },
+			{ tag: "project/beta", count: 1, direct: 1 },
+		]);
+	});
+
+	it("finds notes by boolean expression", async () => {
+		const context = createContext(NOTES, CACHES);
+		const result = await tagsTool.handler(
+			{ action: "find", expression: "#project AND (#active OR #review) AND NOT #archived" },
+			context,
+		);
+		expect(parse(result.content[0]?.text).notes.map((note: { path: string }) => note.path)).toEqual(["A.md"]);
+
+		const implicit = await tagsTool.handler({ action: "find", expression: "project -archived" }, context);
+		expect(parse(implicit.content[0]?.text).total).toBe(2);
+
+		const invalid = await tagsTool.handler({ action: "find", expression: "(project" }, context);
+		expect(invalid.isError).toBe(true);
+		expect(invalid.content[0]?.text).toBe("Error: Invalid tag expression: Missing closing parenthesis.");
+	});
+
+	it("renames a tag and its children in frontmatter and inline text", async () => {
+		const context = createContext(NOTES, CACHES);
+		const result = await tagsTool.handler({ action: "rename", from: "#project", to: "work" }, context);
+		const payload = parse(result.content[0]?.text);
+		expect(payload.total_files).toBe(3);
+		expect(context.contents.get("A.md")).toBe("---\n{\"tags\":[\"work/alpha\",\"active\"]}\n---\nBody #review");
+		expect(context.contents.get("B.md")).toBe("Plain #work and `#project` in code");
+		expect(context.contents.get("C.md")).toContain("Old #work/beta");
+	});
+
+	it("previews bulk add without writing", async () => {
+		const context = createContext(NOTES, CACHES);
+		const result = await tagsTool.handler({ action: "add", tags: ["active"], paths: ["A", "B"], dry_run: true }, context);
+		const payload = parse(result.content[0]?.text);
+		expect(payload.files).toHaveLength(1);
+		expect(payload.files[0].path).toBe("B.md");
+		expect(payload.files[0].diff).toContain("+{\"tags\":[\"active\"]}");
+		expect(context.vault.modify).not.toHaveBeenCalled();
+	});
+
+	it("removes tags from frontmatter and inline text", async () => {
+		const context = createContext(NOTES, CACHES);
+		await tagsTool.handler({ action: "remove", tags: ["review", "active"], expression: "project" }, context);
+		expect(context.contents.get("A.md")).toBe("---\n{\"tags\":[\"project/alpha\"]}\n---\nBody");
+		expect(context.vault.modify).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { createVaultContext, parse } from "../mocks/tool-context";
+import { tasksTool } from "../../mcp/tools/builtin/tasks";
+
+const NOTE = [
+	"---",
+	"title: Plan",
+	"---",
+	"# Today",
+	"- [ ] Write report 📅 2024-03-01",
+	"    - [x] Collect numbers [due:: 2024-02-20]",
+	"# Later",
+	"- [/] Review budget",
+	"- Not a task",
+	"",
+].join("\n");
+
+function createContext(): any {
+	const context = createVaultContext({ "Projects/Plan.md": NOTE });
+	context.app.metadataCache = {
+		getFileCache: vi.fn().mockReturnValue({
+			frontmatterPosition: { start: { line: 0 }, end: { line: 2 } },
+			headings: [
+				{ heading: "Today", level: 1, position: { start: { line: 3 } } },
+				{ heading: "Later", level: 1, position: { start: { line: 6 } } },
+			],
+			listItems: [
+				{ task: " ", parent: -4, position: { start: { line: 4 } } },
+				{ task: "x", parent: 4, position: { start: { line: 5 } } },
+				{ task: "/", parent: -7, position: { start: { line: 7 } } },
+				{ parent: -7, position: { start: { line: 8 } } },
+			],
+		}),
+	};
+	return context;
+}
+
+describe("tasks tool", () => {
+	it("lists tasks with status, due date and heading", async () => {
+		const result = await tasksTool.handler({}, createContext());
+		expect(parse(result.content[0]?.text).tasks).toEqual([
+			{ path: "Projects/Plan.md", line: 2, status: " ", text: "Write report 📅 2024-03-01", due: "2024-03-01", heading: "Today" },
+			{ path: "Projects/Plan.md", line: 3, status: "x", text: "Collect numbers [due:: 2024-02-20]", due: "2024-02-20", heading: "Today" },
+			{ path: "Projects/Plan.md", line: 5, status: "/", text: "Review budget", due: null, heading: "Later" },
+		]);
+	});
+
+	it("filters by status, due date, text and heading", async () => {
+		const context = createContext();
+		const lines = async (args: Record<string, unknown>): Promise<number[]> =>
+			(parse((await tasksTool.handler(args, context)).content[0]?.text).tasks as Array<{ line: number }>).map((task) => task.line);
+
+		expect(await lines({ status: [" ", "/"] })).toEqual([2, 5]);
+		expect(await lines({ due_before: "2024-02-28" })).toEqual([3]);
+		expect(await lines({ due_after: "2024-02-21", has_due: true })).toEqual([2]);
+		expect(await lines({ has_due: false })).toEqual([5]);
+		expect(await lines({ text: "REPORT" })).toEqual([2]);
+		expect(await lines({ heading: "later" })).toEqual([5]);
+	});
+
+	it("toggles a task and keeps its indentation", async () => {
+		const context = createContext();
+		const result = await tasksTool.handler({ action: "toggle", path: "Projects/Plan", line: 3 }, context);
+		expect(parse(result.content[0]?.text)).toMatchObject({
+			changed: true,
+			before: "    - [x] Collect numbers [due:: 2024-02-20]",
+			after: "    - [ ] Collect numbers [due:: 2024-02-20]",
+		});
+		expect(context.vault.modify).toHaveBeenCalledWith(
+			expect.anything(),
+			NOTE.replace("    - [x] Collect", "    - [ ] Collect"),
+		);
+	});
+
+	it("updates status, text and due date in the existing notation", async () => {
+		const context = createContext();
+		const dataview = await tasksTool.handler({ action: "update", path: "Projects/Plan", line: 3, new_due: "2024-04-01" }, context);
+		expect(parse(dataview.content[0]?.text).after).toBe("    - [x] Collect numbers [due:: 2024-04-01]");
+
+		const added = await tasksTool.handler(
+			{ action: "update", path: "Projects/Plan", line: 5, new_status: "x", new_text: "Approve budget", new_due: "2024-05-02" },
+			context,
+		);
+		expect(parse(added.content[0]?.text).after).toBe("- [x] Approve budget 📅 2024-05-02");
+
+		const cleared = await tasksTool.handler({ action: "update", path: "Projects/Plan", line: 2, new_due: "" }, context);
+		expect(parse(cleared.content[0]?.text)).toMatchObject({ after: "- [ ] Write report", due: null });
+	});
+
+	it("lists and toggles tasks in callouts and on CRLF lines", async () => {
+		const context = createVaultContext({ "Inbox.md": "> [!todo] Next\r\n> - [ ] Call Ana\r\n- [x] Sent invoice\r\n" });
+		context.app.metadataCache = {
+			getFileCache: vi.fn().mockReturnValue({
+				listItems: [
+					{ task: " ", parent: -1, position: { start: { line: 1 } } },
+					{ task: "x", parent: -2, position: { start: { line: 2 } } },
+				],
+			}),
+		};
+
+		const listed = await tasksTool.handler({}, context);
+		expect(parse(listed.content[0]?.text).tasks.map((task: { text: string }) => task.text)).toEqual(["Call Ana", "Sent invoice"]);
+
+		const toggled = await tasksTool.handler({ action: "toggle", path: "Inbox", line: 2 }, context);
+		expect(parse(toggled.content[0]?.text)).toMatchObject({ before: "> - [ ] Call Ana", after: "> - [x] Call Ana" });
+		expect(context.contents.get("Inbox.md")).toBe("> [!todo] Next\r\n> - [x] Call Ana\r\n- [x] Sent invoice\r\n");
+	});
+
+	it("rejects lines that are not tasks", async () => {
+		const result = await tasksTool.handler({ action: "toggle", path: "Projects/Plan", line: 6 }, createContext());
+		expect(result.isError).toBe(true);
+		expect(result.content[0]?.text).toBe('Error: line 6 of "Projects/Plan.md" is not a task.');
+	});
+});
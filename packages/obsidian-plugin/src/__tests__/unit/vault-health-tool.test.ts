@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile } from "obsidian";
+import { vaultHealthTool } from "../../mcp/tools/builtin/vault-health";
+
+function createTFile(path: string): TFile {
+	const file = new TFile();
+	Object.assign(file, { path, basename: path.replace(/^.*\//, "").replace(/\.md$/, "") });
+	return file;
+}
+
+function reference(link: string, line: number, offset: number) {
+	return { link, original: `[[${link}]]`, position: { start: { line, col: 0, offset }, end: { line, col: 0, offset } } };
+}
+
+function createContext(): any {
+	const files: Record<string, TFile> = {
+		"A.md": createTFile("A.md"),
+		"B.md": createTFile("B.md"),
+		"Empty.md": createTFile("Empty.md"),
+		"projects/B.md": createTFile("projects/B.md"),
+		"projects/Broken.md": createTFile("projects/Broken.md"),
+	};
+	const contents: Record<string, string> = {
+		"A.md": "---\n{\"title\": \"A\"}\n---\nSee [[B]] and [[Missing#Part]]\n![[gone.png]] [docs](Nowhere.md) [[#Local]]",
+		"B.md": "# B\nBack to [[A]]",
+		"Empty.md": "---\n{\"tags\": [\"x\"]}\n---\n\n",
+		"projects/B.md": "Other B",
+		"projects/Broken.md": "---\n[\"just\", \"a list\"]\n---\nBody",
+	};
+	const caches: Record<string, unknown> = {
+		"A.md": {
+			frontmatterPosition: { start: { line: 0 }, end: { line: 2 } },
+			links: [reference("B", 3, 20), reference("Missing#Part", 3, 30), reference("Nowhere.md", 4, 50), reference("#Local", 4, 70)],
+			embeds: [reference("gone.png", 4, 40)],
+		},
+		"B.md": { links: [reference("A", 1, 12)] },
+	};
+
+	return {
+		vault: {
+			getMarkdownFiles: vi.fn().mockImplementation(() => Object.values(files)),
+			cachedRead: vi.fn().mockImplementation(async (file: TFile) => contents[file.path] ?? ""),
+		},
+		app: {
+			metadataCache: {
+				getFileCache: vi.fn().mockImplementation((file: TFile) => caches[file.path] ?? null),
+				getFirstLinkpathDest: vi.fn().mockImplementation((linkPath: string) => files[linkPath.endsWith(".md") ? linkPath : `${linkPath}.md`] ?? null),
+				resolvedLinks: {
+					"A.md": { "B.md": 1, "A.md": 1 },
+					"B.md": { "A.md": 1 },
+					"Empty.md": { "Empty.md": 1 },
+				},
+			},
+		},
+	};
+}
+
+describe("vault_health tool", () => {
+	it("reports every check as a flat list of issues", async () => {
+		const result = await vaultHealthTool.handler({}, createContext());
+		expect(result.isError).toBeUndefined();
+
+		const payload = JSON.parse(result.content[0]?.text ?? "{}");
+		expect(payload.notes_checked).toBe(5);
+		expect(payload.summary).toEqual({
+			unresolved_links: 3,
+			orphans: 3,
+			empty_notes: 1,
+			duplicate_names: 1,
+			invalid_frontmatter: 1,
+		});
+		expect(payload.issues).toEqual([
+			{ check: "unresolved_links", path: "A.md", link: "Missing#Part", kind: "link", line: 1, text: "See [[B]] and [[Missing#Part]]" },
+			{ check: "unresolved_links", path: "A.md", link: "gone.png", kind: "embed", line: 2, text: "![[gone.png]] [docs](Nowhere.md) [[#Local]]" },
+			{ check: "unresolved_links", path: "A.md", link: "Nowhere.md", kind: "link", line: 2, text: "![[gone.png]] [docs](Nowhere.md) [[#Local]]" },
+			{ check: "orphans", path: "Empty.md" },
+			{ check: "orphans", path: "projects/B.md" },
+			{ check: "orphans", path: "projects/Broken.md" },
+			{ check: "empty_notes", path: "Empty.md", has_frontmatter: true },
+			{ check: "duplicate_names", path: "B.md", name: "B", paths: ["B.md", "projects/B.md"], resolves_to: "B.md" },
+			{ check: "invalid_frontmatter", path: "projects/Broken.md", error: "Frontmatter must be a YAML mapping." },
+		]);
+		expect(payload.next_cursor).toBeUndefined();
+	});
+
+	it("limits checks and folder and paginates with a cursor", async () => {
+		const context = createContext();
+		const first = await vaultHealthTool.handler({ checks: ["orphans", "duplicate_names"], folder: "projects", limit: 2 }, context);
+		const firstPayload = JSON.parse(first.content[0]?.text ?? "{}");
+		expect(firstPayload.summary).toEqual({ orphans: 2, duplicate_names: 1 });
+		expect(firstPayload.total).toBe(3);
+		expect(firstPayload.issues.map((issue: { path: string }) => issue.path)).toEqual(["projects/B.md", "projects/Broken.md"]);
+		expect(firstPayload.next_cursor).toBe("2");
+
+		const second = await vaultHealthTool.handler({ checks: ["orphans", "duplicate_names"], folder: "projects", limit: 2, cursor: firstPayload.next_cursor }, context);
+		const secondPayload = JSON.parse(second.content[0]?.text ?? "{}");
+		expect(secondPayload.issues).toEqual([
+			{ check: "duplicate_names", path: "B.md", name: "B", paths: ["B.md", "projects/B.md"], resolves_to: "B.md" },
+		]);
+		expect(secondPayload.next_cursor).toBeUndefined();
+	});
+
+	it("rejects unknown checks and invalid cursors", async () => {
+		const badCheck = await vaultHealthTool.handler({ checks: ["typos"] }, createContext());
+		expect(badCheck.isError).toBe(true);
+		expect(badCheck.content[0]?.text).toContain("checks must be a non-empty array");
+
+		const badCursor = await vaultHealthTool.handler({ cursor: "abc" }, createContext());
+		expect(badCursor.isError).toBe(true);
+		expect(badCursor.content[0]?.text).toBe("Error: cursor is invalid.");
+	});
+});
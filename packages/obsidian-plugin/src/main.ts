@@ -6,12 +6,14 @@ import {
 } from "./settings";
 import { ToolingManager } from "./plugin/tooling-manager";
 import { BridgeController } from "./plugin/bridge-controller";
+import { EditJournal, EditJournalEntry } from "./plugin/edit-journal";
 
 export default class MCPPlugin extends Plugin {
 	settings: MCPPluginSettings;
 	private settingsStore: SettingsStore;
 	private toolingManager: ToolingManager;
 	private bridgeController: BridgeController;
+	private editJournal: EditJournal;
 
 	async onload() {
 		if (!Platform.isDesktopApp) {
@@ -27,6 +29,13 @@ export default class MCPPlugin extends Plugin {
 		await this.settingsStore.load();
 		this.settings = this.settingsStore.getSettings() as MCPPluginSettings;
 
+		// Initialize the journal of writes made through the bridge
+		this.editJournal = new EditJournal({
+			load: async () => await this.loadEditJournal(),
+			save: async (entries) => await this.saveEditJournal(entries),
+		});
+		await this.editJournal.load();
+
 		// Calculate example source path for ExampleManager
 		const exampleSourcePath = this.getExampleSourcePath();
 
@@ -52,6 +61,7 @@ export default class MCPPlugin extends Plugin {
 				mcpApiKeys: [...this.settings.mcpApiKeys],
 			},
 			this.toolingManager.registry,
+			this.editJournal,
 		);
 		await this.bridgeController.startIfEnabled();
 
@@ -68,6 +78,7 @@ export default class MCPPlugin extends Plugin {
 				this.bridgeController,
 				this.toolingManager,
 				this.toolingManager.getExampleManager(),
+				this.editJournal,
 			),
 		);
 
@@ -89,6 +100,15 @@ export default class MCPPlugin extends Plugin {
 			},
 		});
 
+		// Add command to undo the last write made through the bridge
+		this.addCommand({
+			id: "undo-last-bridge-edit",
+			name: "Undo last edit made through the bridge",
+			callback: () => {
+				void this.undoLastBridgeEdit();
+			},
+		});
+
 		console.debug(
 			`[Bridge] Plugin loaded. Tools registered: ${this.toolingManager.registry.size}`,
 		);
@@ -110,6 +130,36 @@ export default class MCPPlugin extends Plugin {
 		}
 	}
 
+	private async undoLastBridgeEdit(): Promise<void> {
+		const entry = this.editJournal.getLastRevertible();
+		if (!entry) {
+			new Notice("No bridge edits to undo");
+			return;
+		}
+		const result = await this.editJournal.revert(entry.id, { vault: this.app.vault, app: this.app });
+		new Notice(result.ok ? `Reverted ${entry.action} of "${entry.path}"` : result.error);
+	}
+
+	/**
+	 * Path of the edit journal file inside the plugin folder.
+	 * Kept out of data.json so journal writes never race with settings saves.
+	 */
+	private getEditJournalPath(): string {
+		return `${this.app.vault.configDir}/plugins/${this.manifest.id}/edit-journal.json`;
+	}
+
+	private async loadEditJournal(): Promise<EditJournalEntry[] | null> {
+		const path = this.getEditJournalPath();
+		if (!(await this.app.vault.adapter.exists(path))) {
+			return null;
+		}
+		return JSON.parse(await this.app.vault.adapter.read(path)) as EditJournalEntry[];
+	}
+
+	private async saveEditJournal(entries: EditJournalEntry[]): Promise<void> {
+		await this.app.vault.adapter.write(this.getEditJournalPath(), JSON.stringify(entries));
+	}
+
 	/**
 	 * Calculate the path to the example script source file.
 	 * Returns the full path or empty string if unavailable.
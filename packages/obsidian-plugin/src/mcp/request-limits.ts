@@ -0,0 +1,11 @@
+/**
+ * Largest request body the HTTP server accepts, for both the MCP endpoint and the v1 API.
+ */
+export const MAX_REQUEST_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Size budget, in characters, for the JSON a paginated tool returns in one response.
+ * Responses are not capped by the server or the stdio bridge, so tools that can produce
+ * large results end the page early once this is reached and hand back a cursor instead.
+ */
+export const MAX_TOOL_RESPONSE_CHARS = 512 * 1024;
@@ -10,9 +10,11 @@ import {
 	createParseErrorResponse,
 	createInvalidRequestResponse,
 } from "./mcp-api";
+import { getApiKeyId } from "./utils/api-key";
+import { MAX_REQUEST_BODY_BYTES } from "./request-limits";
 
 export class BridgeServer {
-	private static readonly MAX_BODY_BYTES = 1024 * 1024;
+	private static readonly MAX_BODY_BYTES = MAX_REQUEST_BODY_BYTES;
 	private httpServer: ServerType | null = null;
 	private sockets = new Set<Socket>();
 	private readonly executor: ToolExecutor;
@@ -258,12 +260,21 @@ export class BridgeServer {
 
 			const request = parsed;
 
+			// The auth middleware already validated the key; attribute the call to it
+			const apiKey = this.getMcpApiKeyFromHeader(
+				c.req.header("authorization"),
+				c.req.header("x-obsiscripta-api-key"),
+			);
+
 			// Handle the request
 			try {
 				const response = await handleMCPRequest(
 					request,
 					this.executor.getRegistry(),
-					this.executor.getContext()
+					{
+						...this.executor.getContext(),
+						caller: { keyId: apiKey ? getApiKeyId(apiKey) : null },
+					}
 				);
 
 				// For Phase 1, we return application/json (no SSE streaming)
@@ -0,0 +1,360 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, normalizePath, TFile, TFolder } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { MAX_REQUEST_BODY_BYTES } from "../../request-limits";
+import { recordEdit } from "../helpers/journal-helper";
+
+interface ImageData {
+	data: ArrayBuffer;
+	mimeType: string;
+	width: number;
+	height: number;
+}
+
+/** Base64 grows the file by a third in the response */
+const DEFAULT_READ_MAX_BYTES = 1024 * 1024;
+const READ_MAX_BYTES_LIMIT = 50 * 1024 * 1024;
+/**
+ * The base64 payload must fit in one request body along with the JSON-RPC envelope,
+ * so larger files are rejected by the HTTP server before they reach the tool.
+ */
+const REQUEST_ENVELOPE_BYTES = 16 * 1024;
+const WRITE_MAX_BYTES_LIMIT = Math.floor(((MAX_REQUEST_BODY_BYTES - REQUEST_ENVELOPE_BYTES) / 4) * 3);
+
+const MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	bmp: "image/bmp",
+	avif: "image/avif",
+	svg: "image/svg+xml",
+	pdf: "application/pdf",
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	ogg: "audio/ogg",
+	m4a: "audio/mp4",
+	mp4: "video/mp4",
+	webm: "video/webm",
+	md: "text/markdown",
+	txt: "text/plain",
+	csv: "text/csv",
+	json: "application/json",
+	canvas: "application/json",
+};
+
+/** Raster formats the browser can decode and re-encode when downscaling */
+const RESIZABLE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/bmp"];
+
+function getMimeType(extension: string): string {
+	return MIME_TYPES[extension.toLowerCase()] ?? "application/octet-stream";
+}
+
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+function parseMaxBytes(value: unknown, defaultBytes: number, limit: number): number | null {
+	const maxBytes = typeof value === "number" ? value : defaultBytes;
+	return Number.isInteger(maxBytes) && maxBytes >= 1 && maxBytes <= limit ? maxBytes : null;
+}
+
+/**
+ * Scales an image so its longer side is at most maxDimension, using the renderer's
+ * image decoding. PNG stays PNG; other formats are re-encoded as JPEG.
+ * Returns null when the environment cannot decode images.
+ */
+async function downscaleImage(data: ArrayBuffer, mimeType: string, maxDimension: number): Promise<ImageData | null> {
+	if (typeof createImageBitmap !== "function" || typeof OffscreenCanvas === "undefined") {
+		return null;
+	}
+	const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }));
+	try {
+		const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+		if (scale === 1) {
+			return { data, mimeType, width: bitmap.width, height: bitmap.height };
+		}
+		const width = Math.max(1, Math.round(bitmap.width * scale));
+		const height = Math.max(1, Math.round(bitmap.height * scale));
+		const canvas = new OffscreenCanvas(width, height);
+		const canvasContext = canvas.getContext("2d");
+		if (!canvasContext) {
+			return null;
+		}
+		canvasContext.drawImage(bitmap, 0, 0, width, height);
+		const outputType = mimeType === "image/png" ? "image/png" : "image/jpeg";
+		const blob = await canvas.convertToBlob({ type: outputType, quality: 0.85 });
+		return { data: await blob.arrayBuffer(), mimeType: outputType, width, height };
+	} finally {
+		bitmap.close();
+	}
+}
+
+/**
+ * Built-in tool: read_attachment
+ * Returns images as image content and other files as embedded resources
+ */
+export const readAttachmentTool: MCPToolDefinition = {
+	name: "read_attachment",
+	description:
+		"Read a binary file from the vault, such as an image or PDF. Images are returned as image content (base64 with MIME type); other files as an embedded resource. The first content block is a JSON summary. Use max_dimension to downscale large PNG, JPEG, WebP or BMP images.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path of the file including its extension (e.g., 'attachments/diagram.png').",
+			},
+			max_bytes: {
+				type: "number",
+				description: `Refuse files larger than this after downscaling. Default: ${DEFAULT_READ_MAX_BYTES} (1 MB), maximum: ${READ_MAX_BYTES_LIMIT}.`,
+				default: DEFAULT_READ_MAX_BYTES,
+			},
+			max_dimension: {
+				type: "number",
+				description: "For raster images: scale down so the longer side is at most this many pixels.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const maxBytes = parseMaxBytes(args.max_bytes, DEFAULT_READ_MAX_BYTES, READ_MAX_BYTES_LIMIT);
+		const maxDimension = typeof args.max_dimension === "number" ? args.max_dimension : undefined;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (maxBytes === null) {
+			return {
+				content: [{ type: "text", text: `Error: max_bytes must be an integer between 1 and ${READ_MAX_BYTES_LIMIT}.` }],
+				isError: true,
+			};
+		}
+
+		if (maxDimension !== undefined && (!Number.isInteger(maxDimension) || maxDimension < 1)) {
+			return {
+				content: [{ type: "text", text: "Error: max_dimension must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: File not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a file` }],
+				isError: true,
+			};
+		}
+
+		const mimeType = getMimeType(file.extension);
+		const isImage = mimeType.startsWith("image/");
+		const canResize = RESIZABLE_TYPES.includes(mimeType);
+
+		if (maxDimension !== undefined && !canResize) {
+			return {
+				content: [{ type: "text", text: `Error: max_dimension is only supported for PNG, JPEG, WebP and BMP images, not ${mimeType}.` }],
+				isError: true,
+			};
+		}
+
+		if (file.stat.size > maxBytes && maxDimension === undefined) {
+			return {
+				content: [{
+					type: "text",
+					text: `Error: "${normalizedPath}" is ${file.stat.size} bytes, over the ${maxBytes} byte limit.${canResize ? " Pass max_dimension to downscale it." : ""}`,
+				}],
+				isError: true,
+			};
+		}
+
+		try {
+			let data = await context.vault.readBinary(file);
+			let outputType = mimeType;
+			let dimensions: { width: number; height: number } | null = null;
+
+			if (maxDimension !== undefined) {
+				const scaled = await downscaleImage(data, mimeType, maxDimension);
+				if (!scaled) {
+					return {
+						content: [{ type: "text", text: "Error: Image downscaling is not available in this environment." }],
+						isError: true,
+					};
+				}
+				data = scaled.data;
+				outputType = scaled.mimeType;
+				dimensions = { width: scaled.width, height: scaled.height };
+			}
+
+			if (data.byteLength > maxBytes) {
+				return {
+					content: [{
+						type: "text",
+						text: `Error: "${normalizedPath}" is still ${data.byteLength} bytes after downscaling, over the ${maxBytes} byte limit. Use a smaller max_dimension.`,
+					}],
+					isError: true,
+				};
+			}
+
+			const base64 = arrayBufferToBase64(data);
+			const summary = {
+				path: normalizedPath,
+				mime_type: outputType,
+				size: data.byteLength,
+				original_size: file.stat.size,
+				...(dimensions ? { width: dimensions.width, height: dimensions.height } : {}),
+			};
+
+			return {
+				content: [
+					{ type: "text", text: JSON.stringify(summary, null, 2) },
+					isImage
+						? { type: "image", data: base64, mimeType: outputType }
+						: {
+							type: "resource",
+							resource: {
+								uri: `obsidian://open?vault=${encodeURIComponent(context.vault.getName())}&file=${encodeURIComponent(normalizedPath)}`,
+								mimeType: outputType,
+								blob: base64,
+							},
+						},
+				],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error reading attachment: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Built-in tool: write_attachment
+ * Saves base64 data into the configured attachment folder
+ */
+export const writeAttachmentTool: MCPToolDefinition = {
+	name: "write_attachment",
+	description:
+		"Save a base64-encoded file (e.g. an image) as an attachment. The location follows Obsidian's attachment folder setting, relative to the note it is for; the name gets a numeric suffix if taken. Files are limited to about 750 KB because the base64 data must fit in one request. Returns the path and an embed link to paste into the note.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			filename: {
+				type: "string",
+				description: "File name including extension, e.g. 'diagram.png'. Must not contain folders.",
+			},
+			data: {
+				type: "string",
+				description: "Base64-encoded file content. A data: URL prefix is accepted.",
+			},
+			note: {
+				type: "string",
+				description: "Path of the note the attachment belongs to. Used to resolve relative attachment folders and the embed link.",
+			},
+			max_bytes: {
+				type: "number",
+				description: `Refuse payloads larger than this. Default and maximum: ${WRITE_MAX_BYTES_LIMIT} bytes, the largest file whose base64 data fits in one request.`,
+				default: WRITE_MAX_BYTES_LIMIT,
+			},
+		},
+		required: ["filename", "data"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const filename = typeof args.filename === "string" ? args.filename.trim() : "";
+		const data = typeof args.data === "string" ? args.data.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "") : "";
+		const note = typeof args.note === "string" && args.note.trim().length > 0 ? normalizeNotePath(args.note) : "";
+		const maxBytes = parseMaxBytes(args.max_bytes, WRITE_MAX_BYTES_LIMIT, WRITE_MAX_BYTES_LIMIT);
+
+		if (!filename || /[\\/]/.test(filename) || !/\.[A-Za-z0-9]+$/.test(filename)) {
+			return {
+				content: [{ type: "text", text: "Error: filename is required, must include an extension and must not contain folders." }],
+				isError: true,
+			};
+		}
+
+		if (!data || data.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+			return {
+				content: [{ type: "text", text: "Error: data must be a non-empty base64 string." }],
+				isError: true,
+			};
+		}
+
+		if (maxBytes === null) {
+			return {
+				content: [{ type: "text", text: `Error: max_bytes must be an integer between 1 and ${WRITE_MAX_BYTES_LIMIT}.` }],
+				isError: true,
+			};
+		}
+
+		const size = (data.length / 4) * 3 - (data.match(/=+$/)?.[0].length ?? 0);
+		if (size > maxBytes) {
+			return {
+				content: [{ type: "text", text: `Error: Attachment is ${size} bytes, over the ${maxBytes} byte limit.` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const path = await context.app.fileManager.getAvailablePathForAttachment(filename, note);
+			const parentPath = getParentPath(path);
+			if (parentPath && !(context.vault.getAbstractFileByPath(parentPath) instanceof TFolder)) {
+				await context.vault.createFolder(parentPath);
+			}
+			const file = await context.vault.createBinary(path, base64ToArrayBuffer(data));
+			// The journal keeps text snapshots only; a binary create can still be undone by trashing the file
+			await recordEdit(context, {
+				tool: "write_attachment",
+				action: "create",
+				path: file.path,
+				before: null,
+				after: null,
+				binary: true,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: file.path,
+						size,
+						mime_type: getMimeType(file.extension),
+						embed: `!${context.app.fileManager.generateMarkdownLink(file, note)}`,
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error writing attachment: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in attachment tools
+ */
+export function getBuiltinAttachmentTools(): MCPToolDefinition[] {
+	return [readAttachmentTool, writeAttachmentTool];
+}
@@ -0,0 +1,341 @@
+import { CachedMetadata, TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import {
+	buildLineOffsets,
+	findLineIndex,
+	mergeFrontmatter,
+	parseMarkdown,
+	splitFrontmatter,
+} from "../helpers/markdown-helper";
+import { findCodeBlocks } from "../helpers/code-block-helper";
+import { findListItems } from "../helpers/list-helper";
+import { getBodyLineOffset, normalizeNotePath } from "../helpers/vault-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type BlockRefAction = "list" | "get" | "create";
+
+interface BlockAnchor {
+	id: string;
+	start_line: number;
+	end_line: number;
+	text: string;
+	link: string;
+}
+
+const BLOCK_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const ANCHORABLE_BLOCKS = ["paragraph", "list", "blockquote"];
+const BLOCK_LABELS: Record<string, string> = {
+	heading: "a heading",
+	code: "a code block",
+	table: "a table",
+	hr: "a horizontal rule",
+	html: "an HTML block",
+};
+const TRAILING_BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+function buildBlockLink(file: TFile, id: string): string {
+	return `[[${file.basename}#^${id}]]`;
+}
+
+function collectAnchors(file: TFile, cache: CachedMetadata | null, bodyLines: string[]): BlockAnchor[] {
+	const lineOffset = getBodyLineOffset(cache);
+	return Object.values(cache?.blocks ?? {})
+		.map((block) => {
+			const startIndex = block.position.start.line - lineOffset;
+			const endIndex = block.position.end.line - lineOffset;
+			return {
+				id: block.id,
+				start_line: startIndex + 1,
+				end_line: endIndex + 1,
+				text: bodyLines.slice(startIndex, endIndex + 1).join("\n"),
+				link: buildBlockLink(file, block.id),
+			};
+		})
+		.sort((a, b) => a.start_line - b.start_line);
+}
+
+/**
+ * Returns the zero-based body line that carries the id of the block containing the line:
+ * the last line of a paragraph or blockquote, or the last own line of a list item
+ * (before its children). Headings, code blocks and tables cannot take a trailing id.
+ */
+function findAnchorLine(body: string, lineIndex: number): number | { error: string } {
+	const line = lineIndex + 1;
+	if (findCodeBlocks(body).some((block) => block.startLine <= lineIndex && lineIndex <= block.endLine)) {
+		return { error: `Error: line ${line} is inside a code block; block ids can only be added to paragraphs, list items and blockquotes.` };
+	}
+
+	const lineOffsets = buildLineOffsets(body);
+	let searchIndex = 0;
+	for (const token of parseMarkdown(body)) {
+		const raw = token.raw.replace(/\n+$/, "");
+		const matchIndex = raw.length === 0 ? -1 : body.indexOf(raw, searchIndex);
+		if (matchIndex === -1) {
+			continue;
+		}
+		searchIndex = matchIndex + raw.length;
+		const startLine = findLineIndex(lineOffsets, matchIndex);
+		const endLine = startLine + raw.split("\n").length - 1;
+		if (lineIndex < startLine || lineIndex > endLine) {
+			continue;
+		}
+
+		if (!ANCHORABLE_BLOCKS.includes(token.type)) {
+			return { error: `Error: line ${line} is part of ${BLOCK_LABELS[token.type] ?? "a block that cannot be anchored"}; block ids can only be added to paragraphs, list items and blockquotes.` };
+		}
+		if (token.type !== "list") {
+			return endLine;
+		}
+
+		// The innermost item wins: items come in document order, so the last match is the deepest
+		const item = findListItems(body)
+			.filter((candidate) => candidate.line <= lineIndex && lineIndex < candidate.endLine)
+			.pop();
+		if (!item) {
+			return endLine;
+		}
+		const lines = body.split("\n");
+		let anchorLine = (item.children[0]?.line ?? item.endLine) - 1;
+		while (anchorLine > item.line && lines[anchorLine]!.trim().length === 0) {
+			anchorLine -= 1;
+		}
+		return anchorLine;
+	}
+
+	return { error: `Error: line ${line} is not part of a paragraph, list item or blockquote.` };
+}
+
+function generateBlockId(existing: Set<string>): string {
+	for (;;) {
+		const id = Math.random().toString(36).slice(2, 8);
+		if (id.length === 6 && !existing.has(id)) {
+			return id;
+		}
+	}
+}
+
+/**
+ * Built-in tool: block_ref
+ * Lists, looks up and creates ^block-id anchors
+ */
+export const blockRefTool: MCPToolDefinition = {
+	name: "block_ref",
+	description:
+		"List, look up or create ^block-id anchors in a note so a paragraph or list item can be cited as [[note#^id]]. create appends an id to the end of the block (paragraph, list item or blockquote) containing the given body line, or returns the id the block already has. Headings, code blocks and tables cannot be anchored.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			action: {
+				type: "string",
+				enum: ["list", "get", "create"],
+				description: "list: all anchors in the note. get: the anchor with id. create: add an anchor to line. Default: list.",
+				default: "list",
+			},
+			id: {
+				type: "string",
+				description: "Block id without the caret. Required for get; optional for create (a random id is generated otherwise).",
+			},
+			line: {
+				type: "number",
+				description: "Body line number (1-based, frontmatter excluded) inside the block to anchor. Required for create.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. create fails with a conflict if the note changed since.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const action = (typeof args.action === "string" ? args.action : "list") as BlockRefAction;
+		const id = typeof args.id === "string" ? args.id.trim().replace(/^\^/, "") : undefined;
+		const line = typeof args.line === "number" ? args.line : undefined;
+		const expectedVersion = args.expected_version;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!["list", "get", "create"].includes(action)) {
+			return {
+				content: [{ type: "text", text: "Error: action must be one of \"list\", \"get\", or \"create\"." }],
+				isError: true,
+			};
+		}
+
+		if (id !== undefined && !BLOCK_ID_PATTERN.test(id)) {
+			return {
+				content: [{ type: "text", text: "Error: id may only contain letters, digits and dashes." }],
+				isError: true,
+			};
+		}
+
+		if (action === "get" && id === undefined) {
+			return {
+				content: [{ type: "text", text: "Error: id is required for action=get." }],
+				isError: true,
+			};
+		}
+
+		if (action === "create" && (line === undefined || !Number.isInteger(line) || line < 1)) {
+			return {
+				content: [{ type: "text", text: "Error: line must be an integer >= 1 for action=create." }],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const content = await context.vault.read(file);
+			const { frontmatter, body } = splitFrontmatter(content);
+			const bodyLines = body.split("\n");
+			const anchors = collectAnchors(file, context.app.metadataCache.getFileCache(file), bodyLines);
+
+			if (action === "list") {
+				return {
+					content: [{ type: "text", text: JSON.stringify({ path: normalizedPath, anchors, version: computeContentVersion(content) }, null, 2) }],
+				};
+			}
+
+			if (action === "get") {
+				const anchor = anchors.find((candidate) => candidate.id.toLowerCase() === id!.toLowerCase());
+				if (!anchor) {
+					return {
+						content: [{ type: "text", text: `Error: Block "^${id}" not found in "${normalizedPath}".` }],
+						isError: true,
+					};
+				}
+				return {
+					content: [{ type: "text", text: JSON.stringify({ path: normalizedPath, ...anchor, version: computeContentVersion(content) }, null, 2) }],
+				};
+			}
+
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, content);
+			if (conflict) {
+				return conflict;
+			}
+
+			const lineIndex = line! - 1;
+			const lineText = bodyLines[lineIndex];
+			if (lineText === undefined) {
+				return {
+					content: [{ type: "text", text: `Error: line ${line} is past the end of the note (${bodyLines.length} lines).` }],
+					isError: true,
+				};
+			}
+			if (lineText.trim().length === 0) {
+				return {
+					content: [{ type: "text", text: `Error: line ${line} is blank; anchor a line with content.` }],
+					isError: true,
+				};
+			}
+
+			const anchorIndex = findAnchorLine(body, lineIndex);
+			if (typeof anchorIndex === "object") {
+				return {
+					content: [{ type: "text", text: anchorIndex.error }],
+					isError: true,
+				};
+			}
+			const anchorText = bodyLines[anchorIndex]!;
+
+			const existingId = anchorText.match(TRAILING_BLOCK_ID_PATTERN)?.[1];
+			if (existingId) {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: normalizedPath,
+							id: existingId,
+							line: anchorIndex + 1,
+							created: false,
+							link: buildBlockLink(file, existingId),
+							version: computeContentVersion(content),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const existingIds = new Set(anchors.map((anchor) => anchor.id.toLowerCase()));
+			if (id !== undefined && existingIds.has(id.toLowerCase())) {
+				return {
+					content: [{ type: "text", text: `Error: Block id "^${id}" is already used in "${normalizedPath}".` }],
+					isError: true,
+				};
+			}
+
+			const blockId = id ?? generateBlockId(existingIds);
+			bodyLines[anchorIndex] = `${anchorText.replace(/\s+$/, "")} ^${blockId}`;
+			const nextContent = mergeFrontmatter(frontmatter, bodyLines.join("\n"));
+			await context.vault.modify(file, nextContent);
+			await recordEdit(context, {
+				tool: "block_ref",
+				action: "modify",
+				path: normalizedPath,
+				before: content,
+				after: nextContent,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						path: normalizedPath,
+						id: blockId,
+						line: anchorIndex + 1,
+						created: true,
+						link: buildBlockLink(file, blockId),
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error handling block reference: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in block reference tools
+ */
+export function getBuiltinBlockRefTools(): MCPToolDefinition[] {
+	return [blockRefTool];
+}
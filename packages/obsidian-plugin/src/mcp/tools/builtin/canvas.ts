@@ -0,0 +1,436 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import {
+	CANVAS_NODE_TYPES,
+	CanvasData,
+	CanvasEdge,
+	CanvasNode,
+	CanvasNodeType,
+	findParentGroup,
+	generateCanvasId,
+	normalizeCanvasPath,
+	parseCanvas,
+	serializeCanvas,
+	validateCanvasChanges,
+} from "../helpers/canvas-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type CanvasOperationName = "add_node" | "update_node" | "remove_node" | "add_edge" | "update_edge" | "remove_edge";
+
+interface CanvasOperationReport {
+	op: CanvasOperationName;
+	id: string;
+	removed_edges?: string[];
+}
+
+const CANVAS_OPERATIONS: CanvasOperationName[] = ["add_node", "update_node", "remove_node", "add_edge", "update_edge", "remove_edge"];
+
+const DEFAULT_NODE_SIZES: Record<CanvasNodeType, { width: number; height: number }> = {
+	text: { width: 250, height: 60 },
+	file: { width: 400, height: 400 },
+	link: { width: 400, height: 400 },
+	group: { width: 600, height: 400 },
+};
+
+/** Gap between existing content and a node added without coordinates */
+const PLACEMENT_GAP = 40;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolves a file node reference to a vault path: an exact path first, then link resolution
+ * relative to the canvas (so "Note" finds "Folder/Note.md").
+ */
+function resolveCanvasFile(file: string, canvasPath: string, context: AppContext): string | null {
+	const exact = context.vault.getAbstractFileByPath(file);
+	if (exact instanceof TFile) {
+		return exact.path;
+	}
+	return context.app.metadataCache.getFirstLinkpathDest(file, canvasPath)?.path ?? null;
+}
+
+/**
+ * Copies changes onto a target; null values remove optional properties.
+ */
+function applyChanges<T extends Record<string, unknown>>(target: T, changes: Record<string, unknown>): T {
+	const next: Record<string, unknown> = { ...target };
+	for (const [key, value] of Object.entries(changes)) {
+		if (value === null) {
+			delete next[key];
+		} else {
+			next[key] = value;
+		}
+	}
+	return next as T;
+}
+
+/**
+ * Places a new node to the right of the existing content, aligned with its top edge.
+ */
+function getDefaultPosition(nodes: CanvasNode[]): { x: number; y: number } {
+	if (nodes.length === 0) {
+		return { x: 0, y: 0 };
+	}
+	const right = Math.max(...nodes.map((node) => node.x + node.width));
+	const top = Math.min(...nodes.map((node) => node.y));
+	return { x: right + PLACEMENT_GAP, y: top };
+}
+
+/**
+ * Applies one operation to the canvas in place. Returns a report or an error message.
+ */
+function applyCanvasOperation(
+	canvas: CanvasData,
+	operation: Record<string, unknown>,
+	canvasPath: string,
+	context: AppContext,
+): CanvasOperationReport | { error: string } {
+	const op = operation.op as CanvasOperationName;
+	const ids = new Set([...canvas.nodes.map((node) => node.id), ...canvas.edges.map((edge) => edge.id)]);
+
+	if (op === "add_node" || op === "add_edge") {
+		const item = op === "add_node" ? operation.node : operation.edge;
+		if (!isPlainObject(item)) {
+			return { error: `${op === "add_node" ? "node" : "edge"} must be an object` };
+		}
+		const id = typeof item.id === "string" && item.id.length > 0 ? item.id : generateCanvasId(ids);
+		if (ids.has(id)) {
+			return { error: `id "${id}" is already used` };
+		}
+		if (op === "add_edge") {
+			canvas.edges.push({ ...item, id } as CanvasEdge);
+			return { op, id };
+		}
+		const type = item.type as CanvasNodeType;
+		if (!CANVAS_NODE_TYPES.includes(type)) {
+			return { error: `type must be one of ${CANVAS_NODE_TYPES.join(", ")}` };
+		}
+		const node = { ...getDefaultPosition(canvas.nodes), ...DEFAULT_NODE_SIZES[type], ...item, id } as CanvasNode;
+		if (type === "file" && typeof node.file === "string") {
+			node.file = resolveCanvasFile(node.file, canvasPath, context) ?? node.file;
+		}
+		canvas.nodes.push(node);
+		return { op, id };
+	}
+
+	const id = typeof operation.id === "string" ? operation.id : "";
+	if (op === "update_node" || op === "update_edge") {
+		const changes = operation.changes;
+		if (!isPlainObject(changes)) {
+			return { error: "changes must be an object" };
+		}
+		if (changes.id !== undefined && changes.id !== id) {
+			return { error: "changes cannot rename an id" };
+		}
+		if (op === "update_node") {
+			const index = canvas.nodes.findIndex((node) => node.id === id);
+			if (index === -1) {
+				return { error: `node "${id}" not found` };
+			}
+			const node = applyChanges(canvas.nodes[index]!, changes);
+			if (node.type === "file" && typeof changes.file === "string") {
+				node.file = resolveCanvasFile(changes.file, canvasPath, context) ?? changes.file;
+			}
+			canvas.nodes[index] = node;
+		} else {
+			const index = canvas.edges.findIndex((edge) => edge.id === id);
+			if (index === -1) {
+				return { error: `edge "${id}" not found` };
+			}
+			canvas.edges[index] = applyChanges(canvas.edges[index]!, changes);
+		}
+		return { op, id };
+	}
+
+	if (op === "remove_node") {
+		if (!canvas.nodes.some((node) => node.id === id)) {
+			return { error: `node "${id}" not found` };
+		}
+		const removedEdges = canvas.edges.filter((edge) => edge.fromNode === id || edge.toNode === id).map((edge) => edge.id);
+		canvas.nodes = canvas.nodes.filter((node) => node.id !== id);
+		canvas.edges = canvas.edges.filter((edge) => !removedEdges.includes(edge.id));
+		return { op, id, removed_edges: removedEdges };
+	}
+
+	if (!canvas.edges.some((edge) => edge.id === id)) {
+		return { error: `edge "${id}" not found` };
+	}
+	canvas.edges = canvas.edges.filter((edge) => edge.id !== id);
+	return { op, id };
+}
+
+/**
+ * Built-in tool: read_canvas
+ * Reads a JSON Canvas file as nodes and edges
+ */
+export const readCanvasTool: MCPToolDefinition = {
+	name: "read_canvas",
+	description:
+		"Read an Obsidian canvas (.canvas, JSON Canvas format) as nodes and edges. File nodes include resolved_path (the vault path of the linked file, or null if it is missing); every node includes parent_group, the smallest group that contains it.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the canvas (e.g., 'boards/plan.canvas' or 'boards/plan'). The .canvas extension is optional.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeCanvasPath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Canvas not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a canvas` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const content = await context.vault.read(file);
+			const parsed = parseCanvas(content);
+			if ("error" in parsed) {
+				return {
+					content: [{ type: "text", text: parsed.error }],
+					isError: true,
+				};
+			}
+			const { canvas } = parsed;
+
+			const nodes = canvas.nodes.map((node) => ({
+				...node,
+				...(node.type === "file" && typeof node.file === "string"
+					? { resolved_path: resolveCanvasFile(node.file, normalizedPath, context) }
+					: {}),
+				parent_group: findParentGroup(node, canvas.nodes),
+			}));
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						path: normalizedPath,
+						nodes,
+						edges: canvas.edges,
+						version: computeContentVersion(content),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error reading canvas: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Built-in tool: edit_canvas
+ * Adds, updates and removes canvas nodes, groups and edges
+ */
+export const editCanvasTool: MCPToolDefinition = {
+	name: "edit_canvas",
+	description:
+		"Edit an Obsidian canvas with a list of operations applied in order: add_node, update_node, remove_node, add_edge, update_edge, remove_edge. Groups are nodes with type \"group\". Added and changed nodes and edges are validated against the JSON Canvas spec (untouched ones, such as plugin node types, are kept as they are), and the canvas is written only if every operation succeeds. Coordinates and sizes are kept unless given; new nodes without coordinates are placed to the right of the existing content. Removing a node also removes its edges.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the canvas. The .canvas extension is optional.",
+			},
+			operations: {
+				type: "array",
+				items: { type: "object" },
+				description:
+					"Operations, e.g. {\"op\":\"add_node\",\"node\":{\"type\":\"text\",\"text\":\"Idea\"}}, {\"op\":\"update_node\",\"id\":\"abc\",\"changes\":{\"color\":\"4\"}}, {\"op\":\"remove_node\",\"id\":\"abc\"}, {\"op\":\"add_edge\",\"edge\":{\"fromNode\":\"a\",\"toNode\":\"b\",\"label\":\"next\"}}. A null value in changes removes that property. Ids are generated when omitted.",
+			},
+			allow_create: {
+				type: "boolean",
+				description: "Create the canvas if it does not exist. Default: false.",
+				default: false,
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by read_canvas. The write fails with a conflict if the canvas changed since.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, validate and report the operations without writing. Default: false.",
+				default: false,
+			},
+		},
+		required: ["path", "operations"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const operations = args.operations;
+		const allowCreate = args.allow_create === true;
+		const expectedVersion = args.expected_version;
+		const dryRun = args.dry_run === true;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!Array.isArray(operations) || operations.length === 0 || !operations.every(isPlainObject)) {
+			return {
+				content: [{ type: "text", text: "Error: operations must be a non-empty array of objects." }],
+				isError: true,
+			};
+		}
+
+		const unknownOperation = operations.findIndex((operation) => !CANVAS_OPERATIONS.includes(operation.op as CanvasOperationName));
+		if (unknownOperation !== -1) {
+			return {
+				content: [{
+					type: "text",
+					text: `Error: operation ${unknownOperation + 1}: op must be one of ${CANVAS_OPERATIONS.map((name) => `"${name}"`).join(", ")}.`,
+				}],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeCanvasPath(path);
+		const abstractFile = context.vault.getAbstractFileByPath(normalizedPath);
+		const file = abstractFile instanceof TFile ? abstractFile : null;
+
+		if (abstractFile && !file) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a canvas` }],
+				isError: true,
+			};
+		}
+
+		if (!file && !allowCreate) {
+			return {
+				content: [{ type: "text", text: `Error: Canvas not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const content = file ? await context.vault.read(file) : "";
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, file ? content : null);
+			if (conflict) {
+				return conflict;
+			}
+
+			const parsed = parseCanvas(content);
+			if ("error" in parsed) {
+				return {
+					content: [{ type: "text", text: parsed.error }],
+					isError: true,
+				};
+			}
+			const { canvas } = parsed;
+			const original = JSON.parse(JSON.stringify(canvas)) as CanvasData;
+
+			const applied: CanvasOperationReport[] = [];
+			for (const [index, operation] of operations.entries()) {
+				const result = applyCanvasOperation(canvas, operation, normalizedPath, context);
+				if ("error" in result) {
+					return {
+						content: [{ type: "text", text: `Error: operation ${index + 1} (${String(operation.op)}): ${result.error}.` }],
+						isError: true,
+					};
+				}
+				applied.push(result);
+			}
+
+			const validationError = validateCanvasChanges(original, canvas);
+			if (validationError) {
+				return {
+					content: [{ type: "text", text: `Error: Invalid canvas after edit: ${validationError}.` }],
+					isError: true,
+				};
+			}
+
+			const nextContent = serializeCanvas(canvas);
+			const report = {
+				path: normalizedPath,
+				dry_run: dryRun,
+				action: file ? "modify" : "create",
+				applied,
+				nodes: canvas.nodes.length,
+				edges: canvas.edges.length,
+			};
+
+			if (dryRun) {
+				return {
+					content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+				};
+			}
+
+			if (file) {
+				await context.vault.modify(file, nextContent);
+			} else {
+				await context.vault.create(normalizedPath, nextContent);
+			}
+			await recordEdit(context, {
+				tool: "edit_canvas",
+				action: file ? "modify" : "create",
+				path: normalizedPath,
+				before: file ? content : null,
+				after: nextContent,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({ ok: true, ...report, version: computeContentVersion(nextContent) }, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error editing canvas: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in canvas tools
+ */
+export function getBuiltinCanvasTools(): MCPToolDefinition[] {
+	return [readCanvasTool, editCanvasTool];
+}
@@ -0,0 +1,278 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { FencedCodeBlock, findCodeBlocks, renderCodeBlock } from "../helpers/code-block-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type CodeBlocksAction = "list" | "read" | "replace";
+
+const CODE_BLOCKS_ACTIONS: CodeBlocksAction[] = ["list", "read", "replace"];
+
+function describeBlock(block: FencedCodeBlock): Record<string, unknown> {
+	return {
+		index: block.index,
+		language: block.language,
+		info: block.info,
+		label: block.label,
+		heading: block.heading,
+		start_line: block.startLine + 1,
+		end_line: block.endLine + 1,
+		...(block.closed ? {} : { closed: false }),
+	};
+}
+
+/**
+ * Picks the block addressed by label, or by index among the blocks of the given language.
+ */
+function selectBlock(
+	blocks: FencedCodeBlock[],
+	label: string | undefined,
+	index: number,
+	language: string | undefined,
+): FencedCodeBlock | { error: string } {
+	if (label !== undefined) {
+		const matches = blocks.filter((block) => block.label === label);
+		if (matches.length === 0) {
+			return { error: `Error: No code block labeled "${label}".` };
+		}
+		if (matches.length > 1) {
+			return { error: `Error: ${matches.length} code blocks are labeled "${label}" (indexes ${matches.map((block) => block.index).join(", ")}). Use index.` };
+		}
+		return matches[0]!;
+	}
+	const candidates = language === undefined ? blocks : blocks.filter((block) => block.language === language);
+	const block = candidates[index];
+	if (!block) {
+		const scope = language === undefined ? "" : ` ${language}`;
+		return { error: `Error: Code block ${index} not found (${candidates.length}${scope} block${candidates.length === 1 ? "" : "s"}).` };
+	}
+	return block;
+}
+
+/**
+ * Built-in tool: code_blocks
+ * Lists, reads and replaces fenced code blocks
+ */
+export const codeBlocksTool: MCPToolDefinition = {
+	name: "code_blocks",
+	description:
+		"Work with fenced code blocks in a note, such as dataview, mermaid or query blocks. list: blocks with language, info string, label, line range and enclosing heading. read: one block's content (without fences). replace: swap a block's content (and optionally its info string), leaving the surrounding text untouched; blocks without a closing fence cannot be replaced. Address a block by index (optionally counted within a language) or by label, the title/label/name attribute of its info string (```js title=\"setup\"). Lines are body line numbers (frontmatter excluded).",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: CODE_BLOCKS_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			index: {
+				type: "number",
+				description: "Zero-based index of the block in the note, or among blocks of language when given. Default: 0.",
+				default: 0,
+			},
+			language: {
+				type: "string",
+				description: "Only consider blocks of this language, e.g. 'dataview'.",
+			},
+			label: {
+				type: "string",
+				description: "Select the block whose info string has this title, label or name attribute.",
+			},
+			content: {
+				type: "string",
+				description: "For replace: the new block content, without fences.",
+			},
+			info: {
+				type: "string",
+				description: "For replace: a new info string (language and attributes). Default: keep the current one.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. replace fails with a conflict if the note changed since.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as CodeBlocksAction;
+		const path = typeof args.path === "string" ? args.path : "";
+		const index = typeof args.index === "number" ? args.index : 0;
+		const language = typeof args.language === "string" && args.language.trim().length > 0 ? args.language.trim() : undefined;
+		const label = typeof args.label === "string" && args.label.length > 0 ? args.label : undefined;
+		const newContent = typeof args.content === "string" ? args.content : undefined;
+		const newInfo = typeof args.info === "string" ? args.info.trim() : undefined;
+		const expectedVersion = args.expected_version;
+
+		if (!CODE_BLOCKS_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${CODE_BLOCKS_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(index) || index < 0) {
+			return {
+				content: [{ type: "text", text: "Error: index must be an integer >= 0." }],
+				isError: true,
+			};
+		}
+
+		if (action === "replace" && newContent === undefined) {
+			return {
+				content: [{ type: "text", text: "Error: content is required for replace." }],
+				isError: true,
+			};
+		}
+
+		if (newInfo !== undefined && /[\r\n`]/.test(newInfo)) {
+			return {
+				content: [{ type: "text", text: "Error: info must be a single line without backticks." }],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const currentContent = await context.vault.read(file);
+			const { frontmatter, body } = splitFrontmatter(currentContent);
+			const blocks = findCodeBlocks(body);
+
+			if (action === "list") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: normalizedPath,
+							blocks: blocks
+								.filter((block) => language === undefined || block.language === language)
+								.map(describeBlock),
+							version: computeContentVersion(currentContent),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const block = selectBlock(blocks, label, index, language);
+			if ("error" in block) {
+				return {
+					content: [{ type: "text", text: block.error }],
+					isError: true,
+				};
+			}
+
+			if (action === "read") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: normalizedPath,
+							...describeBlock(block),
+							content: block.content,
+							version: computeContentVersion(currentContent),
+						}, null, 2),
+					}],
+				};
+			}
+
+			if (!block.closed) {
+				return {
+					content: [{
+						type: "text",
+						text: `Error: Code block ${block.index} has no closing fence, so it runs to the end of the note. Add the closing ${block.fence} before replacing it.`,
+					}],
+					isError: true,
+				};
+			}
+
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, currentContent);
+			if (conflict) {
+				return conflict;
+			}
+
+			const bodyLines = body.split("\n");
+			// Keep CRLF line endings, including a closing fence without one at the end of the note
+			const lineEnding = bodyLines[block.startLine]!.endsWith("\r") ? "\r" : "";
+			const lastLineEnding = bodyLines[block.endLine]!.endsWith("\r") ? "\r" : "";
+			const blockLines = renderCodeBlock(block, newContent!, newInfo).map((line, lineIndex, all) =>
+				line + (lineIndex === all.length - 1 ? lastLineEnding : lineEnding));
+			bodyLines.splice(block.startLine, block.endLine - block.startLine + 1, ...blockLines);
+			const nextContent = mergeFrontmatter(frontmatter, bodyLines.join("\n"));
+			const changed = nextContent !== currentContent;
+			if (changed) {
+				await context.vault.modify(file, nextContent);
+				await recordEdit(context, {
+					tool: "code_blocks",
+					action: "modify",
+					path: normalizedPath,
+					before: currentContent,
+					after: nextContent,
+				});
+			}
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: normalizedPath,
+						changed,
+						index: block.index,
+						start_line: block.startLine + 1,
+						end_line: block.startLine + blockLines.length,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error editing code block: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in code block tools
+ */
+export function getBuiltinCodeBlockTools(): MCPToolDefinition[] {
+	return [codeBlocksTool];
+}
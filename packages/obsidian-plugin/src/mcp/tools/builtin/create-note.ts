@@ -0,0 +1,235 @@
+import { moment, TFile, TFolder } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { getPlugin } from "../../utils/plugin-access";
+import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { buildFrontmatterBlock, deepMergeObjects, parseFrontmatterBlock } from "../helpers/yaml-helper";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { renderTemplate } from "../helpers/template-helper";
+import { coerceProperties, loadPropertyTypes } from "../helpers/property-types-helper";
+import { computeContentVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type TemplaterStatus = "applied" | "unavailable" | "skipped";
+
+const TEMPLATER_PLUGIN_ID = "templater-obsidian";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+/**
+ * Runs Templater's in-place processing of <% %> commands on a note.
+ * Returns "unavailable" when Templater is not installed or exposes no such command.
+ */
+async function runTemplater(file: TFile, context: AppContext): Promise<TemplaterStatus> {
+	const templater = (getPlugin(context.app, TEMPLATER_PLUGIN_ID) as {
+		templater?: { overwrite_file_commands?: (file: TFile) => Promise<void> };
+	} | undefined)?.templater;
+	if (typeof templater?.overwrite_file_commands !== "function") {
+		return "unavailable";
+	}
+	await templater.overwrite_file_commands(file);
+	return "applied";
+}
+
+/**
+ * Built-in tool: create_note
+ * Creates a note from plain content or a template
+ */
+export const createNoteTool: MCPToolDefinition = {
+	name: "create_note",
+	description:
+		"Create a new note from plain content or a template note. Templates may use {{title}}, {{date}}, {{time}}, {{date:FORMAT}}, {{time:FORMAT}} and custom {{variables}}. Initial frontmatter is merged over the template's frontmatter. Missing parent folders are created. Optionally runs Templater on the new note. Fails if the note already exists.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path of the new note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			content: {
+				type: "string",
+				description: "Markdown content of the note. Mutually exclusive with template. Placeholders are substituted here too.",
+			},
+			template: {
+				type: "string",
+				description: "Path of a template note to copy. Mutually exclusive with content.",
+			},
+			variables: {
+				type: "object",
+				description: "Custom placeholder values, e.g. {\"project\": \"Apollo\"} for {{project}}.",
+			},
+			frontmatter: {
+				type: "object",
+				description: "Initial frontmatter properties. Values are coerced to Obsidian's registered property types.",
+			},
+			create_folders: {
+				type: "boolean",
+				description: "Create missing parent folders. Default: true.",
+				default: true,
+			},
+			run_templater: {
+				type: "boolean",
+				description: "Run Templater on the new note when the Templater plugin is installed. Default: false.",
+				default: false,
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const content = typeof args.content === "string" ? args.content : undefined;
+		const template = typeof args.template === "string" && args.template.trim().length > 0 ? args.template : undefined;
+		const variables = args.variables;
+		const frontmatterData = args.frontmatter;
+		const createFolders = args.create_folders !== false;
+		const useTemplater = args.run_templater === true;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (content !== undefined && template !== undefined) {
+			return {
+				content: [{ type: "text", text: "Error: content and template cannot both be set." }],
+				isError: true,
+			};
+		}
+
+		if (
+			variables !== undefined &&
+			(!isPlainObject(variables) || !Object.values(variables).every((value) => ["string", "number", "boolean"].includes(typeof value)))
+		) {
+			return {
+				content: [{ type: "text", text: "Error: variables must be an object of string, number or boolean values." }],
+				isError: true,
+			};
+		}
+
+		if (frontmatterData !== undefined && !isPlainObject(frontmatterData)) {
+			return {
+				content: [{ type: "text", text: "Error: frontmatter must be an object." }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		if (context.vault.getAbstractFileByPath(normalizedPath)) {
+			return {
+				content: [{ type: "text", text: `Error: A file or folder already exists at "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		const parentPath = getParentPath(normalizedPath);
+		const parentExists = parentPath === "" || context.vault.getAbstractFileByPath(parentPath) instanceof TFolder;
+		if (!parentExists && !createFolders) {
+			return {
+				content: [{ type: "text", text: `Error: Folder "${parentPath}" does not exist. Set create_folders=true to create it.` }],
+				isError: true,
+			};
+		}
+
+		try {
+			let source = content ?? "";
+			if (template !== undefined) {
+				const templatePath = normalizeNotePath(template);
+				const templateFile = context.vault.getAbstractFileByPath(templatePath);
+				if (!(templateFile instanceof TFile)) {
+					return {
+						content: [{ type: "text", text: `Error: Template not found at path "${templatePath}"` }],
+						isError: true,
+					};
+				}
+				source = await context.vault.read(templateFile);
+			}
+
+			const rendered = renderTemplate(source, {
+				title: normalizedPath.split("/").pop()!.replace(/\.md$/i, ""),
+				date: moment(),
+				variables: Object.fromEntries(
+					Object.entries((variables as Record<string, string | number | boolean> | undefined) ?? {})
+						.map(([name, value]) => [name, String(value)]),
+				),
+			});
+
+			let nextContent = rendered;
+			if (frontmatterData !== undefined) {
+				const coerced = coerceProperties(frontmatterData, await loadPropertyTypes(context));
+				if ("error" in coerced) {
+					return {
+						content: [{ type: "text", text: coerced.error }],
+						isError: true,
+					};
+				}
+				const { frontmatter, body } = splitFrontmatter(rendered);
+				const parsed = parseFrontmatterBlock(frontmatter);
+				if ("error" in parsed) {
+					return {
+						content: [{ type: "text", text: parsed.error }],
+						isError: true,
+					};
+				}
+				nextContent = mergeFrontmatter(buildFrontmatterBlock(deepMergeObjects(parsed.data, coerced.data)), body);
+			}
+
+			if (!parentExists) {
+				await context.vault.createFolder(parentPath);
+			}
+			const file = await context.vault.create(normalizedPath, nextContent);
+
+			let templater: TemplaterStatus = "skipped";
+			if (useTemplater) {
+				templater = await runTemplater(file, context);
+				if (templater === "applied") {
+					nextContent = await context.vault.read(file);
+				}
+			}
+
+			await recordEdit(context, {
+				tool: "create_note",
+				action: "create",
+				path: normalizedPath,
+				before: null,
+				after: nextContent,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: normalizedPath,
+						created_folder: parentExists ? null : parentPath,
+						template: template === undefined ? null : normalizeNotePath(template),
+						templater,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error creating note: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in note creation tools
+ */
+export function getBuiltinCreateNoteTools(): MCPToolDefinition[] {
+	return [createNoteTool];
+}
@@ -1,7 +1,9 @@
 import { normalizePath, TFile } from "obsidian";
-import { applyPatch, parsePatch } from "diff";
+import { applyPatch, createTwoFilesPatch, diffArrays, parsePatch } from "diff";
 import { MCPToolDefinition, MCPToolResult } from "../types";
 import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
 
 function normalizeNotePath(path: string): string {
 	let normalizedPath = normalizePath(path);
@@ -11,6 +13,17 @@ function normalizeNotePath(path: string): string {
 	return normalizedPath;
 }
 
+const PATCH_FUZZ_FACTOR = 10;
+
+interface HunkReport {
+	index: number;
+	old_start: number;
+	applied_start: number;
+	offset: number;
+	fuzz: number;
+	fuzzed: boolean;
+}
+
 function normalizeLineEndings(value: string): string {
 	return value.replace(/\r\n/g, "\n");
 }
@@ -76,7 +89,10 @@ function buildContentFromEmptyPatch(patchText: string): string | null {
 	}
 }
 
-function applyUnifiedPatch(currentContent: string, patchText: string): { ok: true; content: string } | { ok: false; error: string } {
+function applyUnifiedPatch(
+	currentContent: string,
+	patchText: string
+): { ok: true; content: string; patch: string | null } | { ok: false; error: string } {
 	const normalizedContent = normalizeLineEndings(currentContent);
 	const candidates = collectPatchCandidates(patchText);
 
@@ -84,7 +100,7 @@ function applyUnifiedPatch(currentContent: string, patchText: string): { ok: tru
 		for (const candidate of candidates) {
 			const built = buildContentFromEmptyPatch(candidate);
 			if (built !== null) {
-				return { ok: true, content: built };
+				return { ok: true, content: built, patch: null };
 			}
 		}
 	}
@@ -94,13 +110,13 @@ function applyUnifiedPatch(currentContent: string, patchText: string): { ok: tru
 	for (const candidate of candidates) {
 		try {
 			const patched = applyPatch(normalizedContent, candidate, {
-				fuzzFactor: 10
+				fuzzFactor: PATCH_FUZZ_FACTOR
 			});
 			if (patched === false) {
 				lastError = "Error: Failed to apply unified patch to markdown content.";
 				continue;
 			}
-			return { ok: true, content: patched };
+			return { ok: true, content: patched, patch: candidate };
 		} catch (error) {
 			lastError = `Error: ${error instanceof Error ? error.message : String(error)}`;
 		}
@@ -109,6 +125,186 @@ function applyUnifiedPatch(currentContent: string, patchText: string): { ok: tru
 	return { ok: false, error: lastError ?? "Error: Failed to apply unified patch to markdown content." };
 }
 
+interface HunkFit {
+	start: number;
+	end: number;
+	trailingContext: number;
+}
+
+/**
+ * Yields positions in [minLine, maxLine] by increasing distance from start, forward first,
+ * in the order applyPatch tries them. The start itself is returned by the caller.
+ */
+function distanceIterator(start: number, minLine: number, maxLine: number): () => number | undefined {
+	let wantForward = true;
+	let backwardExhausted = false;
+	let forwardExhausted = false;
+	let localOffset = 1;
+	const next = (): number | undefined => {
+		if (wantForward && !forwardExhausted) {
+			if (backwardExhausted) {
+				localOffset += 1;
+			} else {
+				wantForward = false;
+			}
+			if (start + localOffset <= maxLine) {
+				return start + localOffset;
+			}
+			forwardExhausted = true;
+		}
+		if (!backwardExhausted) {
+			if (!forwardExhausted) {
+				wantForward = true;
+			}
+			if (minLine <= start - localOffset) {
+				const position = start - localOffset;
+				localOffset += 1;
+				return position;
+			}
+			backwardExhausted = true;
+			return next();
+		}
+		return undefined;
+	};
+	return next;
+}
+
+/**
+ * Fits hunk lines at toPos with the rules applyPatch uses: up to maxErrors extra, missing or
+ * changed context lines, removed lines must match, and so must the context around an insertion.
+ * Returns the end of the covered source region and its count of trailing context lines.
+ */
+function fitHunk(
+	lines: string[],
+	hunkLines: string[],
+	toPos: number,
+	maxErrors: number,
+	hunkLineIndex = 0,
+	lastContextMatched = true
+): { end: number; trailingContext: number } | null {
+	let trailingContext = 0;
+	let nextContextMustMatch = false;
+	for (let index = hunkLineIndex; index < hunkLines.length; index += 1) {
+		const hunkLine = hunkLines[index]!;
+		const operation = hunkLine.length > 0 ? hunkLine[0] : " ";
+		const content = hunkLine.slice(1);
+		if (operation === "-") {
+			if (lines[toPos] !== content) {
+				if (!maxErrors || lines[toPos] === undefined) {
+					return null;
+				}
+				return fitHunk(lines, hunkLines, toPos + 1, maxErrors - 1, index, false);
+			}
+			toPos += 1;
+			trailingContext = 0;
+		} else if (operation === "+") {
+			if (!lastContextMatched) {
+				return null;
+			}
+			trailingContext = 0;
+			nextContextMustMatch = true;
+		} else if (operation === " ") {
+			trailingContext += 1;
+			if (lines[toPos] !== content) {
+				if (nextContextMustMatch || !maxErrors) {
+					return null;
+				}
+				const substitutedOrInserted = lines[toPos]
+					? fitHunk(lines, hunkLines, toPos + 1, maxErrors - 1, index + 1, false) ??
+						fitHunk(lines, hunkLines, toPos + 1, maxErrors - 1, index, false)
+					: null;
+				return substitutedOrInserted ?? fitHunk(lines, hunkLines, toPos, maxErrors - 1, index + 1, false);
+			}
+			lastContextMatched = true;
+			nextContextMustMatch = false;
+			toPos += 1;
+		}
+	}
+	return { end: toPos, trailingContext };
+}
+
+/**
+ * Counts the lines a region differs from the hunk's expected lines, a changed line counting once.
+ */
+function countLineEdits(expected: string[], actual: string[]): number {
+	let edits = 0;
+	let removed = 0;
+	let added = 0;
+	for (const change of diffArrays(expected, actual)) {
+		if (change.removed) {
+			removed += change.count;
+		} else if (change.added) {
+			added += change.count;
+		} else {
+			edits += Math.max(removed, added);
+			removed = 0;
+			added = 0;
+		}
+	}
+	return edits + Math.max(removed, added);
+}
+
+/**
+ * Reports where each hunk of an applied patch landed in the original content.
+ * applyPatch does not expose this, so the hunks are fitted again in order with its search
+ * and matching rules, each one starting after the previous hunk. `offset` is the distance
+ * from the line stated in the hunk header, `fuzz` the number of lines the matched region
+ * differs from the hunk's context and removed lines.
+ */
+function analyzeHunks(currentContent: string, patchText: string): HunkReport[] {
+	const lines = normalizeLineEndings(currentContent).split("\n");
+	const hunks = parsePatch(patchText)[0]?.hunks ?? [];
+
+	// applyPatch adjusts the final newline before fitting when the patch adds or removes it.
+	const lastHunkLines = hunks[hunks.length - 1]?.lines ?? [];
+	const markers = lastHunkLines.flatMap((line, index) => (line.startsWith("\\") ? [lastHunkLines[index - 1]?.[0]] : []));
+	const removesFinalNewline = markers.includes("+");
+	const addsFinalNewline = markers.includes("-");
+	if (removesFinalNewline && !addsFinalNewline && lines[lines.length - 1] === "") {
+		lines.pop();
+	} else if (addsFinalNewline && !removesFinalNewline && lines[lines.length - 1] !== "") {
+		lines.push("");
+	}
+
+	const reports: HunkReport[] = [];
+	let minLine = 0;
+	let previousOffset = 0;
+	for (const [index, hunk] of hunks.entries()) {
+		const statedPosition = hunk.oldStart + previousOffset - 1;
+		const maxLine = lines.length - hunk.oldLines + PATCH_FUZZ_FACTOR;
+		let fit: HunkFit | null = null;
+		for (let maxErrors = 0; !fit && maxErrors <= PATCH_FUZZ_FACTOR; maxErrors += 1) {
+			const nextPosition = distanceIterator(statedPosition, minLine, maxLine);
+			for (let position: number | undefined = statedPosition; position !== undefined; position = nextPosition()) {
+				const result = fitHunk(lines, hunk.lines, position, maxErrors);
+				if (result) {
+					fit = { start: position, ...result };
+					break;
+				}
+			}
+		}
+		if (!fit) {
+			break;
+		}
+
+		const expected = hunk.lines
+			.filter((line) => line.startsWith(" ") || line.startsWith("-"))
+			.map((line) => line.slice(1));
+		const fuzz = countLineEdits(expected, lines.slice(fit.start, fit.end));
+		const offset = fit.start + 1 - hunk.oldStart;
+		reports.push({
+			index,
+			old_start: hunk.oldStart,
+			applied_start: fit.start + 1,
+			offset,
+			fuzz,
+			fuzzed: offset !== 0 || fuzz > 0
+		});
+		minLine = fit.end - fit.trailingContext;
+		previousOffset = offset;
+	}
+	return reports;
+}
 
 /**
  * Built-in tool: edit_note
@@ -137,6 +333,15 @@ export const editNoteTool: MCPToolDefinition = {
 				type: "boolean",
 				description: "Allow deleting a note. When true, patch can be omitted.",
 				default: false
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. The write fails with a conflict if the note changed since."
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, return the resulting body, the normalized diff and per-hunk fuzz/offset details without writing.",
+				default: false
 			}
 		},
 		required: ["path"]
@@ -146,6 +351,8 @@ export const editNoteTool: MCPToolDefinition = {
 		const patch = (args.patch as string | undefined) ?? "";
 		const allowCreate = Boolean(args.create);
 		const allowDelete = Boolean(args.delete);
+		const expectedVersion = args.expected_version;
+		const dryRun = args.dry_run === true;
 
 		if (allowCreate && allowDelete) {
 			return {
@@ -157,6 +364,17 @@ export const editNoteTool: MCPToolDefinition = {
 			};
 		}
 
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{
+					type: "text",
+					text: versionError
+				}],
+				isError: true
+			};
+		}
+
 		const normalizedPath = normalizeNotePath(path);
 		const trimmedPatch = patch.trim();
 
@@ -172,7 +390,27 @@ export const editNoteTool: MCPToolDefinition = {
 						isError: true
 					};
 				}
+				const deletedContent = await context.vault.read(file);
+				const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, deletedContent);
+				if (conflict) {
+					return conflict;
+				}
+				if (dryRun) {
+					return {
+						content: [{
+							type: "text",
+							text: JSON.stringify({ dry_run: true, path: normalizedPath, action: "delete" }, null, 2)
+						}]
+					};
+				}
 				await context.app.fileManager.trashFile(file);
+				await recordEdit(context, {
+					tool: "edit_note",
+					action: "delete",
+					path: normalizedPath,
+					before: deletedContent,
+					after: null,
+				});
 				return {
 					content: [{
 						type: "text",
@@ -215,6 +453,10 @@ export const editNoteTool: MCPToolDefinition = {
 		try {
 			// Read the current content
 			const currentContent = file ? await context.vault.read(file) : "";
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, file ? currentContent : null);
+			if (conflict) {
+				return conflict;
+			}
 			const { frontmatter, body } = splitFrontmatter(currentContent);
 			const patchResult = applyUnifiedPatch(body, patch);
 			if (!patchResult.ok) {
@@ -239,6 +481,22 @@ export const editNoteTool: MCPToolDefinition = {
 				};
 			}
 
+			if (dryRun) {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							dry_run: true,
+							path: normalizedPath,
+							action: file ? "modify" : "create",
+							content: nextBodyContent,
+							diff: createTwoFilesPatch("a/body.md", "b/body.md", normalizeLineEndings(body), nextBodyContent),
+							hunks: patchResult.patch ? analyzeHunks(body, patchResult.patch) : []
+						}, null, 2)
+					}]
+				};
+			}
+
 			if (!file) {
 				if (!allowCreate) {
 					return {
@@ -250,21 +508,35 @@ export const editNoteTool: MCPToolDefinition = {
 					};
 				}
 				await context.vault.create(normalizedPath, nextContent);
+				await recordEdit(context, {
+					tool: "edit_note",
+					action: "create",
+					path: normalizedPath,
+					before: null,
+					after: nextContent,
+				});
 				return {
 					content: [{
 						type: "text",
-						text: `Successfully created "${normalizedPath}"`
+						text: `Successfully created "${normalizedPath}" (version ${computeContentVersion(nextContent)})`
 					}]
 				};
 			}
 
 			// Write the patched content back to the file
 			await context.vault.modify(file, nextContent);
+			await recordEdit(context, {
+				tool: "edit_note",
+				action: "modify",
+				path: normalizedPath,
+				before: currentContent,
+				after: nextContent,
+			});
 
 			return {
 				content: [{
 					type: "text",
-					text: `Successfully applied patch to "${normalizedPath}"`
+					text: `Successfully applied patch to "${normalizedPath}" (version ${computeContentVersion(nextContent)})`
 				}]
 			};
 		} catch (error) {
@@ -0,0 +1,201 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import {
+	buildNextCursor,
+	getMarkdownFilesInFolder,
+	normalizeFolderPath,
+	parseCursor,
+} from "../helpers/vault-helper";
+import { getCachedFrontmatter, getPropertyValue, parseFrontmatterQuery, toTimestamp } from "../helpers/query-helper";
+
+type SortOrder = "asc" | "desc";
+
+interface QueryMatch {
+	file: TFile;
+	frontmatter: Record<string, unknown>;
+}
+
+const DEFAULT_LIMIT = 50;
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function getSortValue(match: QueryMatch, sortBy: string): unknown {
+	if (sortBy === "path") {
+		return match.file.path;
+	}
+	if (sortBy === "mtime" || sortBy === "ctime") {
+		return match.file.stat[sortBy];
+	}
+	return getPropertyValue(match.frontmatter, sortBy);
+}
+
+/**
+ * Orders property values: dates and numbers numerically, everything else as text.
+ * Missing values always sort last, regardless of order.
+ */
+function compareSortValues(a: unknown, b: unknown, order: SortOrder): number {
+	const aMissing = a === undefined || a === null;
+	const bMissing = b === undefined || b === null;
+	if (aMissing || bMissing) {
+		return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+	}
+	const direction = order === "asc" ? 1 : -1;
+	const aTime = toTimestamp(a);
+	const bTime = toTimestamp(b);
+	if (aTime !== null && bTime !== null) {
+		return direction * (aTime - bTime);
+	}
+	if (typeof a === "number" && typeof b === "number") {
+		return direction * (a - b);
+	}
+	return direction * toSortText(a).localeCompare(toSortText(b));
+}
+
+function toSortText(value: unknown): string {
+	return typeof value === "object" ? JSON.stringify(value) : String(value as string | number | boolean);
+}
+
+function projectProperties(frontmatter: Record<string, unknown>, select: string[] | undefined): Record<string, unknown> {
+	if (!select) {
+		return frontmatter;
+	}
+	const projected: Record<string, unknown> = {};
+	for (const key of select) {
+		const value = getPropertyValue(frontmatter, key);
+		projected[key] = value === undefined ? null : value;
+	}
+	return projected;
+}
+
+/**
+ * Built-in tool: query_frontmatter
+ * Filters notes by their properties using the metadata cache
+ */
+export const queryFrontmatterTool: MCPToolDefinition = {
+	name: "query_frontmatter",
+	description:
+		"Find notes by frontmatter properties across the vault. The query supports =, !=, <, <=, >, >=, contains, exists, between ... and ..., AND/OR/NOT and parentheses; values can be strings, numbers, booleans, dates (YYYY-MM-DD) and relative dates (today, now, today+7d, today-1m). Example: status = \"open\" AND due < today. A comparison on a missing property is false. Reads the metadata cache, so results reflect Obsidian's index.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			query: {
+				type: "string",
+				description: "Filter expression. Omit to return every note that has frontmatter.",
+			},
+			folder: {
+				type: "string",
+				description: "Only search notes in this folder. Defaults to the whole vault.",
+			},
+			select: {
+				type: "array",
+				items: { type: "string" },
+				description: "Property keys to return for each note (dotted keys for nested values). Defaults to all properties.",
+			},
+			sort_by: {
+				type: "string",
+				description: "Property key to sort by, or path, mtime or ctime. Default: path.",
+				default: "path",
+			},
+			order: {
+				type: "string",
+				enum: ["asc", "desc"],
+				description: "Sort order. Notes missing the sort property are always last. Default: asc.",
+				default: "asc",
+			},
+			limit: {
+				type: "number",
+				description: `Maximum number of notes per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "Cursor returned as next_cursor by a previous call.",
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const query = typeof args.query === "string" && args.query.trim().length > 0 ? args.query : undefined;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const select = args.select;
+		const sortBy = typeof args.sort_by === "string" && args.sort_by.length > 0 ? args.sort_by : "path";
+		const order = (typeof args.order === "string" ? args.order : "asc") as SortOrder;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (select !== undefined && !isStringArray(select)) {
+			return {
+				content: [{ type: "text", text: "Error: select must be an array of strings." }],
+				isError: true,
+			};
+		}
+
+		if (!["asc", "desc"].includes(order)) {
+			return {
+				content: [{ type: "text", text: "Error: order must be \"asc\" or \"desc\"." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		const predicate = query ? parseFrontmatterQuery(query) : () => true;
+		if ("error" in predicate) {
+			return {
+				content: [{ type: "text", text: predicate.error }],
+				isError: true,
+			};
+		}
+
+		const matches: QueryMatch[] = [];
+		for (const file of getMarkdownFilesInFolder(context.vault.getMarkdownFiles(), folder)) {
+			const frontmatter = getCachedFrontmatter(context.app.metadataCache.getFileCache(file));
+			if (frontmatter && predicate(frontmatter)) {
+				matches.push({ file, frontmatter });
+			}
+		}
+
+		matches.sort(
+			(a, b) =>
+				compareSortValues(getSortValue(a, sortBy), getSortValue(b, sortBy), order) ||
+				a.file.path.localeCompare(b.file.path),
+		);
+
+		const page = matches.slice(offset, offset + limit);
+		return {
+			content: [{
+				type: "text",
+				text: JSON.stringify({
+					query: query ?? null,
+					sort_by: sortBy,
+					total: matches.length,
+					notes: page.map((match) => ({
+						path: match.file.path,
+						properties: projectProperties(match.frontmatter, select),
+					})),
+					next_cursor: buildNextCursor(offset + page.length, matches.length),
+				}, null, 2),
+			}],
+		};
+	},
+};
+
+/**
+ * Get all built-in frontmatter query tools
+ */
+export function getBuiltinFrontmatterQueryTools(): MCPToolDefinition[] {
+	return [queryFrontmatterTool];
+}
@@ -1,4 +1,5 @@
 import { normalizePath, TFile } from "obsidian";
+import { createTwoFilesPatch } from "diff";
 import { MCPToolDefinition, MCPToolResult } from "../types";
 import { splitFrontmatter, mergeFrontmatter } from "../helpers/markdown-helper";
 import {
@@ -7,6 +8,16 @@ import {
 	deepMergeObjects,
 	parseFrontmatterBlock,
 } from "../helpers/yaml-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+import { BatchFilePlan, BatchFileReport, writeBatchPlans } from "../helpers/batch-helper";
+import { getMarkdownFilesInFolder, getNoteTags, normalizeFolderPath } from "../helpers/vault-helper";
+import { parseTagExpression } from "../helpers/tag-helper";
+import { getCachedFrontmatter, parseFrontmatterQuery } from "../helpers/query-helper";
+import { coerceProperties, getPropertyType, loadPropertyTypes } from "../helpers/property-types-helper";
+import type { AppContext } from "../../../plugin/context";
+
+type FrontmatterMode = "set" | "merge" | "delete";
 
 function normalizeNotePath(path: string): string {
 	let normalizedPath = normalizePath(path);
@@ -24,9 +35,61 @@ function isStringArray(value: unknown): value is string[] {
 	return Array.isArray(value) && value.every((item) => typeof item === "string");
 }
 
+/**
+ * Coerces set/merge data to the property types declared in `.obsidian/types.json`.
+ * Returns undefined when the mode takes no data.
+ */
+async function coerceIncomingData(
+	data: Record<string, unknown> | undefined,
+	context: AppContext,
+): Promise<{ data: Record<string, unknown> } | { error: string } | undefined> {
+	if (data === undefined) {
+		return undefined;
+	}
+	return coerceProperties(data, await loadPropertyTypes(context));
+}
+
+/**
+ * Applies a set/merge/delete operation to parsed frontmatter without mutating it.
+ */
+function applyFrontmatterMode(
+	current: Record<string, unknown>,
+	mode: FrontmatterMode,
+	data: Record<string, unknown> | undefined,
+	keys: string[] | undefined,
+): { frontmatter: Record<string, unknown>; changed: boolean } {
+	if (mode === "merge") {
+		const merged = deepMergeObjects(current, data ?? {});
+		return { frontmatter: merged, changed: !deepEqual(current, merged) };
+	}
+
+	const nextFrontmatter: Record<string, unknown> = { ...current };
+	let changed = false;
+
+	if (mode === "set") {
+		for (const [key, value] of Object.entries(data ?? {})) {
+			if (!Object.prototype.hasOwnProperty.call(nextFrontmatter, key) || !deepEqual(nextFrontmatter[key], value)) {
+				nextFrontmatter[key] = value;
+				changed = true;
+			}
+		}
+	}
+
+	if (mode === "delete") {
+		for (const key of keys ?? []) {
+			if (Object.prototype.hasOwnProperty.call(nextFrontmatter, key)) {
+				delete nextFrontmatter[key];
+				changed = true;
+			}
+		}
+	}
+
+	return { frontmatter: nextFrontmatter, changed };
+}
+
 export const readFrontmatterTool: MCPToolDefinition = {
 	name: "read_frontmatter",
-	description: "Read YAML frontmatter from a note without reading body content.",
+	description: "Read YAML frontmatter from a note without reading body content. Also returns the property type Obsidian has registered for each key (null when undeclared).",
 	inputSchema: {
 		type: "object",
 		properties: {
@@ -111,8 +174,17 @@ export const readFrontmatterTool: MCPToolDefinition = {
 				result = filtered;
 			}
 
+			const propertyTypes = await loadPropertyTypes(context);
+			const types: Record<string, string | null> = {};
+			for (const key of Object.keys(result)) {
+				types[key] = getPropertyType(propertyTypes, key);
+			}
+
 			return {
-				content: [{ type: "text", text: JSON.stringify({ path: normalizedPath, frontmatter: result }, null, 2) }],
+				content: [{
+					type: "text",
+					text: JSON.stringify({ path: normalizedPath, frontmatter: result, types, version: computeContentVersion(content) }, null, 2),
+				}],
 			};
 		} catch (error) {
 			return {
@@ -127,7 +199,7 @@ export const readFrontmatterTool: MCPToolDefinition = {
 
 export const editFrontmatterTool: MCPToolDefinition = {
 	name: "edit_frontmatter",
-	description: "Edit YAML frontmatter in a note. Does not modify the markdown body.",
+	description: "Edit YAML frontmatter in a note. Does not modify the markdown body. Values for properties with a type registered in Obsidian (text, list, number, checkbox, date, datetime) are coerced to that type, or rejected when they cannot be; dates are written as YYYY-MM-DD and datetimes as YYYY-MM-DDTHH:mm.",
 	inputSchema: {
 		type: "object",
 		properties: {
@@ -157,6 +229,15 @@ export const editFrontmatterTool: MCPToolDefinition = {
 				description: "Allow creating a note if it does not exist. Default: false.",
 				default: false,
 			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. The write fails with a conflict if the note changed since.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, return the resulting note content and a unified diff without writing. Default: false.",
+				default: false,
+			},
 		},
 		required: ["path"],
 	},
@@ -166,6 +247,8 @@ export const editFrontmatterTool: MCPToolDefinition = {
 		const data = args.data;
 		const keys = args.keys;
 		const allowCreate = args.allow_create === true;
+		const expectedVersion = args.expected_version;
+		const dryRun = args.dry_run === true;
 
 		if (!path || path.trim().length === 0) {
 			return {
@@ -195,6 +278,14 @@ export const editFrontmatterTool: MCPToolDefinition = {
 			};
 		}
 
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
 		const normalizedPath = normalizeNotePath(path);
 		const abstractFile = context.vault.getAbstractFileByPath(normalizedPath);
 		let file: TFile | null = abstractFile instanceof TFile ? abstractFile : null;
@@ -215,6 +306,10 @@ export const editFrontmatterTool: MCPToolDefinition = {
 
 		try {
 			const currentContent = file ? await context.vault.read(file) : "";
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, file ? currentContent : null);
+			if (conflict) {
+				return conflict;
+			}
 			const { frontmatter, body } = splitFrontmatter(currentContent);
 			const parsed = parseFrontmatterBlock(frontmatter);
 
@@ -225,53 +320,73 @@ export const editFrontmatterTool: MCPToolDefinition = {
 				};
 			}
 
-			let nextFrontmatter: Record<string, unknown> = { ...parsed.data };
-			let changed = false;
-
-			if (mode === "set") {
-				const incoming = data as Record<string, unknown>;
-				nextFrontmatter = { ...nextFrontmatter };
-				for (const [key, value] of Object.entries(incoming)) {
-					if (!Object.prototype.hasOwnProperty.call(nextFrontmatter, key) || !deepEqual(nextFrontmatter[key], value)) {
-						nextFrontmatter[key] = value;
-						changed = true;
-					}
-				}
+			const incoming = await coerceIncomingData(mode === "delete" ? undefined : (data as Record<string, unknown>), context);
+			if (incoming && "error" in incoming) {
+				return {
+					content: [{ type: "text", text: incoming.error }],
+					isError: true,
+				};
 			}
 
-			if (mode === "merge") {
-				const incoming = data as Record<string, unknown>;
-				const merged = deepMergeObjects(nextFrontmatter, incoming);
-				changed = !deepEqual(nextFrontmatter, merged);
-				nextFrontmatter = merged;
-			}
+			const { frontmatter: nextFrontmatter, changed } = applyFrontmatterMode(
+				parsed.data,
+				mode as FrontmatterMode,
+				incoming?.data,
+				keys as string[] | undefined,
+			);
 
-			if (mode === "delete") {
-				const deleteKeys = keys as string[];
-				for (const key of deleteKeys) {
-					if (Object.prototype.hasOwnProperty.call(nextFrontmatter, key)) {
-						delete nextFrontmatter[key];
-						changed = true;
-					}
-				}
+			if (dryRun) {
+				const previewContent = mergeFrontmatter(buildFrontmatterBlock(nextFrontmatter), body);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify({
+								dry_run: true,
+								path: normalizedPath,
+								mode,
+								action: file ? "modify" : "create",
+								changed: !file || changed,
+								frontmatter: nextFrontmatter,
+								content: previewContent,
+								diff: createTwoFilesPatch(normalizedPath, normalizedPath, currentContent, previewContent),
+							}, null, 2),
+						},
+					],
+				};
 			}
 
+			let nextContent: string;
 			if (!file && allowCreate) {
-				const content = mergeFrontmatter(buildFrontmatterBlock(nextFrontmatter), "");
-				file = await context.vault.create(normalizedPath, content);
+				nextContent = mergeFrontmatter(buildFrontmatterBlock(nextFrontmatter), "");
+				file = await context.vault.create(normalizedPath, nextContent);
+				await recordEdit(context, {
+					tool: "edit_frontmatter",
+					action: "create",
+					path: normalizedPath,
+					before: null,
+					after: nextContent,
+				});
 			} else {
 				if (!changed) {
 					return {
 						content: [
 							{
 								type: "text",
-								text: JSON.stringify({ ok: true, path: normalizedPath, mode, changed: false, frontmatter: nextFrontmatter }, null, 2),
+								text: JSON.stringify({
+									ok: true,
+									path: normalizedPath,
+									mode,
+									changed: false,
+									frontmatter: nextFrontmatter,
+									version: computeContentVersion(currentContent),
+								}, null, 2),
 							},
 						],
 						isError: false,
 					};
 				}
-				const nextContent = mergeFrontmatter(buildFrontmatterBlock(nextFrontmatter), body);
+				nextContent = mergeFrontmatter(buildFrontmatterBlock(nextFrontmatter), body);
 				if (!file) {
 					return {
 						content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
@@ -279,13 +394,27 @@ export const editFrontmatterTool: MCPToolDefinition = {
 					};
 				}
 				await context.vault.modify(file, nextContent);
+				await recordEdit(context, {
+					tool: "edit_frontmatter",
+					action: "modify",
+					path: normalizedPath,
+					before: currentContent,
+					after: nextContent,
+				});
 			}
 
 			return {
 				content: [
 					{
 						type: "text",
-						text: JSON.stringify({ ok: true, path: normalizedPath, mode, changed: true, frontmatter: nextFrontmatter }, null, 2),
+						text: JSON.stringify({
+							ok: true,
+							path: normalizedPath,
+							mode,
+							changed: true,
+							frontmatter: nextFrontmatter,
+							version: computeContentVersion(nextContent),
+						}, null, 2),
 					},
 				],
 			};
@@ -300,6 +429,269 @@ export const editFrontmatterTool: MCPToolDefinition = {
 	},
 };
 
+/**
+ * Resolves the notes a batch edit applies to. Every given selector must match;
+ * listed paths that do not exist are returned as errors.
+ */
+function selectBatchTargets(
+	paths: string[] | undefined,
+	folder: string | undefined,
+	tag: string | undefined,
+	query: string | undefined,
+	context: AppContext,
+): { files: TFile[]; missing: BatchFileReport[] } | { error: string } {
+	const missing: BatchFileReport[] = [];
+	let files: TFile[];
+	if (paths !== undefined) {
+		files = [];
+		for (const path of new Set(paths.map(normalizeNotePath))) {
+			const file = context.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				files.push(file);
+			} else {
+				missing.push({ path, status: "error", error: `Error: Note not found at path "${path}"` });
+			}
+		}
+	} else {
+		files = context.vault.getMarkdownFiles();
+	}
+	files = getMarkdownFilesInFolder(files, normalizeFolderPath(folder));
+
+	if (tag !== undefined) {
+		const predicate = parseTagExpression(tag);
+		if ("error" in predicate) {
+			return predicate;
+		}
+		files = files.filter((file) => predicate(getNoteTags(context.app.metadataCache.getFileCache(file))));
+	}
+
+	if (query !== undefined) {
+		const predicate = parseFrontmatterQuery(query);
+		if ("error" in predicate) {
+			return predicate;
+		}
+		files = files.filter((file) => {
+			const frontmatter = getCachedFrontmatter(context.app.metadataCache.getFileCache(file));
+			return frontmatter !== null && predicate(frontmatter);
+		});
+	}
+
+	return { files, missing };
+}
+
+export const batchEditFrontmatterTool: MCPToolDefinition = {
+	name: "batch_edit_frontmatter",
+	description:
+		"Apply the same set/merge/delete frontmatter operation to many notes at once. Select notes by paths, folder, tag expression and/or frontmatter query; every given selector must match. All-or-nothing: if any note cannot be read, parsed or written, no changes remain. Supports dry_run.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			paths: {
+				type: "array",
+				items: { type: "string" },
+				description: "Notes to edit. Every listed note must exist.",
+			},
+			folder: {
+				type: "string",
+				description: "Only edit notes in this folder.",
+			},
+			tag: {
+				type: "string",
+				description: "Only edit notes matching this tag expression, e.g. '#project AND NOT #archived'.",
+			},
+			query: {
+				type: "string",
+				description: "Only edit notes matching this frontmatter query (same syntax as query_frontmatter), e.g. 'status = open'.",
+			},
+			mode: {
+				type: "string",
+				enum: ["set", "merge", "delete"],
+				description: "Operation to perform on frontmatter. Default: set.",
+				default: "set",
+			},
+			data: {
+				type: "object",
+				description: "Key/value pairs used by set/merge modes.",
+			},
+			keys: {
+				type: "array",
+				items: { type: "string" },
+				description: "Keys to delete when mode=delete.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, return a unified diff per note without writing. Default: false.",
+				default: false,
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const paths = args.paths;
+		const folder = typeof args.folder === "string" && args.folder.trim().length > 0 ? args.folder : undefined;
+		const tag = typeof args.tag === "string" && args.tag.trim().length > 0 ? args.tag : undefined;
+		const query = typeof args.query === "string" && args.query.trim().length > 0 ? args.query : undefined;
+		const mode = typeof args.mode === "string" ? args.mode : "set";
+		const data = args.data;
+		const keys = args.keys;
+		const dryRun = args.dry_run === true;
+
+		if (paths !== undefined && !isStringArray(paths)) {
+			return {
+				content: [{ type: "text", text: "Error: paths must be an array of strings." }],
+				isError: true,
+			};
+		}
+
+		if (paths === undefined && folder === undefined && tag === undefined && query === undefined) {
+			return {
+				content: [{ type: "text", text: "Error: at least one of paths, folder, tag or query is required." }],
+				isError: true,
+			};
+		}
+
+		if (!["set", "merge", "delete"].includes(mode)) {
+			return {
+				content: [{ type: "text", text: "Error: mode must be one of \"set\", \"merge\", or \"delete\"." }],
+				isError: true,
+			};
+		}
+
+		if ((mode === "set" || mode === "merge") && (data === undefined || !isPlainObject(data))) {
+			return {
+				content: [{ type: "text", text: "Error: data is required and must be an object for set/merge." }],
+				isError: true,
+			};
+		}
+
+		if (mode === "delete" && (keys === undefined || !isStringArray(keys) || keys.length === 0)) {
+			return {
+				content: [{ type: "text", text: "Error: keys is required and must be a non-empty array of strings for delete." }],
+				isError: true,
+			};
+		}
+
+		const incoming = await coerceIncomingData(mode === "delete" ? undefined : (data as Record<string, unknown>), context);
+		if (incoming && "error" in incoming) {
+			return {
+				content: [{ type: "text", text: incoming.error }],
+				isError: true,
+			};
+		}
+
+		const targets = selectBatchTargets(paths, folder, tag, query, context);
+		if ("error" in targets) {
+			return {
+				content: [{ type: "text", text: targets.error }],
+				isError: true,
+			};
+		}
+
+		const reports: BatchFileReport[] = [...targets.missing];
+		const plans: BatchFilePlan[] = [];
+		for (const file of targets.files) {
+			try {
+				const content = await context.vault.read(file);
+				const { frontmatter, body } = splitFrontmatter(content);
+				const parsed = parseFrontmatterBlock(frontmatter);
+				if ("error" in parsed) {
+					reports.push({ path: file.path, status: "error", error: parsed.error });
+					continue;
+				}
+				const next = applyFrontmatterMode(
+					parsed.data,
+					mode as FrontmatterMode,
+					incoming?.data,
+					keys as string[] | undefined,
+				);
+				if (!next.changed) {
+					reports.push({ path: file.path, status: "unchanged" });
+					continue;
+				}
+				const nextContent = mergeFrontmatter(buildFrontmatterBlock(next.frontmatter), body);
+				plans.push({ file, before: content, after: nextContent });
+				reports.push({
+					path: file.path,
+					status: "changed",
+					diff: dryRun ? createTwoFilesPatch(file.path, file.path, content, nextContent) : undefined,
+				});
+			} catch (error) {
+				reports.push({
+					path: file.path,
+					status: "error",
+					error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+				});
+			}
+		}
+
+		const failed = reports.some((report) => report.status === "error");
+		if (failed || dryRun || plans.length === 0) {
+			const result: MCPToolResult = {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: !failed,
+						dry_run: dryRun,
+						mode,
+						matched: reports.length,
+						changed: failed ? 0 : plans.length,
+						files: reports,
+					}, null, 2),
+				}],
+			};
+			if (failed) {
+				result.isError = true;
+			}
+			return result;
+		}
+
+		const rollbackReports = await writeBatchPlans(plans, context);
+		if (rollbackReports) {
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: false,
+						dry_run: false,
+						mode,
+						matched: reports.length,
+						changed: 0,
+						files: rollbackReports,
+					}, null, 2),
+				}],
+				isError: true,
+			};
+		}
+
+		for (const plan of plans) {
+			const report = reports.find((candidate) => candidate.path === plan.file.path);
+			if (report) {
+				report.version = computeContentVersion(plan.after);
+			}
+			await recordEdit(context, {
+				tool: "batch_edit_frontmatter",
+				action: "modify",
+				path: plan.file.path,
+				before: plan.before,
+				after: plan.after,
+			});
+		}
+
+		return {
+			content: [{
+				type: "text",
+				text: JSON.stringify({
+					ok: true,
+					dry_run: false,
+					mode,
+					matched: reports.length,
+					changed: plans.length,
+					files: reports,
+				}, null, 2),
+			}],
+		};
+	},
+};
+
 export function getBuiltinFrontmatterTools(): MCPToolDefinition[] {
-	return [readFrontmatterTool, editFrontmatterTool];
+	return [readFrontmatterTool, editFrontmatterTool, batchEditFrontmatterTool];
 }
@@ -0,0 +1,201 @@
+import { normalizePath } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { EditJournal, EditJournalEntry, RevertResult } from "../../../plugin/edit-journal";
+import { normalizeNotePath } from "../helpers/vault-helper";
+
+const DEFAULT_LIMIT = 20;
+
+const JOURNAL_UNAVAILABLE: MCPToolResult = {
+	content: [{ type: "text", text: "Error: The edit journal is not available." }],
+	isError: true,
+};
+
+/**
+ * Summarizes an entry without its snapshots, which can be large.
+ */
+function summarizeEntry(entry: EditJournalEntry): Record<string, unknown> {
+	const { before, after, ...summary } = entry;
+	return {
+		...summary,
+		has_before: before !== null,
+		has_after: after !== null,
+	};
+}
+
+/**
+ * Resolves a path filter against the journal. Entries are recorded for canvases and
+ * attachments too, so the exact path wins; ".md" is appended only when nothing matches it.
+ */
+function resolveEntryPath(path: unknown, journal: EditJournal): string | undefined {
+	if (typeof path !== "string" || path.trim().length === 0) {
+		return undefined;
+	}
+	const exact = normalizePath(path);
+	const matches = journal.list().some((entry) => entry.path === exact || entry.previous_path === exact);
+	return matches ? exact : normalizeNotePath(path);
+}
+
+function toRevertResult(result: RevertResult): MCPToolResult {
+	if (!result.ok) {
+		return {
+			content: [{ type: "text", text: result.error }],
+			isError: true,
+		};
+	}
+	return {
+		content: [{ type: "text", text: JSON.stringify({ ok: true, reverted: summarizeEntry(result.entry) }, null, 2) }],
+	};
+}
+
+/**
+ * Built-in tool: list_edits
+ * Lists journaled writes made through the bridge
+ */
+export const listEditsTool: MCPToolDefinition = {
+	name: "list_edits",
+	description:
+		"List recent writes made through the bridge (newest first) with their journal id, tool, API key id, timestamp and action. Use the id with revert_edit.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Only list entries for this file, e.g. a note, canvas or attachment. The .md extension is optional for notes.",
+			},
+			include_reverted: {
+				type: "boolean",
+				description: "When true, include entries that were already reverted. Default: false.",
+				default: false,
+			},
+			limit: {
+				type: "number",
+				description: `Maximum number of entries. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const includeReverted = args.include_reverted === true;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+
+		if (!context.editJournal) {
+			return JOURNAL_UNAVAILABLE;
+		}
+
+		const path = resolveEntryPath(args.path, context.editJournal);
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		const entries = context.editJournal
+			.list()
+			.filter((entry) => includeReverted || entry.reverted_at === undefined)
+			.filter((entry) => path === undefined || entry.path === path || entry.previous_path === path);
+
+		return {
+			content: [{
+				type: "text",
+				text: JSON.stringify({
+					total: entries.length,
+					entries: entries.slice(0, limit).map(summarizeEntry),
+				}, null, 2),
+			}],
+		};
+	},
+};
+
+/**
+ * Built-in tool: undo_last_edit
+ * Reverts the newest journaled write that has not been reverted yet
+ */
+export const undoLastEditTool: MCPToolDefinition = {
+	name: "undo_last_edit",
+	description:
+		"Undo the most recent write made through the bridge that has not been reverted yet, optionally limited to one note. Repeated calls step further back.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Only undo the last write to this file, e.g. a note, canvas or attachment. The .md extension is optional for notes.",
+			},
+			force: {
+				type: "boolean",
+				description: "Revert even if the note changed after the journaled write. Default: false.",
+				default: false,
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const force = args.force === true;
+
+		if (!context.editJournal) {
+			return JOURNAL_UNAVAILABLE;
+		}
+
+		const path = resolveEntryPath(args.path, context.editJournal);
+
+		const entry = context.editJournal.getLastRevertible(path);
+		if (!entry) {
+			return {
+				content: [{ type: "text", text: path ? `Error: No journaled edits to undo for "${path}".` : "Error: No journaled edits to undo." }],
+				isError: true,
+			};
+		}
+
+		return toRevertResult(await context.editJournal.revert(entry.id, context, force));
+	},
+};
+
+/**
+ * Built-in tool: revert_edit
+ * Reverts a specific journaled write by id
+ */
+export const revertEditTool: MCPToolDefinition = {
+	name: "revert_edit",
+	description:
+		"Revert a journaled write by its id from list_edits, restoring the note as it was before that write.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			id: {
+				type: "number",
+				description: "Journal entry id returned by list_edits.",
+			},
+			force: {
+				type: "boolean",
+				description: "Revert even if the note changed after the journaled write. Default: false.",
+				default: false,
+			},
+		},
+		required: ["id"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const id = args.id;
+		const force = args.force === true;
+
+		if (!context.editJournal) {
+			return JOURNAL_UNAVAILABLE;
+		}
+
+		if (typeof id !== "number" || !Number.isInteger(id)) {
+			return {
+				content: [{ type: "text", text: "Error: id must be an integer." }],
+				isError: true,
+			};
+		}
+
+		return toRevertResult(await context.editJournal.revert(id, context, force));
+	},
+};
+
+/**
+ * Get all built-in journal tools
+ */
+export function getBuiltinJournalTools(): MCPToolDefinition[] {
+	return [listEditsTool, undoLastEditTool, revertEditTool];
+}
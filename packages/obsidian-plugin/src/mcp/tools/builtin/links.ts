@@ -0,0 +1,317 @@
+import { CachedMetadata, parseLinktext, ReferenceCache, TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { getBodyLineOffset, normalizeNotePath } from "../helpers/vault-helper";
+
+type LinksMode = "note" | "graph";
+type GraphDirection = "out" | "in" | "both";
+
+interface LinkEntry {
+	link: string;
+	target: string | null;
+	subpath: string;
+	display: string;
+	line: number;
+}
+
+interface BacklinkEntry {
+	source: string;
+	link: string;
+	line: number;
+	text: string;
+}
+
+interface GraphNode {
+	path: string;
+	distance: number;
+}
+
+interface GraphEdge {
+	source: string;
+	target: string;
+	count: number;
+}
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 5;
+const DEFAULT_MAX_NODES = 200;
+
+function toLinkEntry(
+	reference: ReferenceCache,
+	sourcePath: string,
+	lineOffset: number,
+	context: AppContext,
+): LinkEntry {
+	const { path, subpath } = parseLinktext(reference.link);
+	const resolved = path
+		? context.app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+		: null;
+	return {
+		link: reference.link,
+		// A bare "#heading" link points at the source note itself
+		target: path ? resolved?.path ?? null : sourcePath,
+		subpath: subpath.replace(/^#/, ""),
+		display: reference.displayText ?? reference.link,
+		line: reference.position.start.line - lineOffset + 1,
+	};
+}
+
+function collectReferences(cache: CachedMetadata | null): { links: ReferenceCache[]; embeds: ReferenceCache[] } {
+	return {
+		links: cache?.links ?? [],
+		embeds: cache?.embeds ?? [],
+	};
+}
+
+async function collectBacklinks(file: TFile, context: AppContext): Promise<BacklinkEntry[]> {
+	const backlinks: BacklinkEntry[] = [];
+	const resolvedLinks = context.app.metadataCache.resolvedLinks;
+	const sources = Object.keys(resolvedLinks)
+		.filter((source) => source !== file.path && (resolvedLinks[source]?.[file.path] ?? 0) > 0)
+		.sort((a, b) => a.localeCompare(b));
+
+	for (const sourcePath of sources) {
+		const sourceFile = context.vault.getAbstractFileByPath(sourcePath);
+		if (!(sourceFile instanceof TFile)) {
+			continue;
+		}
+		const cache = context.app.metadataCache.getFileCache(sourceFile);
+		const lineOffset = getBodyLineOffset(cache);
+		const { links, embeds } = collectReferences(cache);
+		const references = [...links, ...embeds]
+			.map((reference) => ({ reference, entry: toLinkEntry(reference, sourcePath, lineOffset, context) }))
+			.filter(({ entry }) => entry.target === file.path)
+			.sort((a, b) => a.reference.position.start.offset - b.reference.position.start.offset);
+		if (references.length === 0) {
+			continue;
+		}
+
+		const lines = (await context.vault.cachedRead(sourceFile)).split(/\r?\n/);
+		for (const { reference, entry } of references) {
+			backlinks.push({
+				source: sourcePath,
+				link: entry.link,
+				line: entry.line,
+				text: (lines[reference.position.start.line] ?? "").trim(),
+			});
+		}
+	}
+
+	return backlinks;
+}
+
+function buildGraph(
+	startPath: string,
+	depth: number,
+	direction: GraphDirection,
+	maxNodes: number,
+	context: AppContext,
+): { nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean } {
+	const resolvedLinks = context.app.metadataCache.resolvedLinks;
+	const incoming = new Map<string, Set<string>>();
+	for (const [source, targets] of Object.entries(resolvedLinks)) {
+		for (const target of Object.keys(targets)) {
+			const sources = incoming.get(target) ?? new Set<string>();
+			sources.add(source);
+			incoming.set(target, sources);
+		}
+	}
+
+	const distances = new Map<string, number>([[startPath, 0]]);
+	let frontier = [startPath];
+	let truncated = false;
+
+	for (let distance = 1; distance <= depth && frontier.length > 0; distance += 1) {
+		const nextFrontier: string[] = [];
+		for (const path of frontier) {
+			const neighbours = new Set<string>();
+			if (direction !== "in") {
+				Object.keys(resolvedLinks[path] ?? {}).forEach((target) => neighbours.add(target));
+			}
+			if (direction !== "out") {
+				incoming.get(path)?.forEach((source) => neighbours.add(source));
+			}
+			for (const neighbour of Array.from(neighbours).sort((a, b) => a.localeCompare(b))) {
+				if (distances.has(neighbour)) {
+					continue;
+				}
+				if (distances.size >= maxNodes) {
+					truncated = true;
+					break;
+				}
+				distances.set(neighbour, distance);
+				nextFrontier.push(neighbour);
+			}
+		}
+		frontier = nextFrontier;
+	}
+
+	const nodes = Array.from(distances.entries())
+		.map(([path, distance]) => ({ path, distance }))
+		.sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path));
+
+	const edges: GraphEdge[] = [];
+	for (const source of distances.keys()) {
+		for (const [target, count] of Object.entries(resolvedLinks[source] ?? {})) {
+			if (distances.has(target) && source !== target) {
+				edges.push({ source, target, count });
+			}
+		}
+	}
+	edges.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+
+	return { nodes, edges, truncated };
+}
+
+/**
+ * Built-in tool: get_links
+ * Returns the link structure around a note from the metadata cache
+ */
+export const getLinksTool: MCPToolDefinition = {
+	name: "get_links",
+	description:
+		"Get outgoing links, embeds, unresolved links and backlinks of a note, or the N-hop link neighbourhood around it (mode=graph). Line numbers are relative to the markdown body (frontmatter excluded).",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			mode: {
+				type: "string",
+				enum: ["note", "graph"],
+				description: "note: links of this note. graph: nodes and edges of the neighbourhood. Default: note.",
+				default: "note",
+			},
+			include_backlinks: {
+				type: "boolean",
+				description: "When mode=note, include backlinks with their source line. Default: true.",
+				default: true,
+			},
+			depth: {
+				type: "number",
+				description: `When mode=graph, number of hops to follow (1-${MAX_DEPTH}). Default: ${DEFAULT_DEPTH}.`,
+				default: DEFAULT_DEPTH,
+			},
+			direction: {
+				type: "string",
+				enum: ["out", "in", "both"],
+				description: "When mode=graph, which links to follow. Default: both.",
+				default: "both",
+			},
+			max_nodes: {
+				type: "number",
+				description: `When mode=graph, maximum number of nodes returned. Default: ${DEFAULT_MAX_NODES}.`,
+				default: DEFAULT_MAX_NODES,
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const mode = (typeof args.mode === "string" ? args.mode : "note") as LinksMode;
+		const includeBacklinks = args.include_backlinks !== false;
+		const depth = typeof args.depth === "number" ? args.depth : DEFAULT_DEPTH;
+		const direction = (typeof args.direction === "string" ? args.direction : "both") as GraphDirection;
+		const maxNodes = typeof args.max_nodes === "number" ? args.max_nodes : DEFAULT_MAX_NODES;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!["note", "graph"].includes(mode)) {
+			return {
+				content: [{ type: "text", text: "Error: mode must be \"note\" or \"graph\"." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(depth) || depth < 1 || depth > MAX_DEPTH) {
+			return {
+				content: [{ type: "text", text: `Error: depth must be an integer between 1 and ${MAX_DEPTH}.` }],
+				isError: true,
+			};
+		}
+
+		if (!["out", "in", "both"].includes(direction)) {
+			return {
+				content: [{ type: "text", text: "Error: direction must be one of \"out\", \"in\", or \"both\"." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+			return {
+				content: [{ type: "text", text: "Error: max_nodes must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			if (mode === "graph") {
+				const graph = buildGraph(file.path, depth, direction, maxNodes, context);
+				return {
+					content: [{ type: "text", text: JSON.stringify({ path: file.path, depth, direction, ...graph }, null, 2) }],
+				};
+			}
+
+			const cache = context.app.metadataCache.getFileCache(file);
+			const lineOffset = getBodyLineOffset(cache);
+			const { links, embeds } = collectReferences(cache);
+			const outgoing = links.map((link) => toLinkEntry(link, file.path, lineOffset, context));
+			const embedEntries = embeds.map((embed) => toLinkEntry(embed, file.path, lineOffset, context));
+			const unresolved = [...outgoing, ...embedEntries]
+				.filter((entry) => entry.target === null)
+				.sort((a, b) => a.line - b.line);
+
+			const payload: Record<string, unknown> = {
+				path: file.path,
+				links: outgoing,
+				embeds: embedEntries,
+				unresolved,
+			};
+			if (includeBacklinks) {
+				payload.backlinks = await collectBacklinks(file, context);
+			}
+
+			return {
+				content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error reading links: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in link tools
+ */
+export function getBuiltinLinkTools(): MCPToolDefinition[] {
+	return [getLinksTool];
+}
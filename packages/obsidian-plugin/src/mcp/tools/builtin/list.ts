@@ -0,0 +1,227 @@
+import { TFile, TFolder } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import {
+	buildNextCursor,
+	compileGlobs,
+	getNoteTags,
+	isPathInFolder,
+	matchesGlobs,
+	normalizeFolderPath,
+	parseCursor,
+} from "../helpers/vault-helper";
+
+type ListSortKey = "path" | "mtime" | "ctime" | "size";
+type SortOrder = "asc" | "desc";
+
+interface NoteListEntry {
+	path: string;
+	size: number;
+	ctime: number;
+	mtime: number;
+	tags: string[];
+	frontmatter_keys?: string[];
+}
+
+const DEFAULT_LIMIT = 100;
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+function compareEntries(a: NoteListEntry, b: NoteListEntry, sortBy: ListSortKey): number {
+	if (sortBy === "path") {
+		return a.path.localeCompare(b.path);
+	}
+	return a[sortBy] - b[sortBy] || a.path.localeCompare(b.path);
+}
+
+/**
+ * Built-in tool: list_notes
+ * Lists markdown notes in a folder with file metadata
+ */
+export const listNotesTool: MCPToolDefinition = {
+	name: "list_notes",
+	description:
+		"List markdown notes in a folder with size, creation/modification times and tags. One-level listings also return direct subfolders.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			folder: {
+				type: "string",
+				description: "Folder to list. Defaults to the vault root.",
+			},
+			recursive: {
+				type: "boolean",
+				description: "When true, include notes in all subfolders. Default: true.",
+				default: true,
+			},
+			include: {
+				type: "array",
+				items: { type: "string" },
+				description: "Glob patterns matched against vault paths (e.g. 'Projects/**/*.md'). Notes must match at least one.",
+			},
+			exclude: {
+				type: "array",
+				items: { type: "string" },
+				description: "Glob patterns matched against vault paths. Matching notes are skipped.",
+			},
+			include_frontmatter_keys: {
+				type: "boolean",
+				description: "When true, include the frontmatter property names of each note. Default: false.",
+				default: false,
+			},
+			sort_by: {
+				type: "string",
+				enum: ["path", "mtime", "ctime", "size"],
+				description: "Sort key. Default: path.",
+				default: "path",
+			},
+			order: {
+				type: "string",
+				enum: ["asc", "desc"],
+				description: "Sort order. Default: asc.",
+				default: "asc",
+			},
+			limit: {
+				type: "number",
+				description: `Maximum number of notes per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "Cursor returned as next_cursor by a previous call.",
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const recursive = args.recursive !== false;
+		const include = args.include ?? [];
+		const exclude = args.exclude ?? [];
+		const includeFrontmatterKeys = args.include_frontmatter_keys === true;
+		const sortBy = (typeof args.sort_by === "string" ? args.sort_by : "path") as ListSortKey;
+		const order = (typeof args.order === "string" ? args.order : "asc") as SortOrder;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (!isStringArray(include) || !isStringArray(exclude)) {
+			return {
+				content: [{ type: "text", text: "Error: include and exclude must be arrays of strings." }],
+				isError: true,
+			};
+		}
+
+		if (!["path", "mtime", "ctime", "size"].includes(sortBy)) {
+			return {
+				content: [{ type: "text", text: "Error: sort_by must be one of \"path\", \"mtime\", \"ctime\", or \"size\"." }],
+				isError: true,
+			};
+		}
+
+		if (!["asc", "desc"].includes(order)) {
+			return {
+				content: [{ type: "text", text: "Error: order must be \"asc\" or \"desc\"." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		const folderFile = folder ? context.vault.getAbstractFileByPath(folder) : context.vault.getRoot();
+		if (!folderFile) {
+			return {
+				content: [{ type: "text", text: `Error: Folder not found at path "${folder}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(folderFile instanceof TFolder)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${folder}" is a note, not a folder` }],
+				isError: true,
+			};
+		}
+
+		const includeRegexes = compileGlobs(include);
+		if ("error" in includeRegexes) {
+			return {
+				content: [{ type: "text", text: includeRegexes.error }],
+				isError: true,
+			};
+		}
+		const excludeRegexes = compileGlobs(exclude);
+		if ("error" in excludeRegexes) {
+			return {
+				content: [{ type: "text", text: excludeRegexes.error }],
+				isError: true,
+			};
+		}
+
+		const entries: NoteListEntry[] = context.vault
+			.getMarkdownFiles()
+			.filter((file: TFile) =>
+				recursive ? isPathInFolder(file.path, folder) : getParentPath(file.path) === folder,
+			)
+			.filter((file: TFile) => matchesGlobs(file.path, includeRegexes, excludeRegexes))
+			.map((file: TFile) => {
+				const cache = context.app.metadataCache.getFileCache(file);
+				const entry: NoteListEntry = {
+					path: file.path,
+					size: file.stat.size,
+					ctime: file.stat.ctime,
+					mtime: file.stat.mtime,
+					tags: getNoteTags(cache),
+				};
+				if (includeFrontmatterKeys) {
+					entry.frontmatter_keys = Object.keys(cache?.frontmatter ?? {}).filter((key) => key !== "position");
+				}
+				return entry;
+			});
+
+		entries.sort((a, b) => (order === "asc" ? 1 : -1) * compareEntries(a, b, sortBy));
+
+		const page = entries.slice(offset, offset + limit);
+		const payload: Record<string, unknown> = {
+			folder,
+			recursive,
+			total: entries.length,
+			notes: page,
+			next_cursor: buildNextCursor(offset + page.length, entries.length),
+		};
+
+		if (!recursive) {
+			payload.folders = folderFile.children
+				.filter((child): child is TFolder => child instanceof TFolder)
+				.map((child) => child.path)
+				.sort((a, b) => a.localeCompare(b));
+		}
+
+		return {
+			content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+		};
+	},
+};
+
+/**
+ * Get all built-in listing tools
+ */
+export function getBuiltinListTools(): MCPToolDefinition[] {
+	return [listNotesTool];
+}
@@ -0,0 +1,209 @@
+import { normalizePath, TAbstractFile, TFile, TFolder } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { isPathInFolder, normalizeNotePath } from "../helpers/vault-helper";
+import { getVaultConfig } from "../../utils/plugin-access";
+import { recordEdit } from "../helpers/journal-helper";
+
+interface MovedFile {
+	from: string;
+	to: string;
+}
+
+interface AffectedFile {
+	path: string;
+	link_count: number;
+}
+
+function resolveSource(path: string, context: AppContext): TAbstractFile | null {
+	const exact = context.vault.getAbstractFileByPath(normalizePath(path));
+	if (exact) {
+		return exact;
+	}
+	return context.vault.getAbstractFileByPath(normalizeNotePath(path));
+}
+
+function resolveDestination(source: TAbstractFile, destination: string): string {
+	const normalized = normalizePath(destination);
+	if (source instanceof TFile && source.extension === "md" && !normalized.toLowerCase().endsWith(".md")) {
+		return `${normalized}.md`;
+	}
+	return normalized;
+}
+
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+function collectMovedFiles(source: TAbstractFile, destination: string, context: AppContext): MovedFile[] {
+	if (source instanceof TFile) {
+		return [{ from: source.path, to: destination }];
+	}
+	return context.vault
+		.getFiles()
+		.filter((file) => isPathInFolder(file.path, source.path))
+		.map((file) => ({ from: file.path, to: `${destination}${file.path.slice(source.path.length)}` }))
+		.sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Lists every note that links to one of the moved files, i.e. every note whose links
+ * Obsidian rewrites when "Automatically update internal links" is enabled.
+ */
+function collectAffectedFiles(movedFiles: MovedFile[], context: AppContext): AffectedFile[] {
+	const movedPaths = new Set(movedFiles.map((file) => file.from));
+	const affected: AffectedFile[] = [];
+	for (const [sourcePath, targets] of Object.entries(context.app.metadataCache.resolvedLinks)) {
+		let linkCount = 0;
+		for (const [targetPath, count] of Object.entries(targets)) {
+			if (movedPaths.has(targetPath)) {
+				linkCount += count;
+			}
+		}
+		if (linkCount > 0) {
+			affected.push({ path: sourcePath, link_count: linkCount });
+		}
+	}
+	return affected.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Built-in tool: move_note
+ * Moves or renames a note or folder through Obsidian's file manager
+ */
+export const moveNoteTool: MCPToolDefinition = {
+	name: "move_note",
+	description:
+		"Move or rename a note or folder. Links in other notes are rewritten when Obsidian's \"Automatically update internal links\" setting is enabled. Use dry_run to list the files whose links would change.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path of the note or folder to move. The .md extension is optional for notes.",
+			},
+			new_path: {
+				type: "string",
+				description: "Destination path. For notes, the .md extension is optional.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, report what would change without moving anything. Default: false.",
+				default: false,
+			},
+			create_folders: {
+				type: "boolean",
+				description: "Create the destination parent folder when it does not exist. Default: true.",
+				default: true,
+			},
+		},
+		required: ["path", "new_path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const newPath = typeof args.new_path === "string" ? args.new_path : "";
+		const dryRun = args.dry_run === true;
+		const createFolders = args.create_folders !== false;
+
+		if (path.trim().length === 0 || newPath.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path and new_path are required." }],
+				isError: true,
+			};
+		}
+
+		const source = resolveSource(path, context);
+		if (!source || (!(source instanceof TFile) && !(source instanceof TFolder))) {
+			return {
+				content: [{ type: "text", text: `Error: Note or folder not found at path "${normalizePath(path)}"` }],
+				isError: true,
+			};
+		}
+
+		const destination = resolveDestination(source, newPath);
+		if (destination === source.path) {
+			return {
+				content: [{ type: "text", text: "Error: new_path is the same as the current path." }],
+				isError: true,
+			};
+		}
+
+		if (source instanceof TFolder && (source.path === "" || isPathInFolder(destination, source.path))) {
+			return {
+				content: [{ type: "text", text: "Error: A folder cannot be moved into itself." }],
+				isError: true,
+			};
+		}
+
+		if (context.vault.getAbstractFileByPath(destination)) {
+			return {
+				content: [{ type: "text", text: `Error: A file or folder already exists at "${destination}"` }],
+				isError: true,
+			};
+		}
+
+		const parentPath = getParentPath(destination);
+		const parentExists = parentPath === "" || context.vault.getAbstractFileByPath(parentPath) instanceof TFolder;
+		if (!parentExists && !createFolders) {
+			return {
+				content: [{ type: "text", text: `Error: Destination folder "${parentPath}" does not exist. Set create_folders=true to create it.` }],
+				isError: true,
+			};
+		}
+
+		const movedFiles = collectMovedFiles(source, destination, context);
+		const affectedFiles = collectAffectedFiles(movedFiles, context);
+		const linksUpdated = getVaultConfig(context.app, "alwaysUpdateLinks") === true;
+		const report = {
+			from: source.path,
+			to: destination,
+			type: source instanceof TFile ? "note" : "folder",
+			dry_run: dryRun,
+			links_updated: linksUpdated,
+			created_folder: parentExists ? null : parentPath,
+			moved_files: movedFiles,
+			affected_files: affectedFiles,
+		};
+
+		if (dryRun) {
+			return {
+				content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+			};
+		}
+
+		try {
+			if (!parentExists) {
+				await context.vault.createFolder(parentPath);
+			}
+			const sourcePath = source.path;
+			await context.app.fileManager.renameFile(source, destination);
+			await recordEdit(context, {
+				tool: "move_note",
+				action: "move",
+				path: destination,
+				previousPath: sourcePath,
+				before: null,
+				after: null,
+			});
+
+			return {
+				content: [{ type: "text", text: JSON.stringify({ ok: true, ...report }, null, 2) }],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error moving "${source.path}": ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in move tools
+ */
+export function getBuiltinMoveTools(): MCPToolDefinition[] {
+	return [moveNoteTool];
+}
@@ -1,8 +1,9 @@
 import { normalizePath, TFile } from "obsidian";
 import { MCPToolDefinition, MCPToolResult } from "../types";
 import { extractHeadingsFromCodeBlocks, extractHeadingsWithPositions, getFrontmatterLineRange } from "../helpers/markdown-helper";
+import { computeContentVersion } from "../helpers/version-helper";
 
-interface OutlineItem {
+export interface OutlineItem {
 	heading: string;
 	level: number;
 	start_line: number;
@@ -20,7 +21,7 @@ function hashOutlineId(value: string): string {
 	return (hash >>> 0).toString(16).padStart(8, "0");
 }
 
-function buildOutline(markdown: string, options: {
+export function buildOutline(markdown: string, options: {
 	maxDepth?: number;
 	includeFrontmatter: boolean;
 	includeCodeblocks: boolean;
@@ -139,7 +140,7 @@ export const getNoteOutlineTool: MCPToolDefinition = {
 			return {
 				content: [{
 					type: "text",
-					text: JSON.stringify({ outline }, null, 2)
+					text: JSON.stringify({ outline, version: computeContentVersion(content) }, null, 2)
 				}]
 			};
 		} catch (error) {
@@ -0,0 +1,230 @@
+import { moment, normalizePath, TFile, TFolder } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { getInternalPluginOptions, getPlugin } from "../../utils/plugin-access";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { parseDateExpression } from "../helpers/query-helper";
+import { renderTemplate } from "../helpers/template-helper";
+import { computeContentVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type Period = "daily" | "weekly" | "monthly";
+
+type SettingsSource = "periodic-notes" | "daily-notes" | "default";
+
+interface PeriodSettings {
+	folder: string;
+	format: string;
+	template: string;
+	source: SettingsSource;
+}
+
+const PERIODS: Period[] = ["daily", "weekly", "monthly"];
+const DAILY_NOTES_PLUGIN_ID = "daily-notes";
+const PERIODIC_NOTES_PLUGIN_ID = "periodic-notes";
+
+const DEFAULT_FORMATS: Record<Period, string> = {
+	daily: "YYYY-MM-DD",
+	weekly: "gggg-[W]ww",
+	monthly: "YYYY-MM",
+};
+
+const PERIOD_UNITS: Record<Period, { startOf: "day" | "week" | "month"; add: "days" | "weeks" | "months" }> = {
+	daily: { startOf: "day", add: "days" },
+	weekly: { startOf: "week", add: "weeks" },
+	monthly: { startOf: "month", add: "months" },
+};
+
+function readString(value: unknown): string {
+	return typeof value === "string" ? value.trim() : "";
+}
+
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.slice(0, slashIndex);
+}
+
+/**
+ * Looks up folder, filename format and template for a period. The Periodic Notes plugin
+ * wins when it has the period enabled; daily notes fall back to the Daily Notes core plugin.
+ */
+function getPeriodSettings(period: Period, context: AppContext): PeriodSettings {
+	const periodicNotes = getPlugin(context.app, PERIODIC_NOTES_PLUGIN_ID) as
+		| { settings?: Partial<Record<Period, { enabled?: boolean; folder?: unknown; format?: unknown; template?: unknown }>> }
+		| undefined;
+	const periodic = periodicNotes?.settings?.[period];
+	if (periodic?.enabled) {
+		return {
+			folder: readString(periodic.folder),
+			format: readString(periodic.format) || DEFAULT_FORMATS[period],
+			template: readString(periodic.template),
+			source: "periodic-notes",
+		};
+	}
+
+	if (period === "daily") {
+		const dailyNotes = getInternalPluginOptions(context.app, DAILY_NOTES_PLUGIN_ID);
+		if (dailyNotes) {
+			return {
+				folder: readString(dailyNotes.folder),
+				format: readString(dailyNotes.format) || DEFAULT_FORMATS.daily,
+				template: readString(dailyNotes.template),
+				source: "daily-notes",
+			};
+		}
+	}
+
+	return { folder: "", format: DEFAULT_FORMATS[period], template: "", source: "default" };
+}
+
+/**
+ * Built-in tool: periodic_note
+ * Resolves and optionally creates daily, weekly and monthly notes
+ */
+export const periodicNoteTool: MCPToolDefinition = {
+	name: "periodic_note",
+	description:
+		"Resolve the daily, weekly or monthly note for a date, using the folder, filename format and template configured in the Periodic Notes plugin or the Daily Notes core plugin. With create=true, a missing note is created from the configured template. Returns the path and whether the note exists or was created.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			period: {
+				type: "string",
+				enum: PERIODS,
+				description: "Which periodic note to resolve. Default: daily.",
+				default: "daily",
+			},
+			date: {
+				type: "string",
+				description: "Date inside the period: YYYY-MM-DD or relative (today, today-1d, today+1w). Default: today.",
+				default: "today",
+			},
+			offset: {
+				type: "number",
+				description: "Number of periods to move from date, e.g. -1 for yesterday's daily note or last week's weekly note. Default: 0.",
+				default: 0,
+			},
+			create: {
+				type: "boolean",
+				description: "Create the note (and its folder) from the configured template when it does not exist. Default: false.",
+				default: false,
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const period = (typeof args.period === "string" ? args.period : "daily") as Period;
+		const dateInput = typeof args.date === "string" && args.date.trim().length > 0 ? args.date : "today";
+		const offset = typeof args.offset === "number" ? args.offset : 0;
+		const create = args.create === true;
+
+		if (!PERIODS.includes(period)) {
+			return {
+				content: [{ type: "text", text: `Error: period must be one of ${PERIODS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(offset)) {
+			return {
+				content: [{ type: "text", text: "Error: offset must be an integer." }],
+				isError: true,
+			};
+		}
+
+		const timestamp = parseDateExpression(dateInput);
+		if (timestamp === null) {
+			return {
+				content: [{ type: "text", text: "Error: date must be a date (YYYY-MM-DD) or a relative date such as today-1d." }],
+				isError: true,
+			};
+		}
+
+		const settings = getPeriodSettings(period, context);
+		const units = PERIOD_UNITS[period];
+		const periodStart = moment(timestamp).startOf(units.startOf).add(offset, units.add);
+		const basename = periodStart.format(settings.format);
+		const folder = settings.folder ? normalizePath(settings.folder) : "";
+		const path = normalizeNotePath(folder ? `${folder}/${basename}` : basename);
+		const report = {
+			period,
+			date: periodStart.format("YYYY-MM-DD"),
+			path,
+			settings_source: settings.source,
+			format: settings.format,
+			template: settings.template || null,
+		};
+
+		const existing = context.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return {
+				content: [{ type: "text", text: JSON.stringify({ ...report, status: "existing" }, null, 2) }],
+			};
+		}
+
+		if (existing) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${path}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		if (!create) {
+			return {
+				content: [{ type: "text", text: JSON.stringify({ ...report, status: "missing" }, null, 2) }],
+			};
+		}
+
+		try {
+			let content = "";
+			if (settings.template) {
+				const templatePath = normalizeNotePath(settings.template);
+				const templateFile = context.vault.getAbstractFileByPath(templatePath);
+				if (!(templateFile instanceof TFile)) {
+					return {
+						content: [{ type: "text", text: `Error: Template not found at path "${templatePath}"` }],
+						isError: true,
+					};
+				}
+				content = renderTemplate(await context.vault.read(templateFile), {
+					title: basename.split("/").pop() ?? basename,
+					date: periodStart,
+					dateFormat: settings.format,
+				});
+			}
+
+			const parentPath = getParentPath(path);
+			if (parentPath && !(context.vault.getAbstractFileByPath(parentPath) instanceof TFolder)) {
+				await context.vault.createFolder(parentPath);
+			}
+			await context.vault.create(path, content);
+			await recordEdit(context, {
+				tool: "periodic_note",
+				action: "create",
+				path,
+				before: null,
+				after: content,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({ ...report, status: "created", version: computeContentVersion(content) }, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error creating periodic note: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in periodic note tools
+ */
+export function getBuiltinPeriodicNoteTools(): MCPToolDefinition[] {
+	return [periodicNoteTool];
+}
@@ -1,78 +1,36 @@
-import { normalizePath, TFile } from "obsidian";
+import { CachedMetadata, normalizePath, TFile } from "obsidian";
 import { MCPToolDefinition, MCPToolResult } from "../types";
 import {
 	extractHeadingsWithPositions,
 	HeadingPosition,
 	splitFrontmatter,
 } from "../helpers/markdown-helper";
-
-interface ObsidianLinkParts {
-	linkPath: string;
-	subpath: string;
-	displayText: string;
-}
+import { computeContentVersion } from "../helpers/version-helper";
+import { buildNextCursor, getBodyLineOffset, parseCursor } from "../helpers/vault-helper";
+import {
+	DEFAULT_EMBED_DEPTH,
+	expandEmbeds,
+	MAX_EMBED_CHARS,
+	MAX_EMBED_DEPTH,
+	resolveVaultLinks,
+} from "../helpers/link-helper";
 
 type ReadSectionMode = "header" | "content" | "both";
 
-interface SectionLine {
-	lineNumber: number;
-	text: string;
+interface BodyRange {
+	startIndex: number;
+	endIndex: number;
 }
 
-function parseObsidianLink(rawLink: string): ObsidianLinkParts {
-	const [targetRaw, displayRaw] = rawLink.split("|");
-	const target = targetRaw?.trim() ?? "";
-	const displayText = displayRaw?.trim() ?? "";
-
-	const hashIndex = target.indexOf("#");
-	if (hashIndex === -1) {
-		return {
-			linkPath: target,
-			subpath: "",
-			displayText,
-		};
-	}
-
-	return {
-		linkPath: target.slice(0, hashIndex).trim(),
-		subpath: target.slice(hashIndex + 1).trim(),
-		displayText,
-	};
+interface ContentPage {
+	content: string;
+	truncated: boolean;
+	next_cursor?: string;
 }
 
-function resolveVaultLinks(
-	markdown: string,
-	sourceFilePath: string,
-	context: Parameters<MCPToolDefinition["handler"]>[1],
-): string {
-	return markdown.replace(
-		/(!)?\[\[([^\]\n]+)\]\]/g,
-		(match, embedPrefix, rawLink: string) => {
-			const { linkPath, subpath, displayText } =
-				parseObsidianLink(rawLink);
-			if (!linkPath) {
-				return match;
-			}
-
-			const resolvedFile = context.app.metadataCache.getFirstLinkpathDest(
-				linkPath,
-				sourceFilePath,
-			);
-			if (!resolvedFile) {
-				return match;
-			}
-
-			const label = displayText || resolvedFile.basename || linkPath;
-			const anchorSuffix = subpath ? `#${subpath}` : "";
-			const resolvedPath = `${resolvedFile.path}${anchorSuffix}`;
-
-			if (embedPrefix) {
-				return `![${label}](${resolvedPath})`;
-			}
-
-			return `[${label}](${resolvedPath})`;
-		},
-	);
+interface SectionLine {
+	lineNumber: number;
+	text: string;
 }
 
 function extractSectionContent(
@@ -81,7 +39,6 @@ function extractSectionContent(
 	level: number | undefined,
 	mode: ReadSectionMode,
 	includeSubsections: boolean,
-	maxChars: number | undefined,
 	withLineNumbers: boolean,
 ):
 	| {
@@ -90,7 +47,6 @@ function extractSectionContent(
 			content: string;
 			start_line: number;
 			end_line: number;
-			truncated: boolean;
 	  }
 	| { error: string } {
 	const lines = body.split("\n");
@@ -189,23 +145,65 @@ function extractSectionContent(
 		output = [headerLine, ...baseContentLines].map(formatLine).join("\n");
 	}
 
-	let truncated = false;
-	if (
-		typeof maxChars === "number" &&
-		maxChars >= 0 &&
-		output.length > maxChars
-	) {
-		output = output.slice(0, maxChars);
-		truncated = true;
-	}
-
 	return {
 		title: selected.text,
 		level: selected.level,
 		content: output,
 		start_line: selected.lineNumber,
 		end_line: rangeEnd + 1,
-		truncated,
+	};
+}
+
+/**
+ * Resolves the body line range of a `^block-id` from the metadata cache.
+ * Cache positions cover the whole file, so they are shifted by the frontmatter lines.
+ */
+function findBlockRange(
+	cache: CachedMetadata | null,
+	blockId: string,
+): BodyRange | { error: string } {
+	const block = cache?.blocks?.[blockId] ?? cache?.blocks?.[blockId.toLowerCase()];
+	if (!block) {
+		return { error: `Error: Block "^${blockId}" not found.` };
+	}
+	const lineOffset = getBodyLineOffset(cache);
+	return {
+		startIndex: block.position.start.line - lineOffset,
+		endIndex: block.position.end.line - lineOffset,
+	};
+}
+
+function formatBodyRange(
+	lines: string[],
+	range: BodyRange,
+	withLineNumbers: boolean,
+): string {
+	return lines
+		.slice(range.startIndex, range.endIndex + 1)
+		.map((text, index) =>
+			withLineNumbers ? `${range.startIndex + index + 1}: ${text}` : text,
+		)
+		.join("\n");
+}
+
+/**
+ * Returns one page of the formatted output.
+ * Pages are plain character windows over the output, so the same cursor always
+ * returns the same text as long as the note version is unchanged.
+ */
+function paginateContent(
+	output: string,
+	offset: number,
+	maxChars: number | undefined,
+): ContentPage {
+	if (maxChars === undefined) {
+		return { content: output.slice(offset), truncated: false };
+	}
+	const end = offset + maxChars;
+	return {
+		content: output.slice(offset, end),
+		truncated: end < output.length,
+		next_cursor: maxChars > 0 ? buildNextCursor(end, output.length) : undefined,
 	};
 }
 
@@ -216,7 +214,7 @@ function extractSectionContent(
 export const readNoteTool: MCPToolDefinition = {
 	name: "read_note",
 	description:
-		"Read a section from a note by heading, excluding frontmatter.",
+		"Read a note body, excluding frontmatter unless requested: a section by heading, a line range (start_line/end_line), a ^block-id, or the whole body when none is given. Long output can be paged with max_chars and cursor. Returns the note version for use as expected_version in write tools.",
 	inputSchema: {
 		type: "object",
 		properties: {
@@ -227,17 +225,34 @@ export const readNoteTool: MCPToolDefinition = {
 			},
 			section: {
 				type: "string",
-				description: "Heading text to match exactly.",
+				description: "Heading text to match exactly. Omit to read the whole body, a line range or a block.",
 			},
 			level: {
 				type: "number",
 				description:
 					"Heading level (1-6). If omitted, the first matching heading is used.",
 			},
+			start_line: {
+				type: "number",
+				description: "First body line to return (1-based). Cannot be combined with section or block_id.",
+			},
+			end_line: {
+				type: "number",
+				description: "Last body line to return (inclusive). Defaults to the last line.",
+			},
+			block_id: {
+				type: "string",
+				description: "Block id to read (e.g. '^abc123' or 'abc123'). Returns the block that carries the id.",
+			},
+			include_frontmatter: {
+				type: "boolean",
+				description: "When true, also return the raw frontmatter block as frontmatter. Default: false.",
+				default: false,
+			},
 			mode: {
 				type: "string",
 				enum: ["header", "content", "both"],
-				description: "Which part of the section to return.",
+				description: "Which part of the section to return. Only used with section.",
 				default: "both",
 			},
 			include_subsections: {
@@ -249,7 +264,11 @@ export const readNoteTool: MCPToolDefinition = {
 			max_chars: {
 				type: "number",
 				description:
-					"Optional maximum number of characters in the returned content.",
+					"Optional maximum number of characters in the returned content. When the content is cut, next_cursor continues it.",
+			},
+			cursor: {
+				type: "string",
+				description: "Cursor returned as next_cursor by a previous call with the same arguments.",
 			},
 			with_line_numbers: {
 				type: "boolean",
@@ -257,25 +276,120 @@ export const readNoteTool: MCPToolDefinition = {
 					"When true, prefixes each returned line with its markdown body line number.",
 				default: false,
 			},
+			expand_embeds: {
+				type: "boolean",
+				description:
+					`When true, inline the content of embedded notes, headings (![[note#heading]]) and blocks (![[note#^id]]). Inlined lines are not numbered. At most ${MAX_EMBED_CHARS} characters are inlined; embeds beyond that stay links and are reported in transclusion.skipped with reason "size". Default: false.`,
+				default: false,
+			},
+			embed_depth: {
+				type: "number",
+				description: `Maximum nesting depth when expand_embeds is true (1-${MAX_EMBED_DEPTH}). Default: ${DEFAULT_EMBED_DEPTH}.`,
+				default: DEFAULT_EMBED_DEPTH,
+			},
 		},
-		required: ["path", "section"],
+		required: ["path"],
 	},
 	handler: async (args, context): Promise<MCPToolResult> => {
 		const path = args.path as string;
-		const section = args.section as string;
+		const section = typeof args.section === "string" ? args.section : undefined;
+		const startLine = typeof args.start_line === "number" ? args.start_line : undefined;
+		const endLine = typeof args.end_line === "number" ? args.end_line : undefined;
+		const blockId = typeof args.block_id === "string" ? args.block_id.trim().replace(/^\^/, "") : undefined;
+		const includeFrontmatter = args.include_frontmatter === true;
 		const level = typeof args.level === "number" ? args.level : undefined;
 		const mode = (args.mode as ReadSectionMode | undefined) ?? "both";
 		const includeSubsections = args.include_subsections !== false;
 		const maxChars =
 			typeof args.max_chars === "number" ? args.max_chars : undefined;
 		const withLineNumbers = args.with_line_numbers === true;
+		const offset = parseCursor(args.cursor);
+		const expandEmbedsEnabled = args.expand_embeds === true;
+		const embedDepth = typeof args.embed_depth === "number" ? args.embed_depth : DEFAULT_EMBED_DEPTH;
+
+		if (section !== undefined && section.trim().length === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "Error: section must not be empty.",
+					},
+				],
+				isError: true,
+			};
+		}
+
+		if (blockId !== undefined && blockId.length === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "Error: block_id must not be empty.",
+					},
+				],
+				isError: true,
+			};
+		}
 
-		if (!section || section.trim().length === 0) {
+		const hasLineRange = startLine !== undefined || endLine !== undefined;
+		const selectorCount = [section !== undefined, hasLineRange, blockId !== undefined].filter(Boolean).length;
+		if (selectorCount > 1) {
 			return {
 				content: [
 					{
 						type: "text",
-						text: "Error: section is required.",
+						text: "Error: Use only one of section, start_line/end_line, or block_id.",
+					},
+				],
+				isError: true,
+			};
+		}
+
+		if (
+			(startLine !== undefined && (!Number.isInteger(startLine) || startLine < 1)) ||
+			(endLine !== undefined && (!Number.isInteger(endLine) || endLine < 1))
+		) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "Error: start_line and end_line must be integers >= 1.",
+					},
+				],
+				isError: true,
+			};
+		}
+
+		if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "Error: end_line must be >= start_line.",
+					},
+				],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(embedDepth) || embedDepth < 1 || embedDepth > MAX_EMBED_DEPTH) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Error: embed_depth must be an integer between 1 and ${MAX_EMBED_DEPTH}.`,
+					},
+				],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "Error: cursor is invalid.",
 					},
 				],
 				isError: true,
@@ -361,35 +475,125 @@ export const readNoteTool: MCPToolDefinition = {
 
 		try {
 			const content = await context.vault.read(file);
-			const { body } = splitFrontmatter(content);
-			const resolvedBody = resolveVaultLinks(body, file.path, context);
-			const extracted = extractSectionContent(
-				resolvedBody,
-				section.trim(),
-				level,
-				mode,
-				includeSubsections,
-				maxChars,
-				withLineNumbers,
-			);
-
-			if ("error" in extracted) {
+			const { frontmatter, body } = splitFrontmatter(content);
+			// Embeds are kept as wiki links until they are expanded in the final output
+			const resolvedBody = resolveVaultLinks(body, file.path, context, { skipEmbeds: expandEmbedsEnabled });
+			const extras: Record<string, unknown> = {};
+			if (includeFrontmatter) {
+				extras.frontmatter = frontmatter;
+			}
+			const version = computeContentVersion(content);
+
+			const render = async (output: string): Promise<string> => {
+				if (!expandEmbedsEnabled) {
+					return output;
+				}
+				const expansion = await expandEmbeds(output, file.path, context, embedDepth);
+				extras.transclusion = { expanded: expansion.expanded, skipped: expansion.skipped };
+				return resolveVaultLinks(expansion.text, file.path, context);
+			};
+
+			if (section !== undefined) {
+				const extracted = extractSectionContent(
+					resolvedBody,
+					section.trim(),
+					level,
+					mode,
+					includeSubsections,
+					withLineNumbers,
+				);
+
+				if ("error" in extracted) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: extracted.error,
+							},
+						],
+						isError: true,
+					};
+				}
+
 				return {
 					content: [
 						{
 							type: "text",
-							text: extracted.error,
+							text: JSON.stringify(
+								{
+									...extracted,
+									...paginateContent(await render(extracted.content), offset, maxChars),
+									...extras,
+									version,
+								},
+								null,
+								2,
+							),
 						},
 					],
-					isError: true,
 				};
 			}
 
+			const lines = resolvedBody.split("\n");
+			let range: BodyRange = { startIndex: 0, endIndex: lines.length - 1 };
+			if (blockId !== undefined) {
+				const blockRange = findBlockRange(context.app.metadataCache.getFileCache(file), blockId);
+				if ("error" in blockRange) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: blockRange.error,
+							},
+						],
+						isError: true,
+					};
+				}
+				range = blockRange;
+			} else if (hasLineRange) {
+				const startIndex = (startLine ?? 1) - 1;
+				if (startIndex >= lines.length) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Error: start_line ${startIndex + 1} is past the end of the note (${lines.length} lines).`,
+							},
+						],
+						isError: true,
+					};
+				}
+				range = {
+					startIndex,
+					endIndex: Math.min((endLine ?? lines.length) - 1, lines.length - 1),
+				};
+			}
+
+			const output = formatBodyRange(lines, range, withLineNumbers);
+			const payload: Record<string, unknown> = {
+				range: blockId !== undefined ? "block" : hasLineRange ? "lines" : "body",
+			};
+			if (blockId !== undefined) {
+				payload.block_id = blockId;
+			}
+
 			return {
 				content: [
 					{
 						type: "text",
-						text: JSON.stringify(extracted, null, 2),
+						text: JSON.stringify(
+							{
+								...payload,
+								start_line: range.startIndex + 1,
+								end_line: range.endIndex + 1,
+								total_lines: lines.length,
+								...paginateContent(await render(output), offset, maxChars),
+								...extras,
+								version,
+							},
+							null,
+							2,
+						),
 					},
 				],
 			};
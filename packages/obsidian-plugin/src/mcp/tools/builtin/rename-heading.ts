@@ -0,0 +1,458 @@
+import { parseLinktext, ReferenceCache, TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import {
+	extractHeadingsWithPositions,
+	HeadingPosition,
+	mergeFrontmatter,
+	splitFrontmatter,
+} from "../helpers/markdown-helper";
+import { getBodyLineOffset, normalizeNotePath } from "../helpers/vault-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+import { BatchFilePlan, writeBatchPlans } from "../helpers/batch-helper";
+import { findSectionHeading } from "../helpers/heading-helper";
+
+interface LinkChange {
+	line: number;
+	before: string;
+	after: string;
+}
+
+interface TouchedFile {
+	path: string;
+	heading_renamed?: boolean;
+	links: LinkChange[];
+	version?: string;
+}
+
+interface RenameTarget {
+	/** Headings of the renamed note's body, in document order */
+	headings: HeadingPosition[];
+	selected: HeadingPosition;
+	newHeading: string;
+}
+
+interface SkippedLink {
+	path: string;
+	line: number;
+	link: string;
+	reason: string;
+}
+
+const ATX_HEADING_PATTERN = /^((?:[ \t]*>)*[ \t]*#{1,6}[ \t]+)(.*?)((?:[ \t]+#+)?[ \t]*)$/;
+const INVALID_HEADING_CHARACTERS = /[[\]|#^\r\n]/;
+
+/**
+ * Compares heading anchors the way links are typed: case and runs of whitespace are ignored.
+ */
+function isSameAnchor(anchor: string, heading: string): boolean {
+	const normalize = (value: string): string => value.trim().replace(/\s+/g, " ").toLowerCase();
+	return normalize(anchor) === normalize(heading);
+}
+
+function decodeAnchor(anchor: string): string {
+	try {
+		return decodeURIComponent(anchor);
+	} catch {
+		return anchor;
+	}
+}
+
+/**
+ * Returns the indexes of the subpath segments that resolve to the selected heading.
+ * Like Obsidian, each segment resolves to the first matching heading after the heading the
+ * previous segment resolved to, so with duplicate headings only the first one is reachable
+ * by its bare name.
+ */
+function findSelectedSegments(segments: string[], headings: HeadingPosition[], selected: HeadingPosition): number[] {
+	const selectedSegments: number[] = [];
+	let position = -1;
+	for (const [segmentIndex, segment] of segments.entries()) {
+		if (segment.startsWith("^")) {
+			break;
+		}
+		const headingIndex = headings.findIndex((heading, index) => index > position && isSameAnchor(segment, heading.text));
+		if (headingIndex === -1) {
+			return [];
+		}
+		if (headings[headingIndex]!.lineIndex === selected.lineIndex) {
+			selectedSegments.push(segmentIndex);
+		}
+		position = headingIndex;
+	}
+	return selectedSegments;
+}
+
+/**
+ * Replaces the subpath segments of a link target ("note#Heading" or "note#Parent#Heading")
+ * that resolve to the selected heading. Returns null when none does.
+ */
+function rewriteTarget(
+	target: string,
+	rename: RenameTarget,
+	encode: (value: string) => string,
+	decode: (value: string) => string,
+): string | null {
+	const hashIndex = target.indexOf("#");
+	if (hashIndex === -1) {
+		return null;
+	}
+	const segments = target.slice(hashIndex + 1).split("#");
+	const selectedSegments = findSelectedSegments(segments.map(decode), rename.headings, rename.selected);
+	if (selectedSegments.length === 0) {
+		return null;
+	}
+	for (const segmentIndex of selectedSegments) {
+		segments[segmentIndex] = encode(rename.newHeading);
+	}
+	return `${target.slice(0, hashIndex)}#${segments.join("#")}`;
+}
+
+/**
+ * Rewrites the anchor of a wikilink, embed or markdown link as written in the source note.
+ * Aliases, escaped table pipes and URL encoding of markdown links are kept.
+ */
+function rewriteReference(original: string, rename: RenameTarget): string | null {
+	const wikilink = original.match(/^(!?\[\[)([\s\S]*)(\]\])$/);
+	if (wikilink) {
+		const inner = wikilink[2]!;
+		const pipeIndex = inner.indexOf("|");
+		const cut = pipeIndex > 0 && inner[pipeIndex - 1] === "\\" ? pipeIndex - 1 : pipeIndex;
+		const target = cut === -1 ? inner : inner.slice(0, cut);
+		const rewritten = rewriteTarget(target, rename, (value) => value, (value) => value);
+		return rewritten === null ? null : `${wikilink[1]}${rewritten}${cut === -1 ? "" : inner.slice(cut)}${wikilink[3]}`;
+	}
+
+	const markdownLink = original.match(/^(!?\[[\s\S]*\]\()(<[^>]*>|[^\s)]+)([\s\S]*)$/);
+	if (!markdownLink) {
+		return null;
+	}
+	const url = markdownLink[2]!;
+	const bracketed = url.startsWith("<");
+	const rewritten = rewriteTarget(
+		bracketed ? url.slice(1, -1) : url,
+		rename,
+		bracketed ? (value) => value : encodeURI,
+		bracketed ? (value) => value : decodeAnchor,
+	);
+	if (rewritten === null) {
+		return null;
+	}
+	return `${markdownLink[1]}${bracketed ? `<${rewritten}>` : rewritten}${markdownLink[3]}`;
+}
+
+function renameHeadingLine(line: string, newHeading: string): string {
+	const atx = line.match(ATX_HEADING_PATTERN);
+	if (atx) {
+		return `${atx[1]}${newHeading}${atx[3]}`;
+	}
+	// Setext heading: the text line is followed by a === or --- underline
+	const indent = line.match(/^[ \t]*/)?.[0] ?? "";
+	return `${indent}${newHeading}`;
+}
+
+/**
+ * Lists notes whose links resolve to the target, plus the target itself for "[[#Heading]]" links.
+ */
+function collectLinkingFiles(target: TFile, context: AppContext): TFile[] {
+	const paths = new Set<string>([target.path]);
+	for (const [sourcePath, targets] of Object.entries(context.app.metadataCache.resolvedLinks)) {
+		if ((targets?.[target.path] ?? 0) > 0) {
+			paths.add(sourcePath);
+		}
+	}
+	return Array.from(paths)
+		.sort((a, b) => a.localeCompare(b))
+		.map((path) => context.vault.getAbstractFileByPath(path))
+		.filter((file): file is TFile => file instanceof TFile);
+}
+
+/**
+ * Rewrites every link and embed of the source note that targets the heading, from the
+ * last reference to the first so cache offsets stay valid. References whose cached text
+ * no longer matches the note are reported as skipped.
+ */
+function rewriteLinks(
+	content: string,
+	source: TFile,
+	target: TFile,
+	rename: RenameTarget,
+	context: AppContext,
+	skipped: SkippedLink[],
+): { content: string; links: LinkChange[] } {
+	const cache = context.app.metadataCache.getFileCache(source);
+	const lineOffset = getBodyLineOffset(cache);
+	const references: ReferenceCache[] = [...(cache?.links ?? []), ...(cache?.embeds ?? [])]
+		.filter((reference) => {
+			const { path } = parseLinktext(reference.link);
+			const resolved = path ? context.app.metadataCache.getFirstLinkpathDest(path, source.path)?.path : source.path;
+			return resolved === target.path;
+		})
+		.sort((a, b) => b.position.start.offset - a.position.start.offset);
+
+	let nextContent = content;
+	const links: LinkChange[] = [];
+	for (const reference of references) {
+		const after = rewriteReference(reference.original, rename);
+		if (after === null) {
+			continue;
+		}
+		const line = reference.position.start.line - lineOffset + 1;
+		const { offset: start } = reference.position.start;
+		const { offset: end } = reference.position.end;
+		if (nextContent.slice(start, end) !== reference.original) {
+			skipped.push({ path: source.path, line, link: reference.original, reason: "The note changed since it was indexed." });
+			continue;
+		}
+		nextContent = `${nextContent.slice(0, start)}${after}${nextContent.slice(end)}`;
+		links.unshift({ line, before: reference.original, after });
+	}
+	return { content: nextContent, links };
+}
+
+/**
+ * Built-in tool: rename_heading
+ * Renames a heading and updates the links that target it
+ */
+export const renameHeadingTool: MCPToolDefinition = {
+	name: "rename_heading",
+	description:
+		"Rename a heading and update every wikilink, embed and markdown link in the vault that targets it ([[note#Heading]], ![[note#Heading]], [[#Heading]], [text](note.md#Heading)), so anchored links keep working. Only links that resolve to this heading change: when several headings share its name, [[note#Heading]] points at the first one and [[note#Parent#Heading]] at the one under Parent. Target the heading by text (+ level) or by the id from get_note_outline. Reports every touched file with the rewritten links and their body line numbers. The writes are all-or-nothing.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			heading: {
+				type: "string",
+				description: "Heading text to match exactly. Required unless id is given.",
+			},
+			level: {
+				type: "number",
+				description: "Heading level (1-6) used with heading to disambiguate.",
+			},
+			id: {
+				type: "string",
+				description: "Heading id returned by get_note_outline.",
+			},
+			new_heading: {
+				type: "string",
+				description: "The new heading text. It cannot contain [ ] | # or ^, which links cannot target.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. The rename fails with a conflict if the note changed since.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "When true, report the heading and the links that would change without writing. Default: false.",
+				default: false,
+			},
+		},
+		required: ["path", "new_heading"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const heading = typeof args.heading === "string" ? args.heading.trim() : undefined;
+		const level = typeof args.level === "number" ? args.level : undefined;
+		const id = typeof args.id === "string" && args.id.length > 0 ? args.id : undefined;
+		const newHeading = typeof args.new_heading === "string" ? args.new_heading.trim() : "";
+		const expectedVersion = args.expected_version;
+		const dryRun = args.dry_run === true;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!id && !heading) {
+			return {
+				content: [{ type: "text", text: "Error: heading or id is required." }],
+				isError: true,
+			};
+		}
+
+		if (level !== undefined && (!Number.isInteger(level) || level < 1 || level > 6)) {
+			return {
+				content: [{ type: "text", text: "Error: level must be an integer between 1 and 6." }],
+				isError: true,
+			};
+		}
+
+		if (newHeading.length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: new_heading is required." }],
+				isError: true,
+			};
+		}
+
+		if (INVALID_HEADING_CHARACTERS.test(newHeading)) {
+			return {
+				content: [{ type: "text", text: "Error: new_heading must be a single line without [ ] | # or ^, which links cannot target." }],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		const plans: BatchFilePlan[] = [];
+		const touched: TouchedFile[] = [];
+		const skipped: SkippedLink[] = [];
+		let selectedHeading: { text: string; level: number; lineNumber: number };
+
+		try {
+			const currentContent = await context.vault.read(file);
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, currentContent);
+			if (conflict) {
+				return conflict;
+			}
+			const { body } = splitFrontmatter(currentContent);
+			const selected = findSectionHeading(currentContent, body, { heading, level, id });
+			if ("error" in selected) {
+				return {
+					content: [{ type: "text", text: selected.error }],
+					isError: true,
+				};
+			}
+			selectedHeading = selected;
+
+			if (selected.text === newHeading) {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							ok: true,
+							path: normalizedPath,
+							changed: false,
+							heading: selected.text,
+							version: computeContentVersion(currentContent),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const headings = extractHeadingsWithPositions(body);
+			const clash = headings.find(
+				(candidate) => candidate.lineIndex !== selected.lineIndex && isSameAnchor(candidate.text, newHeading),
+			);
+			if (clash) {
+				return {
+					content: [{ type: "text", text: `Error: The note already has a heading "${clash.text}" (line ${clash.lineNumber}); links to it would become ambiguous.` }],
+					isError: true,
+				};
+			}
+
+			for (const source of collectLinkingFiles(file, context)) {
+				const before = source === file ? currentContent : await context.vault.read(source);
+				const rewritten = rewriteLinks(before, source, file, { headings, selected, newHeading }, context, skipped);
+				let after = rewritten.content;
+				if (source === file) {
+					// Link rewrites never add lines, so the heading keeps its line index
+					const split = splitFrontmatter(after);
+					const lines = split.body.split("\n");
+					lines[selected.lineIndex] = renameHeadingLine(lines[selected.lineIndex]!, newHeading);
+					after = mergeFrontmatter(split.frontmatter, lines.join("\n"));
+				}
+				if (after === before) {
+					continue;
+				}
+				plans.push({ file: source, before, after });
+				touched.push({
+					path: source.path,
+					...(source === file ? { heading_renamed: true } : {}),
+					links: rewritten.links,
+				});
+			}
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error renaming heading: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+
+		const summary = {
+			path: normalizedPath,
+			heading: selectedHeading.text,
+			new_heading: newHeading,
+			level: selectedHeading.level,
+			line: selectedHeading.lineNumber,
+			links_updated: touched.reduce((count, entry) => count + entry.links.length, 0),
+		};
+
+		if (dryRun) {
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({ ok: true, dry_run: true, ...summary, files: touched, ...(skipped.length > 0 ? { skipped } : {}) }, null, 2),
+				}],
+			};
+		}
+
+		const rollbackReports = await writeBatchPlans(plans, context);
+		if (rollbackReports) {
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({ ok: false, ...summary, files: rollbackReports }, null, 2),
+				}],
+				isError: true,
+			};
+		}
+
+		for (const plan of plans) {
+			const entry = touched.find((candidate) => candidate.path === plan.file.path);
+			if (entry) {
+				entry.version = computeContentVersion(plan.after);
+			}
+			await recordEdit(context, {
+				tool: "rename_heading",
+				action: "modify",
+				path: plan.file.path,
+				before: plan.before,
+				after: plan.after,
+			});
+		}
+
+		return {
+			content: [{
+				type: "text",
+				text: JSON.stringify({ ok: true, changed: true, ...summary, files: touched, ...(skipped.length > 0 ? { skipped } : {}) }, null, 2),
+			}],
+		};
+	},
+};
+
+/**
+ * Get all built-in heading rename tools
+ */
+export function getBuiltinRenameHeadingTools(): MCPToolDefinition[] {
+	return [renameHeadingTool];
+}
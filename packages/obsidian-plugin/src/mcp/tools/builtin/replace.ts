@@ -0,0 +1,466 @@
+import { TFile } from "obsidian";
+import { createTwoFilesPatch } from "diff";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { getCodeRanges, splitFrontmatter } from "../helpers/markdown-helper";
+import {
+	buildNextCursor,
+	compileGlobs,
+	getMarkdownFilesInFolder,
+	getNoteTags,
+	matchesGlobs,
+	normalizeFolderPath,
+	parseCursor,
+} from "../helpers/vault-helper";
+import { parseTagExpression } from "../helpers/tag-helper";
+import { BatchFilePlan, BatchFileReport, writeBatchPlans } from "../helpers/batch-helper";
+import { computeContentVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+import { MAX_TOOL_RESPONSE_CHARS } from "../../request-limits";
+
+interface ReplaceOptions {
+	regex: RegExp;
+	replacement: string;
+	literal: boolean;
+	skipCode: boolean;
+	skipFrontmatter: boolean;
+}
+
+interface ReplaceFileReport extends BatchFileReport {
+	replacements?: number;
+	skipped_matches?: number;
+	diff_truncated?: boolean;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_DIFF_CHARS = 64 * 1024;
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function withoutDiff(report: ReplaceFileReport): ReplaceFileReport {
+	const stripped = { ...report };
+	delete stripped.diff;
+	delete stripped.diff_truncated;
+	return stripped;
+}
+
+/**
+ * Returns the page of preview reports starting at offset, stopping early once the
+ * response would exceed MAX_TOOL_RESPONSE_CHARS (always at least one report).
+ */
+function paginateReports(
+	reports: ReplaceFileReport[],
+	offset: number,
+	limit: number,
+): { page: ReplaceFileReport[]; nextOffset: number } {
+	const page: ReplaceFileReport[] = [];
+	let responseChars = 0;
+	let nextOffset = offset;
+	for (const report of reports.slice(offset, offset + limit)) {
+		const reportChars = JSON.stringify(report).length;
+		if (page.length > 0 && responseChars + reportChars > MAX_TOOL_RESPONSE_CHARS) {
+			break;
+		}
+		page.push(report);
+		responseChars += reportChars;
+		nextOffset += 1;
+	}
+	return { page, nextOffset };
+}
+
+/**
+ * Expands $1, $<name>, $&, $`, $' and $$ in a replacement the same way String.prototype.replace does.
+ */
+function expandReplacement(
+	template: string,
+	match: string,
+	captures: Array<string | undefined>,
+	named: Record<string, string | undefined> | undefined,
+	offset: number,
+	input: string,
+): string {
+	return template.replace(/\$(\$|&|`|'|<([^>]*)>|\d{1,2})/g, (token: string, key: string, name: string | undefined) => {
+		if (key === "$") {
+			return "$";
+		}
+		if (key === "&") {
+			return match;
+		}
+		if (key === "`") {
+			return input.slice(0, offset);
+		}
+		if (key === "'") {
+			return input.slice(offset + match.length);
+		}
+		if (name !== undefined) {
+			return named ? named[name] ?? "" : token;
+		}
+		let index = Number(key);
+		let rest = "";
+		if (key.length === 2 && index > captures.length) {
+			index = Number(key[0]);
+			rest = key[1]!;
+		}
+		if (index < 1 || index > captures.length) {
+			return token;
+		}
+		return (captures[index - 1] ?? "") + rest;
+	});
+}
+
+/**
+ * Replaces every match in a note, leaving matches that overlap excluded regions untouched.
+ */
+function replaceInContent(content: string, options: ReplaceOptions): { content: string; replacements: number; skipped: number } {
+	const { body } = splitFrontmatter(content);
+	const bodyStart = content.length - body.length;
+	const excluded: Array<[number, number]> = [];
+	if (options.skipFrontmatter && bodyStart > 0) {
+		excluded.push([0, bodyStart]);
+	}
+	if (options.skipCode) {
+		for (const [start, end] of getCodeRanges(body)) {
+			excluded.push([bodyStart + start, bodyStart + end]);
+		}
+	}
+
+	let replacements = 0;
+	let skipped = 0;
+	const nextContent = content.replace(options.regex, (match: string, ...rest: unknown[]) => {
+		const named = typeof rest[rest.length - 1] === "object" ? rest.pop() as Record<string, string | undefined> : undefined;
+		const input = rest.pop() as string;
+		const offset = rest.pop() as number;
+		const end = offset + match.length;
+		if (excluded.some(([rangeStart, rangeEnd]) => offset < rangeEnd && end > rangeStart)) {
+			skipped += 1;
+			return match;
+		}
+		replacements += 1;
+		return options.literal
+			? options.replacement
+			: expandReplacement(options.replacement, match, rest as Array<string | undefined>, named, offset, input);
+	});
+	return { content: nextContent, replacements, skipped };
+}
+
+/**
+ * Built-in tool: replace_in_vault
+ * Vault-wide search and replace with a preview step
+ */
+export const replaceInVaultTool: MCPToolDefinition = {
+	name: "replace_in_vault",
+	description:
+		"Search and replace across markdown notes. Takes a literal or regex pattern ($1, $<name> and $& work in regex replacements). Scope by folder, tag expression and include/exclude globs; optionally leave code and frontmatter untouched. By default only previews: returns a diff and version per note, a page of notes at a time (follow next_cursor; every page carries its expected_versions). Call again with apply=true and the versions of all pages merged as expected_versions to write. Applying is all-or-nothing.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			pattern: {
+				type: "string",
+				description: "Text or regular expression to find.",
+			},
+			replacement: {
+				type: "string",
+				description: "Replacement text. In regex mode, $1, $<name>, $& and $$ are expanded.",
+			},
+			regex: {
+				type: "boolean",
+				description: "Interpret pattern as a JavaScript regular expression (multiline: ^ and $ match at line breaks). Default: false.",
+				default: false,
+			},
+			case_sensitive: {
+				type: "boolean",
+				description: "Match case exactly. Default: true.",
+				default: true,
+			},
+			folder: {
+				type: "string",
+				description: "Only change notes in this folder (recursive).",
+			},
+			tag: {
+				type: "string",
+				description: "Only change notes matching this tag expression, e.g. '#project AND NOT #archived'.",
+			},
+			include: {
+				type: "array",
+				items: { type: "string" },
+				description: "Glob patterns; only matching note paths are changed (e.g., 'projects/**').",
+			},
+			exclude: {
+				type: "array",
+				items: { type: "string" },
+				description: "Glob patterns for note paths to leave unchanged (e.g., 'templates/**').",
+			},
+			skip_code: {
+				type: "boolean",
+				description: "Leave code blocks and inline code unchanged. Default: false.",
+				default: false,
+			},
+			skip_frontmatter: {
+				type: "boolean",
+				description: "Leave frontmatter unchanged. Default: false.",
+				default: false,
+			},
+			apply: {
+				type: "boolean",
+				description: "Write the changes. When false, only return the preview. Default: false.",
+				default: false,
+			},
+			limit: {
+				type: "number",
+				description: `For previews: maximum number of notes per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "For previews: cursor returned as next_cursor by a previous call.",
+			},
+			expected_versions: {
+				type: "object",
+				description: "With apply=true: the path to version map returned by the preview. Applying fails if any previewed note changed or the set of changed notes differs.",
+			},
+		},
+		required: ["pattern", "replacement"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const pattern = typeof args.pattern === "string" ? args.pattern : "";
+		const replacement = typeof args.replacement === "string" ? args.replacement : undefined;
+		const useRegex = args.regex === true;
+		const caseSensitive = args.case_sensitive !== false;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const tag = typeof args.tag === "string" && args.tag.trim().length > 0 ? args.tag : undefined;
+		const include = args.include ?? [];
+		const exclude = args.exclude ?? [];
+		const skipCode = args.skip_code === true;
+		const skipFrontmatter = args.skip_frontmatter === true;
+		const apply = args.apply === true;
+		const expectedVersions = args.expected_versions;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (pattern.length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: pattern is required." }],
+				isError: true,
+			};
+		}
+
+		if (replacement === undefined) {
+			return {
+				content: [{ type: "text", text: "Error: replacement is required (use an empty string to delete matches)." }],
+				isError: true,
+			};
+		}
+
+		if (!isStringArray(include) || !isStringArray(exclude)) {
+			return {
+				content: [{ type: "text", text: "Error: include and exclude must be arrays of strings." }],
+				isError: true,
+			};
+		}
+
+		const includeRegexes = compileGlobs(include);
+		if ("error" in includeRegexes) {
+			return {
+				content: [{ type: "text", text: includeRegexes.error }],
+				isError: true,
+			};
+		}
+		const excludeRegexes = compileGlobs(exclude);
+		if ("error" in excludeRegexes) {
+			return {
+				content: [{ type: "text", text: excludeRegexes.error }],
+				isError: true,
+			};
+		}
+
+		if (
+			expectedVersions !== undefined &&
+			(!isPlainObject(expectedVersions) || !Object.values(expectedVersions).every((version) => typeof version === "string"))
+		) {
+			return {
+				content: [{ type: "text", text: "Error: expected_versions must be an object mapping note paths to versions." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		let regex: RegExp;
+		try {
+			regex = new RegExp(useRegex ? pattern : escapeRegExp(pattern), `g${caseSensitive ? "" : "i"}${useRegex ? "m" : ""}`);
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error: Invalid regular expression: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+
+		if (new RegExp(regex.source, regex.flags.replace("g", "")).test("")) {
+			return {
+				content: [{ type: "text", text: "Error: pattern must not match an empty string." }],
+				isError: true,
+			};
+		}
+
+		let files = getMarkdownFilesInFolder(context.vault.getMarkdownFiles(), folder);
+		files = files.filter((file: TFile) => matchesGlobs(file.path, includeRegexes, excludeRegexes));
+
+		if (tag !== undefined) {
+			const predicate = parseTagExpression(tag);
+			if ("error" in predicate) {
+				return {
+					content: [{ type: "text", text: predicate.error }],
+					isError: true,
+				};
+			}
+			files = files.filter((file) => predicate(getNoteTags(context.app.metadataCache.getFileCache(file))));
+		}
+
+		const options: ReplaceOptions = { regex, replacement, literal: !useRegex, skipCode, skipFrontmatter };
+		const reports: ReplaceFileReport[] = [];
+		const plans: BatchFilePlan[] = [];
+		for (const file of files.sort((a, b) => a.path.localeCompare(b.path))) {
+			try {
+				const content = await context.vault.read(file);
+				const result = replaceInContent(content, options);
+				if (result.replacements === 0 || result.content === content) {
+					continue;
+				}
+				plans.push({ file, before: content, after: result.content });
+				const diff = createTwoFilesPatch(file.path, file.path, content, result.content);
+				reports.push({
+					path: file.path,
+					status: "changed",
+					replacements: result.replacements,
+					skipped_matches: result.skipped,
+					diff: diff.length > MAX_DIFF_CHARS ? diff.slice(0, MAX_DIFF_CHARS) : diff,
+					...(diff.length > MAX_DIFF_CHARS ? { diff_truncated: true } : {}),
+					version: computeContentVersion(content),
+				});
+			} catch (error) {
+				reports.push({
+					path: file.path,
+					status: "error",
+					error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+				});
+			}
+		}
+
+		if (apply && expectedVersions !== undefined) {
+			const planned = new Set(plans.map((plan) => plan.file.path));
+			for (const report of reports) {
+				if (report.status !== "changed") {
+					continue;
+				}
+				const expected = (expectedVersions as Record<string, string>)[report.path];
+				if (expected === undefined) {
+					report.status = "error";
+					report.error = "Error: Note was not in the preview.";
+				} else if (expected !== report.version) {
+					report.status = "error";
+					report.error = `Error: Note changed since the preview (expected version ${expected}, current ${report.version}).`;
+				}
+			}
+			for (const path of Object.keys(expectedVersions)) {
+				if (!planned.has(path)) {
+					reports.push({ path, status: "error", error: "Error: Note no longer has matches or is out of scope." });
+				}
+			}
+		}
+
+		const failed = reports.some((report) => report.status === "error");
+		const summary = {
+			pattern,
+			regex: useRegex,
+			matched_files: plans.length,
+			replacements: reports.reduce((total, report) => total + (report.replacements ?? 0), 0),
+		};
+
+		if (failed || !apply || plans.length === 0) {
+			// Previews are paginated; apply responses list every note without diffs
+			const { page, nextOffset } = apply
+				? { page: reports.map(withoutDiff), nextOffset: reports.length }
+				: paginateReports(reports, offset, limit);
+			const result: MCPToolResult = {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: !failed,
+						applied: false,
+						...summary,
+						files: page,
+						...(!failed && !apply && plans.length > 0
+							? { expected_versions: Object.fromEntries(page.map((report) => [report.path, report.version])) }
+							: {}),
+						truncated: nextOffset < reports.length,
+						next_cursor: buildNextCursor(nextOffset, reports.length),
+					}, null, 2),
+				}],
+			};
+			if (failed) {
+				result.isError = true;
+			}
+			return result;
+		}
+
+		const rollbackReports = await writeBatchPlans(plans, context);
+		if (rollbackReports) {
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({ ok: false, applied: false, ...summary, files: rollbackReports }, null, 2),
+				}],
+				isError: true,
+			};
+		}
+
+		for (const plan of plans) {
+			const report = reports.find((candidate) => candidate.path === plan.file.path);
+			if (report) {
+				report.version = computeContentVersion(plan.after);
+			}
+			await recordEdit(context, {
+				tool: "replace_in_vault",
+				action: "modify",
+				path: plan.file.path,
+				before: plan.before,
+				after: plan.after,
+			});
+		}
+
+		return {
+			content: [{
+				type: "text",
+				text: JSON.stringify({ ok: true, applied: true, ...summary, files: reports.map(withoutDiff) }, null, 2),
+			}],
+		};
+	},
+};
+
+/**
+ * Get all built-in replace tools
+ */
+export function getBuiltinReplaceTools(): MCPToolDefinition[] {
+	return [replaceInVaultTool];
+}
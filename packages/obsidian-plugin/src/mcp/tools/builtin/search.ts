@@ -0,0 +1,389 @@
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { MAX_TOOL_RESPONSE_CHARS } from "../../request-limits";
+import { extractHeadingsWithPositions, splitFrontmatter } from "../helpers/markdown-helper";
+import { deepEqual } from "../helpers/yaml-helper";
+import {
+	buildNextCursor,
+	getMarkdownFilesInFolder,
+	getNoteTags,
+	hasTag,
+	normalizeFolderPath,
+	parseCursor,
+} from "../helpers/vault-helper";
+
+type SearchMode = "plain" | "regex" | "phrase";
+
+interface SearchHit {
+	line: number;
+	heading: string | null;
+	snippet: string;
+}
+
+interface SearchResult {
+	path: string;
+	score: number;
+	match_count: number;
+	hits: SearchHit[];
+}
+
+interface LineMatch {
+	index: number;
+	length: number;
+}
+
+type LineMatcher = (line: string) => LineMatch[];
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_MAX_HITS_PER_NOTE = 5;
+const DEFAULT_CONTEXT_CHARS = 60;
+const TITLE_MATCH_BONUS = 5;
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function collectMatches(regex: RegExp, line: string): LineMatch[] {
+	const matches: LineMatch[] = [];
+	regex.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(line)) !== null) {
+		if (match[0].length === 0) {
+			regex.lastIndex += 1;
+			continue;
+		}
+		matches.push({ index: match.index, length: match[0].length });
+	}
+	return matches;
+}
+
+/**
+ * Builds the per-line matchers for a query.
+ * Plain queries produce one matcher per term; every term must occur somewhere in the note.
+ */
+function buildMatchers(query: string, mode: SearchMode, caseSensitive: boolean): LineMatcher[] | { error: string } {
+	const flags = caseSensitive ? "g" : "gi";
+
+	if (mode === "regex") {
+		try {
+			const regex = new RegExp(query, flags);
+			return [(line) => collectMatches(regex, line)];
+		} catch (error) {
+			return { error: `Error: Invalid regular expression: ${error instanceof Error ? error.message : String(error)}` };
+		}
+	}
+
+	const terms = query.trim().split(/\s+/).filter((term) => term.length > 0);
+	if (mode === "phrase") {
+		const regex = new RegExp(terms.map(escapeRegExp).join("\\s+"), flags);
+		return [(line) => collectMatches(regex, line)];
+	}
+
+	return terms.map((term) => {
+		const regex = new RegExp(escapeRegExp(term), flags);
+		return (line: string) => collectMatches(regex, line);
+	});
+}
+
+function buildSnippet(line: string, match: LineMatch, contextChars: number): string {
+	const start = Math.max(0, match.index - contextChars);
+	const end = Math.min(line.length, match.index + match.length + contextChars);
+	const prefix = start > 0 ? "…" : "";
+	const suffix = end < line.length ? "…" : "";
+	return `${prefix}${line.slice(start, end).trim()}${suffix}`;
+}
+
+function matchesFrontmatterFilter(
+	frontmatter: Record<string, unknown> | undefined,
+	filter: Record<string, unknown>,
+): boolean {
+	for (const [key, expected] of Object.entries(filter)) {
+		const actual = frontmatter?.[key];
+		if (Array.isArray(actual) && !Array.isArray(expected)) {
+			if (!actual.some((item) => deepEqual(item, expected))) {
+				return false;
+			}
+			continue;
+		}
+		if (!deepEqual(actual, expected)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function searchNote(
+	path: string,
+	title: string,
+	body: string,
+	matchers: LineMatcher[],
+	mode: SearchMode,
+	maxHits: number,
+	contextChars: number,
+): SearchResult | null {
+	const lines = body.split("\n");
+	const headings = extractHeadingsWithPositions(body);
+	const termsSeen = new Set<number>();
+	const hits: SearchHit[] = [];
+	let matchCount = 0;
+	let score = 0;
+
+	matchers.forEach((matcher, matcherIndex) => {
+		if (matcher(title).length > 0) {
+			termsSeen.add(matcherIndex);
+			score += TITLE_MATCH_BONUS;
+		}
+	});
+
+	let headingCursor = 0;
+	let currentHeading: string | null = null;
+
+	for (let lineIndex = 0; lineIndex < lines.length; lineIndex += 1) {
+		while (headingCursor < headings.length && headings[headingCursor]!.lineIndex <= lineIndex) {
+			currentHeading = headings[headingCursor]!.text;
+			headingCursor += 1;
+		}
+
+		const line = lines[lineIndex] ?? "";
+		let firstMatch: LineMatch | null = null;
+		let lineMatches = 0;
+		let distinctTerms = 0;
+
+		for (let matcherIndex = 0; matcherIndex < matchers.length; matcherIndex += 1) {
+			const matches = matchers[matcherIndex]!(line);
+			if (matches.length === 0) {
+				continue;
+			}
+			termsSeen.add(matcherIndex);
+			distinctTerms += 1;
+			lineMatches += matches.length;
+			if (!firstMatch || matches[0]!.index < firstMatch.index) {
+				firstMatch = matches[0]!;
+			}
+		}
+
+		if (!firstMatch) {
+			continue;
+		}
+
+		matchCount += lineMatches;
+		score += lineMatches + distinctTerms * distinctTerms;
+		if (hits.length < maxHits) {
+			hits.push({
+				line: lineIndex + 1,
+				heading: currentHeading,
+				snippet: buildSnippet(line, firstMatch, contextChars),
+			});
+		}
+	}
+
+	const requiresAllTerms = mode === "plain";
+	if (termsSeen.size === 0 || (requiresAllTerms && termsSeen.size < matchers.length)) {
+		return null;
+	}
+
+	return { path, score, match_count: matchCount, hits };
+}
+
+/**
+ * Built-in tool: search_notes
+ * Full-text search across markdown notes in the vault
+ */
+export const searchNotesTool: MCPToolDefinition = {
+	name: "search_notes",
+	description:
+		"Full-text search across markdown notes. Returns ranked notes with matching lines (body line numbers, frontmatter excluded), heading context and snippets.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			query: {
+				type: "string",
+				description: "Search query. In plain mode, every whitespace-separated term must appear in the note.",
+			},
+			mode: {
+				type: "string",
+				enum: ["plain", "regex", "phrase"],
+				description: "How the query is interpreted. Default: plain.",
+				default: "plain",
+			},
+			case_sensitive: {
+				type: "boolean",
+				description: "Match case exactly. Default: false.",
+				default: false,
+			},
+			folder: {
+				type: "string",
+				description: "Optional folder to restrict the search to (recursive).",
+			},
+			tags: {
+				type: "array",
+				items: { type: "string" },
+				description: "Only include notes that have all of these tags (nested tags match their parent).",
+			},
+			frontmatter: {
+				type: "object",
+				description: "Only include notes whose frontmatter properties equal these values. List properties match when they contain the value.",
+			},
+			limit: {
+				type: "number",
+				description: `Maximum number of notes per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "Cursor returned as next_cursor by a previous call.",
+			},
+			max_hits_per_note: {
+				type: "number",
+				description: `Maximum number of matching lines returned per note. Default: ${DEFAULT_MAX_HITS_PER_NOTE}.`,
+				default: DEFAULT_MAX_HITS_PER_NOTE,
+			},
+			context_chars: {
+				type: "number",
+				description: `Characters of context on each side of the match in snippets. Default: ${DEFAULT_CONTEXT_CHARS}.`,
+				default: DEFAULT_CONTEXT_CHARS,
+			},
+		},
+		required: ["query"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const query = typeof args.query === "string" ? args.query : "";
+		const mode = (typeof args.mode === "string" ? args.mode : "plain") as SearchMode;
+		const caseSensitive = args.case_sensitive === true;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const tags = args.tags;
+		const frontmatterFilter = args.frontmatter;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const maxHits = typeof args.max_hits_per_note === "number" ? args.max_hits_per_note : DEFAULT_MAX_HITS_PER_NOTE;
+		const contextChars = typeof args.context_chars === "number" ? args.context_chars : DEFAULT_CONTEXT_CHARS;
+		const offset = parseCursor(args.cursor);
+
+		if (query.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: query is required." }],
+				isError: true,
+			};
+		}
+
+		if (!["plain", "regex", "phrase"].includes(mode)) {
+			return {
+				content: [{ type: "text", text: "Error: mode must be one of \"plain\", \"regex\", or \"phrase\"." }],
+				isError: true,
+			};
+		}
+
+		if (tags !== undefined && !(Array.isArray(tags) && tags.every((tag) => typeof tag === "string"))) {
+			return {
+				content: [{ type: "text", text: "Error: tags must be an array of strings." }],
+				isError: true,
+			};
+		}
+
+		if (
+			frontmatterFilter !== undefined &&
+			(typeof frontmatterFilter !== "object" || frontmatterFilter === null || Array.isArray(frontmatterFilter))
+		) {
+			return {
+				content: [{ type: "text", text: "Error: frontmatter must be an object." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(maxHits) || maxHits < 0 || !Number.isInteger(contextChars) || contextChars < 0) {
+			return {
+				content: [{ type: "text", text: "Error: max_hits_per_note and context_chars must be integers >= 0." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		const matchers = buildMatchers(query, mode, caseSensitive);
+		if ("error" in matchers) {
+			return {
+				content: [{ type: "text", text: matchers.error }],
+				isError: true,
+			};
+		}
+
+		try {
+			const results: SearchResult[] = [];
+			const files = getMarkdownFilesInFolder(context.vault.getMarkdownFiles(), folder);
+
+			for (const file of files) {
+				const cache = context.app.metadataCache.getFileCache(file);
+				if (Array.isArray(tags) && tags.length > 0) {
+					const noteTags = getNoteTags(cache);
+					if (!tags.every((tag) => hasTag(noteTags, tag))) {
+						continue;
+					}
+				}
+				if (
+					frontmatterFilter &&
+					!matchesFrontmatterFilter(cache?.frontmatter, frontmatterFilter as Record<string, unknown>)
+				) {
+					continue;
+				}
+
+				const content = await context.vault.cachedRead(file);
+				const { body } = splitFrontmatter(content);
+				const result = searchNote(file.path, file.basename, body, matchers, mode, maxHits, contextChars);
+				if (result) {
+					results.push(result);
+				}
+			}
+
+			results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+			const page: SearchResult[] = [];
+			let responseChars = 0;
+			let nextOffset = offset;
+			for (const result of results.slice(offset, offset + limit)) {
+				const resultChars = JSON.stringify(result).length;
+				if (page.length > 0 && responseChars + resultChars > MAX_TOOL_RESPONSE_CHARS) {
+					break;
+				}
+				page.push(result);
+				responseChars += resultChars;
+				nextOffset += 1;
+			}
+
+			const payload = {
+				query,
+				mode,
+				total: results.length,
+				results: page,
+				next_cursor: buildNextCursor(nextOffset, results.length),
+			};
+
+			return {
+				content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error searching notes: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in search tools
+ */
+export function getBuiltinSearchTools(): MCPToolDefinition[] {
+	return [searchNotesTool];
+}
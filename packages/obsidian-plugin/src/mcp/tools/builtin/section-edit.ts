@@ -0,0 +1,272 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { extractHeadingsWithPositions, HeadingPosition, mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+import { findSectionHeading } from "../helpers/heading-helper";
+
+type SectionOperation = "replace" | "append" | "prepend" | "insert_before" | "insert_after" | "delete";
+
+const SECTION_OPERATIONS: SectionOperation[] = ["replace", "append", "prepend", "insert_before", "insert_after", "delete"];
+
+/**
+ * Returns the exclusive end line index of a section.
+ * Unlike the outline's end_line, a section always stops at the next heading of the same
+ * or a higher level, so writes never spill into a parent's sibling.
+ */
+export function getSectionEndIndex(
+	headings: HeadingPosition[],
+	selected: HeadingPosition,
+	lineCount: number,
+	includeSubsections: boolean,
+): number {
+	const next = headings.find(
+		(candidate) =>
+			candidate.lineIndex > selected.lineIndex &&
+			(!includeSubsections || candidate.level <= selected.level),
+	);
+	return next ? next.lineIndex : lineCount;
+}
+
+function toLines(text: string): string[] {
+	const normalized = text.replace(/\r\n/g, "\n");
+	return (normalized.endsWith("\n") ? normalized.slice(0, -1) : normalized).split("\n");
+}
+
+function applySectionOperation(
+	lines: string[],
+	headingIndex: number,
+	endIndex: number,
+	operation: SectionOperation,
+	text: string,
+): string[] {
+	const before = lines.slice(0, headingIndex);
+	const headingLine = lines[headingIndex] ?? "";
+	const sectionContent = lines.slice(headingIndex + 1, endIndex);
+	const after = lines.slice(endIndex);
+	const insertLines = toLines(text);
+
+	// Trailing blank lines separate the section from the next heading; keep them in place.
+	let contentEnd = sectionContent.length;
+	while (contentEnd > 0 && sectionContent[contentEnd - 1]!.trim() === "") {
+		contentEnd -= 1;
+	}
+	const trailingBlank = sectionContent.slice(contentEnd);
+	const ownContent = sectionContent.slice(0, contentEnd);
+
+	switch (operation) {
+		case "replace":
+			return [...before, headingLine, ...(text.length > 0 ? insertLines : []), ...trailingBlank, ...after];
+		case "append":
+			return [...before, headingLine, ...ownContent, ...insertLines, ...trailingBlank, ...after];
+		case "prepend":
+			return [...before, headingLine, ...insertLines, ...sectionContent, ...after];
+		case "insert_before":
+			return [...before, ...insertLines, headingLine, ...sectionContent, ...after];
+		case "insert_after":
+			return [...before, headingLine, ...ownContent, ...trailingBlank, ...insertLines, ...after];
+		case "delete":
+			return [...before, ...after];
+	}
+}
+
+/**
+ * Built-in tool: edit_section
+ * Edits the content of a heading section without a unified diff
+ */
+export const editSectionTool: MCPToolDefinition = {
+	name: "edit_section",
+	description:
+		"Edit a heading section of a note without a diff. Target the heading by text (+ level) or by the id from get_note_outline, then replace, append, prepend, insert before/after, or delete the section.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			heading: {
+				type: "string",
+				description: "Heading text to match exactly. Required unless id is given.",
+			},
+			level: {
+				type: "number",
+				description: "Heading level (1-6) used with heading to disambiguate.",
+			},
+			id: {
+				type: "string",
+				description: "Heading id returned by get_note_outline.",
+			},
+			operation: {
+				type: "string",
+				enum: SECTION_OPERATIONS,
+				description:
+					"replace: replace the section content (heading kept). append/prepend: add content at the end/start of the section. insert_before/insert_after: add content before the heading or after the whole section. delete: remove the heading and its content.",
+			},
+			content: {
+				type: "string",
+				description: "Markdown to write. Required for every operation except delete.",
+			},
+			include_subsections: {
+				type: "boolean",
+				description:
+					"When true, the section includes its subsections. When false, it ends at the next heading of any level. Default: true.",
+				default: true,
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. The write fails with a conflict if the note changed since.",
+			},
+		},
+		required: ["path", "operation"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const path = typeof args.path === "string" ? args.path : "";
+		const heading = typeof args.heading === "string" ? args.heading.trim() : undefined;
+		const level = typeof args.level === "number" ? args.level : undefined;
+		const id = typeof args.id === "string" && args.id.length > 0 ? args.id : undefined;
+		const operation = args.operation as SectionOperation;
+		const text = typeof args.content === "string" ? args.content : undefined;
+		const includeSubsections = args.include_subsections !== false;
+		const expectedVersion = args.expected_version;
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!id && !heading) {
+			return {
+				content: [{ type: "text", text: "Error: heading or id is required." }],
+				isError: true,
+			};
+		}
+
+		if (level !== undefined && (!Number.isInteger(level) || level < 1 || level > 6)) {
+			return {
+				content: [{ type: "text", text: "Error: level must be an integer between 1 and 6." }],
+				isError: true,
+			};
+		}
+
+		if (!SECTION_OPERATIONS.includes(operation)) {
+			return {
+				content: [{ type: "text", text: `Error: operation must be one of ${SECTION_OPERATIONS.map((op) => `"${op}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (operation !== "delete" && text === undefined) {
+			return {
+				content: [{ type: "text", text: "Error: content is required unless operation=delete." }],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const currentContent = await context.vault.read(file);
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, currentContent);
+			if (conflict) {
+				return conflict;
+			}
+			const { frontmatter, body } = splitFrontmatter(currentContent);
+			const selected = findSectionHeading(currentContent, body, { heading, level, id });
+			if ("error" in selected) {
+				return {
+					content: [{ type: "text", text: selected.error }],
+					isError: true,
+				};
+			}
+
+			const lines = body.split("\n");
+			const headings = extractHeadingsWithPositions(body);
+			const endIndex = getSectionEndIndex(headings, selected, lines.length, includeSubsections);
+			const nextLines = applySectionOperation(lines, selected.lineIndex, endIndex, operation, text ?? "");
+			const nextBody = nextLines.join("\n");
+
+			if (nextBody === body) {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							ok: true,
+							path: normalizedPath,
+							operation,
+							changed: false,
+							version: computeContentVersion(currentContent),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const nextContent = mergeFrontmatter(frontmatter, nextBody);
+			await context.vault.modify(file, nextContent);
+			await recordEdit(context, {
+				tool: "edit_section",
+				action: "modify",
+				path: normalizedPath,
+				before: currentContent,
+				after: nextContent,
+			});
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: normalizedPath,
+						operation,
+						changed: true,
+						heading: selected.text,
+						level: selected.level,
+						start_line: selected.lineNumber,
+						line_delta: nextLines.length - lines.length,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [
+					{ type: "text", text: `Error editing section: ${error instanceof Error ? error.message : String(error)}` },
+				],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in section edit tools
+ */
+export function getBuiltinSectionEditTools(): MCPToolDefinition[] {
+	return [editSectionTool];
+}
@@ -0,0 +1,506 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { CALLOUT_FOLDS, CalloutFold, findCallouts, renderCallout } from "../helpers/callout-helper";
+import { findListItems, getChildIndent, ListItem, reindentItem } from "../helpers/list-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type CalloutsAction = "list" | "update";
+
+type ListItemsAction = "list" | "indent" | "outdent" | "move" | "insert_child";
+
+interface NoteSource {
+	file: TFile;
+	path: string;
+	content: string;
+	frontmatter: string;
+	body: string;
+}
+
+const CALLOUTS_ACTIONS: CalloutsAction[] = ["list", "update"];
+const LIST_ITEMS_ACTIONS: ListItemsAction[] = ["list", "indent", "outdent", "move", "insert_child"];
+const CALLOUT_TYPE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Reads a note and splits off its frontmatter for a structural edit.
+ */
+async function readNoteSource(path: string, context: AppContext): Promise<NoteSource | { error: string }> {
+	const normalizedPath = normalizeNotePath(path);
+	const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+	if (!file) {
+		return { error: `Error: Note not found at path "${normalizedPath}"` };
+	}
+
+	if (!(file instanceof TFile)) {
+		return { error: `Error: Path "${normalizedPath}" is a folder, not a note` };
+	}
+
+	const content = await context.vault.read(file);
+	return { file, path: normalizedPath, content, ...splitFrontmatter(content) };
+}
+
+/**
+ * Writes the edited body back and records the edit. Returns the new content.
+ */
+async function writeNoteBody(source: NoteSource, bodyLines: string[], tool: string, context: AppContext): Promise<string> {
+	const nextContent = mergeFrontmatter(source.frontmatter, bodyLines.join("\n"));
+	if (nextContent !== source.content) {
+		await context.vault.modify(source.file, nextContent);
+		await recordEdit(context, {
+			tool,
+			action: "modify",
+			path: source.path,
+			before: source.content,
+			after: nextContent,
+		});
+	}
+	return nextContent;
+}
+
+function isOrderedMarker(marker: string): boolean {
+	return /^\d/.test(marker);
+}
+
+/**
+ * Swaps two adjacent sibling items (with their children). Ordered markers stay in place so numbering is kept.
+ * Returns the new line index of the later item's block.
+ */
+function swapAdjacentItems(lines: string[], first: ListItem, second: ListItem): number {
+	const firstBlock = lines.slice(first.line, first.endLine);
+	const gap = lines.slice(first.endLine, second.line);
+	const secondBlock = lines.slice(second.line, second.endLine);
+	if (isOrderedMarker(first.marker) && isOrderedMarker(second.marker)) {
+		firstBlock[0] = firstBlock[0]!.replace(first.marker, second.marker);
+		secondBlock[0] = secondBlock[0]!.replace(second.marker, first.marker);
+	}
+	lines.splice(first.line, second.endLine - first.line, ...secondBlock, ...gap, ...firstBlock);
+	return first.line + secondBlock.length + gap.length;
+}
+
+/**
+ * Built-in tool: callouts
+ * Lists and edits Obsidian callouts
+ */
+export const calloutsTool: MCPToolDefinition = {
+	name: "callouts",
+	description:
+		"Work with Obsidian callouts (> [!note] Title). list: callouts with index, type, title, fold state, content (without the > prefix), heading and lines. update: change a callout's type, title, fold state or content in place. Lines are body line numbers (frontmatter excluded). Callouts nested in lists or other blockquotes are not included.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: CALLOUTS_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			index: {
+				type: "number",
+				description: "For update: zero-based index of the callout, as returned by list.",
+			},
+			type: {
+				type: "string",
+				description: "For update: new callout type, e.g. 'warning'.",
+			},
+			title: {
+				type: "string",
+				description: "For update: new title. An empty string removes the title.",
+			},
+			fold: {
+				type: "string",
+				enum: CALLOUT_FOLDS,
+				description: "For update: none (not foldable), expanded (+) or collapsed (-).",
+			},
+			content: {
+				type: "string",
+				description: "For update: new content without the > prefix. May contain nested callouts and lists.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. update fails with a conflict if the note changed since.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as CalloutsAction;
+		const path = typeof args.path === "string" ? args.path : "";
+		const index = typeof args.index === "number" ? args.index : undefined;
+		const type = typeof args.type === "string" ? args.type.trim() : undefined;
+		const title = typeof args.title === "string" ? args.title.trim() : undefined;
+		const fold = typeof args.fold === "string" ? args.fold as CalloutFold : undefined;
+		const newContent = typeof args.content === "string" ? args.content.replace(/\r\n/g, "\n").replace(/\n+$/, "") : undefined;
+		const expectedVersion = args.expected_version;
+
+		if (!CALLOUTS_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${CALLOUTS_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (action === "update") {
+			if (index === undefined || !Number.isInteger(index) || index < 0) {
+				return {
+					content: [{ type: "text", text: "Error: index is required for update and must be an integer >= 0." }],
+					isError: true,
+				};
+			}
+			if (type === undefined && title === undefined && fold === undefined && newContent === undefined) {
+				return {
+					content: [{ type: "text", text: "Error: update needs at least one of type, title, fold or content." }],
+					isError: true,
+				};
+			}
+			if (type !== undefined && !CALLOUT_TYPE_PATTERN.test(type)) {
+				return {
+					content: [{ type: "text", text: "Error: type must contain only letters, digits, '-' and '_'." }],
+					isError: true,
+				};
+			}
+			if (title !== undefined && /[\r\n]/.test(title)) {
+				return {
+					content: [{ type: "text", text: "Error: title must be a single line." }],
+					isError: true,
+				};
+			}
+			if (fold !== undefined && !CALLOUT_FOLDS.includes(fold)) {
+				return {
+					content: [{ type: "text", text: `Error: fold must be one of ${CALLOUT_FOLDS.map((name) => `"${name}"`).join(", ")}.` }],
+					isError: true,
+				};
+			}
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		try {
+			const note = await readNoteSource(path, context);
+			if ("error" in note) {
+				return {
+					content: [{ type: "text", text: note.error }],
+					isError: true,
+				};
+			}
+			const callouts = findCallouts(note.body);
+
+			if (action === "list") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: note.path,
+							callouts: callouts.map((callout) => ({
+								index: callout.index,
+								type: callout.type,
+								title: callout.title,
+								fold: callout.fold,
+								content: callout.content,
+								heading: callout.heading,
+								start_line: callout.startLine + 1,
+								end_line: callout.endLine,
+							})),
+							version: computeContentVersion(note.content),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, note.path, note.content);
+			if (conflict) {
+				return conflict;
+			}
+
+			const callout = callouts[index!];
+			if (!callout) {
+				return {
+					content: [{ type: "text", text: `Error: Callout ${index} not found (${callouts.length} callout${callouts.length === 1 ? "" : "s"}).` }],
+					isError: true,
+				};
+			}
+
+			const next = {
+				type: type ?? callout.type,
+				title: title ?? callout.title,
+				fold: fold ?? callout.fold,
+				content: newContent ?? callout.content,
+			};
+			const calloutLines = renderCallout(next);
+			const bodyLines = note.body.split("\n");
+			bodyLines.splice(callout.startLine, callout.endLine - callout.startLine, ...calloutLines);
+			const nextContent = await writeNoteBody(note, bodyLines, "callouts", context);
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: note.path,
+						changed: nextContent !== note.content,
+						index: callout.index,
+						...next,
+						start_line: callout.startLine + 1,
+						end_line: callout.startLine + calloutLines.length,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error editing callout: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Built-in tool: list_items
+ * Restructures nested markdown lists
+ */
+export const listItemsTool: MCPToolDefinition = {
+	name: "list_items",
+	description:
+		"Restructure markdown lists. Items are addressed by body line number (frontmatter excluded) and always move together with their children. list: items with depth, marker, text and parent line. indent: make the item a child of its previous sibling. outdent: move the item up one level (following siblings become its children, as in the editor). move: swap the item with its previous (up) or next (down) sibling. insert_child: add a child item with the given text.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: LIST_ITEMS_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			line: {
+				type: "number",
+				description: "Body line number (1-based) of the list item. Required except for list.",
+			},
+			direction: {
+				type: "string",
+				enum: ["up", "down"],
+				description: "For move: which sibling to swap with.",
+			},
+			text: {
+				type: "string",
+				description: "For insert_child: text of the new item, e.g. 'Buy milk' or '[ ] Buy milk' for a task.",
+			},
+			position: {
+				type: "string",
+				enum: ["first", "last"],
+				description: "For insert_child: insert before or after the existing children. Default: last.",
+				default: "last",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. Edits fail with a conflict if the note changed since.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as ListItemsAction;
+		const path = typeof args.path === "string" ? args.path : "";
+		const line = typeof args.line === "number" ? args.line : undefined;
+		const direction = typeof args.direction === "string" ? args.direction : undefined;
+		const text = typeof args.text === "string" ? args.text.trim() : undefined;
+		const position = typeof args.position === "string" ? args.position : "last";
+		const expectedVersion = args.expected_version;
+
+		if (!LIST_ITEMS_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${LIST_ITEMS_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (action !== "list" && (line === undefined || !Number.isInteger(line) || line < 1)) {
+			return {
+				content: [{ type: "text", text: "Error: line is required and must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (action === "move" && direction !== "up" && direction !== "down") {
+			return {
+				content: [{ type: "text", text: "Error: direction must be \"up\" or \"down\" for move." }],
+				isError: true,
+			};
+		}
+
+		if (action === "insert_child") {
+			if (!text || /[\r\n]/.test(text)) {
+				return {
+					content: [{ type: "text", text: "Error: text is required for insert_child and must be a single line." }],
+					isError: true,
+				};
+			}
+			if (position !== "first" && position !== "last") {
+				return {
+					content: [{ type: "text", text: "Error: position must be \"first\" or \"last\"." }],
+					isError: true,
+				};
+			}
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		try {
+			const note = await readNoteSource(path, context);
+			if ("error" in note) {
+				return {
+					content: [{ type: "text", text: note.error }],
+					isError: true,
+				};
+			}
+			const items = findListItems(note.body);
+
+			if (action === "list") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: note.path,
+							items: items.map((item) => ({
+								line: item.line + 1,
+								depth: item.depth,
+								marker: item.marker,
+								text: item.text,
+								parent_line: item.parent ? item.parent.line + 1 : null,
+								children: item.children.length,
+							})),
+							version: computeContentVersion(note.content),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, note.path, note.content);
+			if (conflict) {
+				return conflict;
+			}
+
+			const item = items.find((candidate) => candidate.line === line! - 1);
+			if (!item) {
+				return {
+					content: [{ type: "text", text: `Error: line ${line} of "${note.path}" is not a list item.` }],
+					isError: true,
+				};
+			}
+
+			const bodyLines = note.body.split("\n");
+			const siblingIndex = item.siblings.indexOf(item);
+			let itemLine = item.line;
+
+			if (action === "indent") {
+				const previous = item.siblings[siblingIndex - 1];
+				if (!previous) {
+					return {
+						content: [{ type: "text", text: "Error: The first item of a list cannot be indented." }],
+						isError: true,
+					};
+				}
+				reindentItem(bodyLines, item, getChildIndent(previous));
+			} else if (action === "outdent") {
+				if (!item.parent) {
+					return {
+						content: [{ type: "text", text: "Error: Top-level list items cannot be outdented." }],
+						isError: true,
+					};
+				}
+				reindentItem(bodyLines, item, item.parent.indent);
+			} else if (action === "move") {
+				const other = item.siblings[siblingIndex + (direction === "up" ? -1 : 1)];
+				if (!other) {
+					return {
+						content: [{ type: "text", text: `Error: The item has no ${direction === "up" ? "previous" : "next"} sibling.` }],
+						isError: true,
+					};
+				}
+				if (direction === "up") {
+					swapAdjacentItems(bodyLines, other, item);
+					itemLine = other.line;
+				} else {
+					itemLine = swapAdjacentItems(bodyLines, item, other);
+				}
+			} else {
+				const children = item.children;
+				const reference = position === "first" ? children[0] : children[children.length - 1];
+				let marker = "-";
+				if (reference && isOrderedMarker(reference.marker)) {
+					const number = Number.parseInt(reference.marker, 10);
+					marker = `${position === "first" ? number : number + 1}${reference.marker.slice(-1)}`;
+				} else if (reference) {
+					marker = reference.marker;
+				}
+				itemLine = position === "first" && reference ? reference.line : item.endLine;
+				bodyLines.splice(itemLine, 0, `${getChildIndent(item)}${marker} ${text}`);
+			}
+
+			const nextContent = await writeNoteBody(note, bodyLines, "list_items", context);
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: note.path,
+						action,
+						changed: nextContent !== note.content,
+						line: itemLine + 1,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error editing list: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in callout and list structure tools
+ */
+export function getBuiltinStructureTools(): MCPToolDefinition[] {
+	return [calloutsTool, listItemsTool];
+}
@@ -0,0 +1,421 @@
+import { TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import { normalizeNotePath } from "../helpers/vault-helper";
+import { findTables, MarkdownTable, serializeTable, TableAlign } from "../helpers/table-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type TablesAction = "list" | "read" | "insert_row" | "update_row" | "delete_row" | "add_column" | "remove_column";
+
+type CellValue = string | number | boolean;
+
+const TABLES_ACTIONS: TablesAction[] = ["list", "read", "insert_row", "update_row", "delete_row", "add_column", "remove_column"];
+const ALIGN_OPTIONS = ["left", "center", "right", "none"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCellValue(value: unknown): value is CellValue {
+	return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function toCell(value: CellValue): string | { error: string } {
+	const cell = String(value).trim();
+	return /[\r\n]/.test(cell) ? { error: "Error: Table cells cannot contain line breaks." } : cell;
+}
+
+/**
+ * Builds a row from cells in column order or from an object keyed by column header.
+ * Keyed cells update the given base row; positional cells replace it.
+ */
+function buildRow(values: unknown, header: string[], base: string[]): string[] | { error: string } {
+	const row = header.map((_, column) => base[column] ?? "");
+	if (Array.isArray(values)) {
+		if (values.length > header.length || !values.every(isCellValue)) {
+			return { error: `Error: values must be at most ${header.length} strings, numbers or booleans.` };
+		}
+		for (let column = 0; column < header.length; column += 1) {
+			const value = values[column];
+			const cell = value === undefined ? "" : toCell(value);
+			if (typeof cell !== "string") {
+				return cell;
+			}
+			row[column] = cell;
+		}
+		return row;
+	}
+	if (isPlainObject(values)) {
+		for (const [name, value] of Object.entries(values)) {
+			const column = header.indexOf(name);
+			if (column === -1) {
+				return { error: `Error: Column "${name}" not found. Columns: ${header.join(", ")}.` };
+			}
+			if (!isCellValue(value)) {
+				return { error: `Error: Value for column "${name}" must be a string, number or boolean.` };
+			}
+			const cell = toCell(value);
+			if (typeof cell !== "string") {
+				return cell;
+			}
+			row[column] = cell;
+		}
+		return row;
+	}
+	return { error: "Error: values (an array of cells) or cells (an object keyed by column header) is required." };
+}
+
+/**
+ * Resolves a column given by header name or zero-based index.
+ */
+function findColumn(header: string[], name: string | undefined, index: number | undefined): number | { error: string } {
+	if (index !== undefined) {
+		if (!Number.isInteger(index) || index < 0 || index >= header.length) {
+			return { error: `Error: column_index must be an integer between 0 and ${header.length - 1}.` };
+		}
+		return index;
+	}
+	if (name === undefined) {
+		return { error: "Error: column or column_index is required." };
+	}
+	const matches = header.flatMap((cell, column) => (cell === name ? [column] : []));
+	if (matches.length === 0) {
+		return { error: `Error: Column "${name}" not found. Columns: ${header.join(", ")}.` };
+	}
+	if (matches.length > 1) {
+		return { error: `Error: ${matches.length} columns are named "${name}". Use column_index.` };
+	}
+	return matches[0]!;
+}
+
+function checkRowIndex(row: number | undefined, rowCount: number, allowEnd: boolean): string | null {
+	const max = allowEnd ? rowCount : rowCount - 1;
+	if (row === undefined || !Number.isInteger(row) || row < 0 || row > max) {
+		return max < 0 ? "Error: The table has no data rows." : `Error: row must be an integer between 0 and ${max}.`;
+	}
+	return null;
+}
+
+/**
+ * Applies a write action to a table. Returns the updated table or an error message.
+ */
+function applyTableAction(
+	table: MarkdownTable,
+	action: Exclude<TablesAction, "list" | "read">,
+	args: Record<string, unknown>,
+): MarkdownTable | { error: string } {
+	const row = typeof args.row === "number" ? args.row : undefined;
+	const header = [...table.header];
+	const rows = table.rows.map((cells) => [...cells]);
+	const align = [...table.align];
+
+	if (action === "insert_row" || action === "update_row" || action === "delete_row") {
+		const rowError = checkRowIndex(action === "insert_row" ? row ?? rows.length : row, rows.length, action === "insert_row");
+		if (rowError) {
+			return { error: rowError };
+		}
+		const position = action === "insert_row" ? row ?? rows.length : row!;
+		if (action === "delete_row") {
+			rows.splice(position, 1);
+		} else {
+			if (args.values !== undefined && args.cells !== undefined) {
+				return { error: "Error: values and cells cannot both be set." };
+			}
+			const next = buildRow(args.cells ?? args.values, header, action === "update_row" ? rows[position]! : []);
+			if ("error" in next) {
+				return next;
+			}
+			rows.splice(position, action === "update_row" ? 1 : 0, next);
+		}
+		return { ...table, header, rows, align };
+	}
+
+	if (action === "add_column") {
+		const name = typeof args.column === "string" ? toCell(args.column) : { error: "Error: column (the new header) is required." };
+		if (typeof name !== "string") {
+			return name;
+		}
+		const position = typeof args.position === "number" ? args.position : header.length;
+		if (!Number.isInteger(position) || position < 0 || position > header.length) {
+			return { error: `Error: position must be an integer between 0 and ${header.length}.` };
+		}
+		const values = args.values ?? [];
+		if (!Array.isArray(values) || values.length > rows.length || !values.every(isCellValue)) {
+			return { error: `Error: values must be an array of at most ${rows.length} cells, one per row.` };
+		}
+		const cells: string[] = [];
+		for (const value of values) {
+			const cell = toCell(value);
+			if (typeof cell !== "string") {
+				return cell;
+			}
+			cells.push(cell);
+		}
+		header.splice(position, 0, name);
+		align.splice(position, 0, args.align === "none" || args.align === undefined ? null : args.align as TableAlign);
+		rows.forEach((cellsInRow, index) => cellsInRow.splice(position, 0, cells[index] ?? ""));
+		return { ...table, header, rows, align };
+	}
+
+	const column = findColumn(
+		header,
+		typeof args.column === "string" ? args.column : undefined,
+		typeof args.column_index === "number" ? args.column_index : undefined,
+	);
+	if (typeof column !== "number") {
+		return column;
+	}
+	if (header.length === 1) {
+		return { error: "Error: Cannot remove the only column of a table." };
+	}
+	header.splice(column, 1);
+	align.splice(column, 1);
+	rows.forEach((cells) => cells.splice(column, 1));
+	return { ...table, header, rows, align };
+}
+
+/**
+ * Built-in tool: tables
+ * Reads and edits markdown tables as structured rows
+ */
+export const tablesTool: MCPToolDefinition = {
+	name: "tables",
+	description:
+		"Work with markdown tables in a note. list: tables with their heading, line and columns. read: one table as header + rows JSON. insert_row/update_row/delete_row: change data rows. add_column/remove_column: change columns. Edited tables are rewritten with aligned columns. Select a table by index, optionally counted among the tables under a heading. Rows are zero-based data rows (the header is not a row).",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: TABLES_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			path: {
+				type: "string",
+				description: "Path to the note (e.g., 'folder/note.md' or 'note'). The .md extension is optional.",
+			},
+			heading: {
+				type: "string",
+				description: "Only consider tables directly under this heading (exact text).",
+			},
+			table: {
+				type: "number",
+				description: "Zero-based index of the table in the note, or under heading when given. Default: 0.",
+				default: 0,
+			},
+			row: {
+				type: "number",
+				description: "Zero-based data row. For insert_row, the position to insert at (default: end).",
+			},
+			values: {
+				type: "array",
+				description: "insert_row/update_row: the cells in column order (missing trailing cells are empty). add_column: one cell per row.",
+			},
+			cells: {
+				type: "object",
+				description: "insert_row/update_row: cells keyed by column header, e.g. {\"Status\": \"done\"}. update_row only changes these cells.",
+			},
+			column: {
+				type: "string",
+				description: "add_column: the new header. remove_column: the header of the column to remove.",
+			},
+			column_index: {
+				type: "number",
+				description: "remove_column: zero-based column index, when headers are ambiguous.",
+			},
+			position: {
+				type: "number",
+				description: "add_column: zero-based position of the new column. Default: last.",
+			},
+			align: {
+				type: "string",
+				enum: ALIGN_OPTIONS,
+				description: "add_column: alignment of the new column. Default: none.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. Writes fail with a conflict if the note changed since.",
+			},
+		},
+		required: ["path"],
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as TablesAction;
+		const path = typeof args.path === "string" ? args.path : "";
+		const heading = typeof args.heading === "string" && args.heading.trim().length > 0 ? args.heading.trim() : undefined;
+		const tableIndex = typeof args.table === "number" ? args.table : 0;
+		const expectedVersion = args.expected_version;
+
+		if (!TABLES_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${TABLES_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!path || path.trim().length === 0) {
+			return {
+				content: [{ type: "text", text: "Error: path is required." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(tableIndex) || tableIndex < 0) {
+			return {
+				content: [{ type: "text", text: "Error: table must be an integer >= 0." }],
+				isError: true,
+			};
+		}
+
+		if (args.align !== undefined && !ALIGN_OPTIONS.includes(args.align as string)) {
+			return {
+				content: [{ type: "text", text: `Error: align must be one of ${ALIGN_OPTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const content = await context.vault.read(file);
+			const { frontmatter, body } = splitFrontmatter(content);
+			const tables = findTables(body).filter((table) => heading === undefined || table.heading === heading);
+
+			if (action === "list") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: normalizedPath,
+							tables: tables.map((table) => ({
+								index: table.index,
+								heading: table.heading,
+								line: table.startLine + 1,
+								columns: table.header,
+								row_count: table.rows.length,
+							})),
+							version: computeContentVersion(content),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const table = tables[tableIndex];
+			if (!table) {
+				const scope = heading === undefined ? "" : ` under heading "${heading}"`;
+				return {
+					content: [{
+						type: "text",
+						text: `Error: Table ${tableIndex} not found${scope} in "${normalizedPath}" (${tables.length} table${tables.length === 1 ? "" : "s"}).`,
+					}],
+					isError: true,
+				};
+			}
+
+			if (action === "read") {
+				return {
+					content: [{
+						type: "text",
+						text: JSON.stringify({
+							path: normalizedPath,
+							index: table.index,
+							heading: table.heading,
+							line: table.startLine + 1,
+							header: table.header,
+							align: table.align,
+							rows: table.rows,
+							version: computeContentVersion(content),
+						}, null, 2),
+					}],
+				};
+			}
+
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, content);
+			if (conflict) {
+				return conflict;
+			}
+
+			const next = applyTableAction(table, action, args);
+			if ("error" in next) {
+				return {
+					content: [{ type: "text", text: next.error }],
+					isError: true,
+				};
+			}
+
+			const bodyLines = body.split("\n");
+			// Keep CRLF line endings, including a last row without one at the end of the note
+			const lineEnding = bodyLines[table.startLine]!.endsWith("\r") ? "\r" : "";
+			const lastLineEnding = bodyLines[table.endLine - 1]!.endsWith("\r") ? "\r" : "";
+			const lines = serializeTable(next).map((line, index, all) =>
+				line + (index === all.length - 1 ? lastLineEnding : lineEnding));
+			bodyLines.splice(table.startLine, table.endLine - table.startLine, ...lines);
+			const nextContent = mergeFrontmatter(frontmatter, bodyLines.join("\n"));
+			const changed = nextContent !== content;
+			if (changed) {
+				await context.vault.modify(file, nextContent);
+				await recordEdit(context, {
+					tool: "tables",
+					action: "modify",
+					path: normalizedPath,
+					before: content,
+					after: nextContent,
+				});
+			}
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						ok: true,
+						path: normalizedPath,
+						action,
+						changed,
+						index: table.index,
+						line: table.startLine + 1,
+						header: next.header,
+						rows: next.rows,
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error editing table: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in table tools
+ */
+export function getBuiltinTableTools(): MCPToolDefinition[] {
+	return [tablesTool];
+}
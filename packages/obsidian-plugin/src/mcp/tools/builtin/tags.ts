@@ -0,0 +1,407 @@
+import { TFile } from "obsidian";
+import { createTwoFilesPatch } from "diff";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import {
+	buildNextCursor,
+	getMarkdownFilesInFolder,
+	getNoteTags,
+	normalizeFolderPath,
+	normalizeNotePath,
+	normalizeTag,
+	parseCursor,
+} from "../helpers/vault-helper";
+import {
+	addTagsToContent,
+	isValidTagName,
+	parseTagExpression,
+	removeTagsFromContent,
+	renameTagInContent,
+	TagRewrite,
+} from "../helpers/tag-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type TagsAction = "list" | "find" | "rename" | "add" | "remove";
+
+interface TagCount {
+	tag: string;
+	/** Notes tagged with this tag or one of its nested children */
+	count: number;
+	/** Notes tagged with exactly this tag */
+	direct: number;
+}
+
+interface TagFileReport {
+	path: string;
+	changes: number;
+	diff?: string;
+	error?: string;
+}
+
+const TAGS_ACTIONS: TagsAction[] = ["list", "find", "rename", "add", "remove"];
+const DEFAULT_LIMIT = 100;
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function countTags(files: TFile[], context: AppContext): TagCount[] {
+	const direct = new Map<string, number>();
+	const nested = new Map<string, Set<string>>();
+	for (const file of files) {
+		for (const tag of getNoteTags(context.app.metadataCache.getFileCache(file))) {
+			direct.set(tag, (direct.get(tag) ?? 0) + 1);
+			// Every ancestor of "a/b/c" ("a", "a/b") also counts the note once
+			const segments = tag.split("/");
+			for (let index = 1; index <= segments.length; index += 1) {
+				const ancestor = segments.slice(0, index).join("/");
+				const notes = nested.get(ancestor) ?? new Set<string>();
+				notes.add(file.path);
+				nested.set(ancestor, notes);
+			}
+		}
+	}
+	return Array.from(nested.entries()).map(([tag, notes]) => ({
+		tag,
+		count: notes.size,
+		direct: direct.get(tag) ?? 0,
+	}));
+}
+
+/**
+ * Selects the notes a bulk action applies to. Every given selector must match.
+ */
+function selectTargetFiles(
+	files: TFile[],
+	paths: string[] | undefined,
+	query: string | undefined,
+	context: AppContext,
+): TFile[] | { error: string } {
+	let selected = files;
+	if (paths !== undefined) {
+		const wanted = new Set(paths.map(normalizeNotePath));
+		selected = selected.filter((file) => wanted.has(file.path));
+	}
+	if (query !== undefined) {
+		const predicate = parseTagExpression(query);
+		if ("error" in predicate) {
+			return predicate;
+		}
+		selected = selected.filter((file) => predicate(getNoteTags(context.app.metadataCache.getFileCache(file))));
+	}
+	return selected;
+}
+
+/**
+ * Applies a rewrite to each file. In dry-run mode the diffs are returned instead of written.
+ */
+async function applyTagRewrites(
+	files: TFile[],
+	rewrite: (content: string, file: TFile) => TagRewrite | { error: string },
+	dryRun: boolean,
+	context: AppContext,
+): Promise<TagFileReport[]> {
+	const reports: TagFileReport[] = [];
+	for (const file of files) {
+		try {
+			const content = await context.vault.read(file);
+			const result = rewrite(content, file);
+			if ("error" in result) {
+				reports.push({ path: file.path, changes: 0, error: result.error });
+				continue;
+			}
+			if (result.changes === 0 || result.content === content) {
+				continue;
+			}
+			if (dryRun) {
+				reports.push({
+					path: file.path,
+					changes: result.changes,
+					diff: createTwoFilesPatch(file.path, file.path, content, result.content),
+				});
+				continue;
+			}
+			await context.vault.modify(file, result.content);
+			await recordEdit(context, {
+				tool: "tags",
+				action: "modify",
+				path: file.path,
+				before: content,
+				after: result.content,
+			});
+			reports.push({ path: file.path, changes: result.changes });
+		} catch (error) {
+			reports.push({
+				path: file.path,
+				changes: 0,
+				error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+	}
+	return reports;
+}
+
+function buildRewriteResult(payload: Record<string, unknown>, reports: TagFileReport[]): MCPToolResult {
+	const result: MCPToolResult = {
+		content: [{
+			type: "text",
+			text: JSON.stringify({
+				...payload,
+				files: reports,
+				total_files: reports.filter((report) => report.error === undefined).length,
+				total_changes: reports.reduce((sum, report) => sum + report.changes, 0),
+			}, null, 2),
+		}],
+	};
+	if (reports.some((report) => report.error !== undefined)) {
+		result.isError = true;
+	}
+	return result;
+}
+
+/**
+ * Built-in tool: tags
+ * Lists, finds, renames and bulk-applies tags across the vault
+ */
+export const tagsTool: MCPToolDefinition = {
+	name: "tags",
+	description:
+		"Work with tags across the vault. list: all tags with note counts (nested #a/b tags also count toward #a). find: notes matching a boolean tag expression. rename: rename or merge a tag and its nested children in frontmatter and inline tags. add/remove: apply tags to a set of notes. Write actions support dry_run.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: TAGS_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			folder: {
+				type: "string",
+				description: "Limit every action to notes in this folder. Defaults to the whole vault.",
+			},
+			prefix: {
+				type: "string",
+				description: "For list: only tags equal to or nested under this tag.",
+			},
+			sort_by: {
+				type: "string",
+				enum: ["tag", "count"],
+				description: "For list: sort by tag name or by note count (descending). Default: tag.",
+				default: "tag",
+			},
+			expression: {
+				type: "string",
+				description:
+					"For find (required) and add/remove (optional target filter): boolean tag expression, e.g. '#project AND (#active OR #review) AND NOT #archived'. Supports AND/OR/NOT, &&/||/!, -tag and parentheses.",
+			},
+			from: {
+				type: "string",
+				description: "For rename: the tag to rename. Nested children are renamed too.",
+			},
+			to: {
+				type: "string",
+				description: "For rename: the new tag name. Renaming to an existing tag merges the two.",
+			},
+			tags: {
+				type: "array",
+				items: { type: "string" },
+				description: "For add/remove: tags to add to the frontmatter or remove from frontmatter and inline text.",
+			},
+			paths: {
+				type: "array",
+				items: { type: "string" },
+				description: "For add/remove: notes to change. Combined with folder and expression, all must match.",
+			},
+			dry_run: {
+				type: "boolean",
+				description: "For rename/add/remove: report per-file diffs without writing. Default: false.",
+				default: false,
+			},
+			limit: {
+				type: "number",
+				description: `For list/find: maximum number of entries per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "For list/find: cursor returned as next_cursor by a previous call.",
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as TagsAction;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const prefix = typeof args.prefix === "string" && args.prefix.trim().length > 0 ? normalizeTag(args.prefix) : undefined;
+		const sortBy = typeof args.sort_by === "string" ? args.sort_by : "tag";
+		const expression = typeof args.expression === "string" && args.expression.trim().length > 0 ? args.expression : undefined;
+		const from = typeof args.from === "string" ? args.from.trim() : "";
+		const to = typeof args.to === "string" ? args.to.trim() : "";
+		const tags = args.tags;
+		const paths = args.paths;
+		const dryRun = args.dry_run === true;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (!TAGS_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${TAGS_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!["tag", "count"].includes(sortBy)) {
+			return {
+				content: [{ type: "text", text: "Error: sort_by must be \"tag\" or \"count\"." }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		const files = getMarkdownFilesInFolder(context.vault.getMarkdownFiles(), folder);
+
+		if (action === "list") {
+			const counts = countTags(files, context)
+				.filter((entry) => prefix === undefined || entry.tag === prefix || entry.tag.startsWith(`${prefix}/`))
+				.sort((a, b) => (sortBy === "count" ? b.count - a.count : 0) || a.tag.localeCompare(b.tag));
+			const page = counts.slice(offset, offset + limit);
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						total: counts.length,
+						tags: page,
+						next_cursor: buildNextCursor(offset + page.length, counts.length),
+					}, null, 2),
+				}],
+			};
+		}
+
+		if (action === "find") {
+			if (!expression) {
+				return {
+					content: [{ type: "text", text: "Error: expression is required for action=find." }],
+					isError: true,
+				};
+			}
+			const predicate = parseTagExpression(expression);
+			if ("error" in predicate) {
+				return {
+					content: [{ type: "text", text: predicate.error }],
+					isError: true,
+				};
+			}
+			const matches = files
+				.map((file) => ({ path: file.path, tags: getNoteTags(context.app.metadataCache.getFileCache(file)) }))
+				.filter((note) => predicate(note.tags));
+			const page = matches.slice(offset, offset + limit);
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						expression,
+						total: matches.length,
+						notes: page,
+						next_cursor: buildNextCursor(offset + page.length, matches.length),
+					}, null, 2),
+				}],
+			};
+		}
+
+		if (action === "rename") {
+			if (!from || !to) {
+				return {
+					content: [{ type: "text", text: "Error: from and to are required for action=rename." }],
+					isError: true,
+				};
+			}
+			if (!isValidTagName(to)) {
+				return {
+					content: [{ type: "text", text: `Error: "${to}" is not a valid tag name.` }],
+					isError: true,
+				};
+			}
+			if (from.replace(/^#/, "") === to.replace(/^#/, "")) {
+				return {
+					content: [{ type: "text", text: "Error: from and to are the same tag." }],
+					isError: true,
+				};
+			}
+			const fromTag = normalizeTag(from);
+			const candidates = files.filter((file) =>
+				getNoteTags(context.app.metadataCache.getFileCache(file))
+					.some((tag) => tag === fromTag || tag.startsWith(`${fromTag}/`)),
+			);
+			const reports = await applyTagRewrites(candidates, (content) => renameTagInContent(content, from, to), dryRun, context);
+			return buildRewriteResult({ action, from, to, dry_run: dryRun }, reports);
+		}
+
+		if (!isStringArray(tags) || tags.length === 0) {
+			return {
+				content: [{ type: "text", text: `Error: tags must be a non-empty array of strings for action=${action}.` }],
+				isError: true,
+			};
+		}
+
+		const invalidTag = tags.find((tag) => !isValidTagName(tag));
+		if (invalidTag !== undefined) {
+			return {
+				content: [{ type: "text", text: `Error: "${invalidTag}" is not a valid tag name.` }],
+				isError: true,
+			};
+		}
+
+		if (paths !== undefined && !isStringArray(paths)) {
+			return {
+				content: [{ type: "text", text: "Error: paths must be an array of strings." }],
+				isError: true,
+			};
+		}
+
+		if (paths === undefined && expression === undefined && folder === "") {
+			return {
+				content: [{ type: "text", text: `Error: action=${action} needs paths, folder or expression to select notes.` }],
+				isError: true,
+			};
+		}
+
+		const targets = selectTargetFiles(files, paths, expression, context);
+		if ("error" in targets) {
+			return {
+				content: [{ type: "text", text: targets.error }],
+				isError: true,
+			};
+		}
+
+		const reports = await applyTagRewrites(
+			targets,
+			(content, file) =>
+				action === "add"
+					? addTagsToContent(content, tags, getNoteTags(context.app.metadataCache.getFileCache(file)))
+					: removeTagsFromContent(content, tags),
+			dryRun,
+			context,
+		);
+		return buildRewriteResult({ action, tags, dry_run: dryRun }, reports);
+	},
+};
+
+/**
+ * Get all built-in tag tools
+ */
+export function getBuiltinTagTools(): MCPToolDefinition[] {
+	return [tagsTool];
+}
@@ -0,0 +1,464 @@
+import { CachedMetadata, TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import { mergeFrontmatter, splitFrontmatter } from "../helpers/markdown-helper";
+import {
+	buildNextCursor,
+	getBodyLineOffset,
+	getMarkdownFilesInFolder,
+	normalizeFolderPath,
+	normalizeNotePath,
+	parseCursor,
+} from "../helpers/vault-helper";
+import { parseDateExpression, toTimestamp } from "../helpers/query-helper";
+import { formatPropertyDate } from "../helpers/property-types-helper";
+import { checkExpectedVersion, computeContentVersion, validateExpectedVersion } from "../helpers/version-helper";
+import { recordEdit } from "../helpers/journal-helper";
+
+type TasksAction = "list" | "toggle" | "update";
+
+interface TaskEntry {
+	path: string;
+	line: number;
+	status: string;
+	text: string;
+	due: string | null;
+	heading: string | null;
+}
+
+interface ParsedTaskLine {
+	/** Indentation, blockquote markers and list marker, e.g. "    - " or "> - " */
+	prefix: string;
+	status: string;
+	/** Everything after the checkbox, without the leading space */
+	text: string;
+	/** "\r" on CRLF lines, put back when the line is written */
+	lineEnding: string;
+}
+
+const TASKS_ACTIONS: TasksAction[] = ["list", "toggle", "update"];
+const DEFAULT_LIMIT = 100;
+const TASK_LINE_PATTERN = /^([ \t]*(?:>[ \t]?)*[ \t]*(?:[-*+]|\d+[.)])[ \t]+)\[(.)\](?: (.*)|)$/;
+const EMOJI_DUE_PATTERN = /📅️?\s*(\d{4}-\d{2}-\d{2})/u;
+const INLINE_DUE_PATTERN = /([[(])due::\s*(\d{4}-\d{2}-\d{2})([\])])/;
+const BLOCK_ID_SUFFIX_PATTERN = /\s\^[A-Za-z0-9-]+\s*$/;
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function parseTaskLine(line: string): ParsedTaskLine | null {
+	const lineEnding = line.endsWith("\r") ? "\r" : "";
+	const match = line.slice(0, line.length - lineEnding.length).match(TASK_LINE_PATTERN);
+	if (!match) {
+		return null;
+	}
+	return { prefix: match[1] ?? "", status: match[2] ?? " ", text: match[3] ?? "", lineEnding };
+}
+
+function formatTaskLine(task: ParsedTaskLine): string {
+	return `${task.prefix}[${task.status}]${task.text.length > 0 ? ` ${task.text}` : ""}${task.lineEnding}`;
+}
+
+/**
+ * Reads the due date from a Tasks-plugin emoji (📅 2024-01-31) or a Dataview inline
+ * field ([due:: 2024-01-31] or (due:: 2024-01-31)).
+ */
+function getTaskDue(text: string): string | null {
+	return text.match(EMOJI_DUE_PATTERN)?.[1] ?? text.match(INLINE_DUE_PATTERN)?.[2] ?? null;
+}
+
+/**
+ * Sets or clears the due date, keeping whichever notation the task already uses.
+ * New due dates are added as 📅 before a trailing block id.
+ */
+function setTaskDue(text: string, due: string | null): string {
+	if (due === null) {
+		return text
+			.replace(EMOJI_DUE_PATTERN, "")
+			.replace(INLINE_DUE_PATTERN, "")
+			.replace(/\s{2,}/g, " ")
+			.trim();
+	}
+	if (EMOJI_DUE_PATTERN.test(text)) {
+		return text.replace(EMOJI_DUE_PATTERN, `📅 ${due}`);
+	}
+	if (INLINE_DUE_PATTERN.test(text)) {
+		return text.replace(INLINE_DUE_PATTERN, (_match, open: string, _date: string, close: string) => `${open}due:: ${due}${close}`);
+	}
+	const blockId = text.match(BLOCK_ID_SUFFIX_PATTERN)?.[0] ?? "";
+	const rest = text.slice(0, text.length - blockId.length).trimEnd();
+	return `${rest}${rest.length > 0 ? " " : ""}📅 ${due}${blockId}`;
+}
+
+function parseDueBound(value: unknown, name: string): number | undefined | { error: string } {
+	if (value === undefined) {
+		return undefined;
+	}
+	const timestamp = typeof value === "string" ? parseDateExpression(value) : null;
+	if (timestamp === null) {
+		return { error: `Error: ${name} must be a date (YYYY-MM-DD) or a relative date such as today+7d.` };
+	}
+	return timestamp;
+}
+
+function getContainingHeading(cache: CachedMetadata | null, line: number): string | null {
+	let heading: string | null = null;
+	for (const entry of cache?.headings ?? []) {
+		if (entry.position.start.line >= line) {
+			break;
+		}
+		heading = entry.heading;
+	}
+	return heading;
+}
+
+async function collectTasks(file: TFile, cache: CachedMetadata | null, read: (file: TFile) => Promise<string>): Promise<TaskEntry[]> {
+	const items = (cache?.listItems ?? []).filter((item) => item.task !== undefined);
+	if (items.length === 0) {
+		return [];
+	}
+	const lines = (await read(file)).split("\n");
+	const lineOffset = getBodyLineOffset(cache);
+	const tasks: TaskEntry[] = [];
+	for (const item of items) {
+		const lineIndex = item.position.start.line;
+		const task = parseTaskLine(lines[lineIndex] ?? "");
+		if (!task) {
+			continue;
+		}
+		tasks.push({
+			path: file.path,
+			line: lineIndex - lineOffset + 1,
+			status: task.status,
+			text: task.text,
+			due: getTaskDue(task.text),
+			heading: getContainingHeading(cache, lineIndex),
+		});
+	}
+	return tasks;
+}
+
+/**
+ * Built-in tool: tasks
+ * Lists, toggles and updates markdown checkbox tasks
+ */
+export const tasksTool: MCPToolDefinition = {
+	name: "tasks",
+	description:
+		"Work with markdown checkbox tasks (- [ ] / - [x]). list: tasks across the vault or a folder, filtered by status, text, due date and containing heading. toggle: flip a task between open and done. update: change a task's status, text or due date (new_status, new_text, new_due). Due dates are read from Tasks-plugin emoji (📅 2024-01-31) and Dataview inline fields ([due:: 2024-01-31]). Lines are body line numbers (frontmatter excluded); indentation is preserved.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			action: {
+				type: "string",
+				enum: TASKS_ACTIONS,
+				description: "Operation to perform. Default: list.",
+				default: "list",
+			},
+			folder: {
+				type: "string",
+				description: "For list: only tasks in notes in this folder. Defaults to the whole vault.",
+			},
+			path: {
+				type: "string",
+				description: "For list: only tasks in this note. Required for toggle/update.",
+			},
+			line: {
+				type: "number",
+				description: "For toggle/update: body line number (1-based) of the task, as returned by list.",
+			},
+			status: {
+				type: "array",
+				items: { type: "string" },
+				description:
+					"For list: status characters to include, e.g. [\" \"] for open, [\"x\"] for done, or custom ones like \"/\" and \"-\".",
+			},
+			text: {
+				type: "string",
+				description: "For list: case-insensitive substring the task text must contain.",
+			},
+			heading: {
+				type: "string",
+				description: "For list: case-insensitive substring of the heading the task is under.",
+			},
+			due_before: {
+				type: "string",
+				description: "For list: only tasks due on or before this date (YYYY-MM-DD or relative, e.g. today, today+7d).",
+			},
+			due_after: {
+				type: "string",
+				description: "For list: only tasks due on or after this date (YYYY-MM-DD or relative).",
+			},
+			has_due: {
+				type: "boolean",
+				description: "For list: only tasks with (true) or without (false) a due date.",
+			},
+			new_status: {
+				type: "string",
+				description: "For update: the new status character.",
+			},
+			new_text: {
+				type: "string",
+				description: "For update: the new task text. A trailing ^block-id is kept.",
+			},
+			new_due: {
+				type: "string",
+				description: "For update: the new due date (YYYY-MM-DD or relative), or an empty string to remove it.",
+			},
+			expected_version: {
+				type: "string",
+				description: "Optional version returned by a read tool. toggle/update fail with a conflict if the note changed since.",
+			},
+			limit: {
+				type: "number",
+				description: `For list: maximum number of tasks per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "For list: cursor returned as next_cursor by a previous call.",
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const action = (typeof args.action === "string" ? args.action : "list") as TasksAction;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const path = typeof args.path === "string" && args.path.trim().length > 0 ? args.path : undefined;
+		const line = typeof args.line === "number" ? args.line : undefined;
+		const status = args.status;
+		const text = typeof args.text === "string" && args.text.length > 0 ? args.text.toLowerCase() : undefined;
+		const heading = typeof args.heading === "string" && args.heading.trim().length > 0 ? args.heading.toLowerCase() : undefined;
+		const hasDue = typeof args.has_due === "boolean" ? args.has_due : undefined;
+		const newStatus = args.new_status;
+		const newText = typeof args.new_text === "string" ? args.new_text : undefined;
+		const newDue = typeof args.new_due === "string" ? args.new_due.trim() : undefined;
+		const expectedVersion = args.expected_version;
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (!TASKS_ACTIONS.includes(action)) {
+			return {
+				content: [{ type: "text", text: `Error: action must be one of ${TASKS_ACTIONS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (action === "list") {
+			if (status !== undefined && (!isStringArray(status) || status.some((entry) => entry.length !== 1))) {
+				return {
+					content: [{ type: "text", text: "Error: status must be an array of single characters." }],
+					isError: true,
+				};
+			}
+
+			const dueBefore = parseDueBound(args.due_before, "due_before");
+			const dueAfter = parseDueBound(args.due_after, "due_after");
+			for (const bound of [dueBefore, dueAfter]) {
+				if (typeof bound === "object") {
+					return {
+						content: [{ type: "text", text: bound.error }],
+						isError: true,
+					};
+				}
+			}
+
+			if (!Number.isInteger(limit) || limit < 1) {
+				return {
+					content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+					isError: true,
+				};
+			}
+
+			if (offset === null) {
+				return {
+					content: [{ type: "text", text: "Error: cursor is invalid." }],
+					isError: true,
+				};
+			}
+
+			const files = path
+				? context.vault.getMarkdownFiles().filter((file) => file.path === normalizeNotePath(path))
+				: getMarkdownFilesInFolder(context.vault.getMarkdownFiles(), folder);
+			const matches: TaskEntry[] = [];
+			try {
+				for (const file of files) {
+					const tasks = await collectTasks(file, context.app.metadataCache.getFileCache(file), (target) => context.vault.cachedRead(target));
+					for (const task of tasks) {
+						const dueTime = task.due ? toTimestamp(task.due) : null;
+						if (
+							(status === undefined || status.includes(task.status)) &&
+							(text === undefined || task.text.toLowerCase().includes(text)) &&
+							(heading === undefined || (task.heading?.toLowerCase().includes(heading) ?? false)) &&
+							(hasDue === undefined || hasDue === (task.due !== null)) &&
+							(typeof dueBefore !== "number" || (dueTime !== null && dueTime <= dueBefore)) &&
+							(typeof dueAfter !== "number" || (dueTime !== null && dueTime >= dueAfter))
+						) {
+							matches.push(task);
+						}
+					}
+				}
+			} catch (error) {
+				return {
+					content: [{ type: "text", text: `Error listing tasks: ${error instanceof Error ? error.message : String(error)}` }],
+					isError: true,
+				};
+			}
+
+			const page = matches.slice(offset, offset + limit);
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						total: matches.length,
+						tasks: page,
+						next_cursor: buildNextCursor(offset + page.length, matches.length),
+					}, null, 2),
+				}],
+			};
+		}
+
+		if (!path) {
+			return {
+				content: [{ type: "text", text: `Error: path is required for action=${action}.` }],
+				isError: true,
+			};
+		}
+
+		if (line === undefined || !Number.isInteger(line) || line < 1) {
+			return {
+				content: [{ type: "text", text: `Error: line must be an integer >= 1 for action=${action}.` }],
+				isError: true,
+			};
+		}
+
+		if (action === "update") {
+			if (newStatus !== undefined && (typeof newStatus !== "string" || newStatus.length !== 1)) {
+				return {
+					content: [{ type: "text", text: "Error: new_status must be a single character." }],
+					isError: true,
+				};
+			}
+			if (newStatus === undefined && newText === undefined && newDue === undefined) {
+				return {
+					content: [{ type: "text", text: "Error: action=update needs at least one of new_status, new_text or new_due." }],
+					isError: true,
+				};
+			}
+		}
+
+		let due: string | null | undefined;
+		if (action === "update" && newDue !== undefined) {
+			const timestamp = newDue.length > 0 ? parseDateExpression(newDue) : null;
+			if (newDue.length > 0 && timestamp === null) {
+				return {
+					content: [{ type: "text", text: "Error: new_due must be a date (YYYY-MM-DD) or a relative date such as today+7d." }],
+					isError: true,
+				};
+			}
+			due = timestamp === null ? null : formatPropertyDate(new Date(timestamp));
+		}
+
+		const versionError = validateExpectedVersion(expectedVersion);
+		if (versionError) {
+			return {
+				content: [{ type: "text", text: versionError }],
+				isError: true,
+			};
+		}
+
+		const normalizedPath = normalizeNotePath(path);
+		const file = context.vault.getAbstractFileByPath(normalizedPath);
+
+		if (!file) {
+			return {
+				content: [{ type: "text", text: `Error: Note not found at path "${normalizedPath}"` }],
+				isError: true,
+			};
+		}
+
+		if (!(file instanceof TFile)) {
+			return {
+				content: [{ type: "text", text: `Error: Path "${normalizedPath}" is a folder, not a note` }],
+				isError: true,
+			};
+		}
+
+		try {
+			const content = await context.vault.read(file);
+			const conflict = checkExpectedVersion(expectedVersion as string | undefined, normalizedPath, content);
+			if (conflict) {
+				return conflict;
+			}
+
+			const { frontmatter, body } = splitFrontmatter(content);
+			const bodyLines = body.split("\n");
+			const currentLine = bodyLines[line - 1];
+			const task = currentLine === undefined ? null : parseTaskLine(currentLine);
+			if (currentLine === undefined || !task) {
+				return {
+					content: [{ type: "text", text: `Error: line ${line} of "${normalizedPath}" is not a task.` }],
+					isError: true,
+				};
+			}
+
+			const next: ParsedTaskLine = { ...task };
+			if (action === "toggle") {
+				next.status = task.status === " " ? "x" : " ";
+			} else {
+				if (typeof newStatus === "string") {
+					next.status = newStatus;
+				}
+				if (newText !== undefined) {
+					const blockId = task.text.match(BLOCK_ID_SUFFIX_PATTERN)?.[0] ?? "";
+					next.text = `${newText.trim()}${blockId}`;
+				}
+				if (due !== undefined) {
+					next.text = setTaskDue(next.text, due);
+				}
+			}
+
+			const nextLine = formatTaskLine(next);
+			let nextContent = content;
+			if (nextLine !== currentLine) {
+				bodyLines[line - 1] = nextLine;
+				nextContent = mergeFrontmatter(frontmatter, bodyLines.join("\n"));
+				await context.vault.modify(file, nextContent);
+				await recordEdit(context, {
+					tool: "tasks",
+					action: "modify",
+					path: normalizedPath,
+					before: content,
+					after: nextContent,
+				});
+			}
+
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						path: normalizedPath,
+						line,
+						changed: nextLine !== currentLine,
+						before: currentLine.replace(/\r$/, ""),
+						after: nextLine.replace(/\r$/, ""),
+						status: next.status,
+						due: getTaskDue(next.text),
+						version: computeContentVersion(nextContent),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error updating task: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in task tools
+ */
+export function getBuiltinTaskTools(): MCPToolDefinition[] {
+	return [tasksTool];
+}
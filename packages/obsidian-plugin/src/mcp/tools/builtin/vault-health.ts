@@ -0,0 +1,233 @@
+import { parseLinktext, TFile } from "obsidian";
+import { MCPToolDefinition, MCPToolResult } from "../types";
+import type { AppContext } from "../../../plugin/context";
+import { splitFrontmatter } from "../helpers/markdown-helper";
+import { parseFrontmatterBlock } from "../helpers/yaml-helper";
+import {
+	buildNextCursor,
+	getBodyLineOffset,
+	getMarkdownFilesInFolder,
+	isPathInFolder,
+	normalizeFolderPath,
+	parseCursor,
+} from "../helpers/vault-helper";
+
+type HealthCheck = "unresolved_links" | "orphans" | "empty_notes" | "duplicate_names" | "invalid_frontmatter";
+
+interface HealthIssue {
+	check: HealthCheck;
+	path: string;
+	[key: string]: unknown;
+}
+
+const HEALTH_CHECKS: HealthCheck[] = ["unresolved_links", "orphans", "empty_notes", "duplicate_names", "invalid_frontmatter"];
+const DEFAULT_LIMIT = 100;
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+async function findUnresolvedLinks(files: TFile[], context: AppContext): Promise<HealthIssue[]> {
+	const issues: HealthIssue[] = [];
+	for (const file of files) {
+		const cache = context.app.metadataCache.getFileCache(file);
+		const references = [
+			...(cache?.links ?? []).map((reference) => ({ reference, kind: "link" })),
+			...(cache?.embeds ?? []).map((reference) => ({ reference, kind: "embed" })),
+		]
+			.filter(({ reference }) => {
+				const { path } = parseLinktext(reference.link);
+				// A bare "#heading" link points at the source note itself
+				return path.length > 0 && context.app.metadataCache.getFirstLinkpathDest(path, file.path) === null;
+			})
+			.sort((a, b) => a.reference.position.start.offset - b.reference.position.start.offset);
+		if (references.length === 0) {
+			continue;
+		}
+
+		const lineOffset = getBodyLineOffset(cache);
+		const lines = (await context.vault.cachedRead(file)).split(/\r?\n/);
+		for (const { reference, kind } of references) {
+			issues.push({
+				check: "unresolved_links",
+				path: file.path,
+				link: reference.link,
+				kind,
+				line: reference.position.start.line - lineOffset + 1,
+				text: (lines[reference.position.start.line] ?? "").trim(),
+			});
+		}
+	}
+	return issues;
+}
+
+function findOrphans(files: TFile[], context: AppContext): HealthIssue[] {
+	const linked = new Set<string>();
+	for (const [source, targets] of Object.entries(context.app.metadataCache.resolvedLinks)) {
+		for (const [target, count] of Object.entries(targets ?? {})) {
+			if (target !== source && count > 0) {
+				linked.add(target);
+			}
+		}
+	}
+	return files
+		.filter((file) => !linked.has(file.path))
+		.map((file) => ({ check: "orphans", path: file.path }));
+}
+
+/**
+ * Groups notes whose basenames differ only by case, so a bare [[name]] link may resolve to
+ * either. Groups are reported when at least one of their notes is inside the folder.
+ */
+function findDuplicateNames(allFiles: TFile[], folder: string, context: AppContext): HealthIssue[] {
+	const groups = new Map<string, TFile[]>();
+	for (const file of allFiles) {
+		const key = file.basename.toLowerCase();
+		groups.set(key, [...(groups.get(key) ?? []), file]);
+	}
+
+	const issues: HealthIssue[] = [];
+	for (const group of groups.values()) {
+		if (group.length < 2 || !group.some((file) => isPathInFolder(file.path, folder))) {
+			continue;
+		}
+		const paths = group.map((file) => file.path).sort((a, b) => a.localeCompare(b));
+		issues.push({
+			check: "duplicate_names",
+			path: paths[0]!,
+			name: group[0]!.basename,
+			paths,
+			resolves_to: context.app.metadataCache.getFirstLinkpathDest(group[0]!.basename, "")?.path ?? null,
+		});
+	}
+	return issues;
+}
+
+async function findContentIssues(files: TFile[], checks: HealthCheck[], context: AppContext): Promise<HealthIssue[]> {
+	const issues: HealthIssue[] = [];
+	for (const file of files) {
+		const { frontmatter, body } = splitFrontmatter(await context.vault.cachedRead(file));
+		if (checks.includes("empty_notes") && body.trim().length === 0) {
+			issues.push({ check: "empty_notes", path: file.path, has_frontmatter: frontmatter.length > 0 });
+		}
+		if (checks.includes("invalid_frontmatter")) {
+			const parsed = parseFrontmatterBlock(frontmatter);
+			if ("error" in parsed) {
+				issues.push({ check: "invalid_frontmatter", path: file.path, error: parsed.error.replace(/^Error: /, "") });
+			}
+		}
+	}
+	return issues;
+}
+
+/**
+ * Built-in tool: vault_health
+ * Reports broken links, orphan notes and other vault-wide problems
+ */
+export const vaultHealthTool: MCPToolDefinition = {
+	name: "vault_health",
+	description:
+		"Report vault problems as a flat, paginated list of issues: unresolved_links (wikilinks, markdown links and embeds whose target does not exist, with body line and source text), orphans (notes without backlinks), empty_notes (no content besides frontmatter), duplicate_names (notes sharing a basename, so [[name]] links are ambiguous; resolves_to is the note Obsidian picks) and invalid_frontmatter (frontmatter that does not parse as a YAML mapping). The summary counts all issues per check; follow next_cursor to page through them.",
+	inputSchema: {
+		type: "object",
+		properties: {
+			checks: {
+				type: "array",
+				items: { type: "string" },
+				description: `Checks to run: ${HEALTH_CHECKS.join(", ")}. Default: all.`,
+			},
+			folder: {
+				type: "string",
+				description: "Only report notes in this folder (e.g., 'projects'). Default: the whole vault.",
+			},
+			limit: {
+				type: "number",
+				description: `Maximum number of issues per page. Default: ${DEFAULT_LIMIT}.`,
+				default: DEFAULT_LIMIT,
+			},
+			cursor: {
+				type: "string",
+				description: "Cursor returned as next_cursor by a previous call.",
+			},
+		},
+	},
+	handler: async (args, context): Promise<MCPToolResult> => {
+		const checks = args.checks === undefined ? HEALTH_CHECKS : args.checks;
+		const folder = normalizeFolderPath(typeof args.folder === "string" ? args.folder : undefined);
+		const limit = typeof args.limit === "number" ? args.limit : DEFAULT_LIMIT;
+		const offset = parseCursor(args.cursor);
+
+		if (!isStringArray(checks) || checks.length === 0 || checks.some((check) => !HEALTH_CHECKS.includes(check as HealthCheck))) {
+			return {
+				content: [{ type: "text", text: `Error: checks must be a non-empty array of ${HEALTH_CHECKS.map((name) => `"${name}"`).join(", ")}.` }],
+				isError: true,
+			};
+		}
+
+		if (!Number.isInteger(limit) || limit < 1) {
+			return {
+				content: [{ type: "text", text: "Error: limit must be an integer >= 1." }],
+				isError: true,
+			};
+		}
+
+		if (offset === null) {
+			return {
+				content: [{ type: "text", text: "Error: cursor is invalid." }],
+				isError: true,
+			};
+		}
+
+		const selected = checks as HealthCheck[];
+		const allFiles = context.vault.getMarkdownFiles();
+		const files = getMarkdownFilesInFolder(allFiles, folder);
+
+		try {
+			const issues: HealthIssue[] = [];
+			if (selected.includes("unresolved_links")) {
+				issues.push(...await findUnresolvedLinks(files, context));
+			}
+			if (selected.includes("orphans")) {
+				issues.push(...findOrphans(files, context));
+			}
+			if (selected.includes("duplicate_names")) {
+				issues.push(...findDuplicateNames(allFiles, folder, context));
+			}
+			if (selected.includes("empty_notes") || selected.includes("invalid_frontmatter")) {
+				issues.push(...await findContentIssues(files, selected, context));
+			}
+			issues.sort((a, b) => HEALTH_CHECKS.indexOf(a.check) - HEALTH_CHECKS.indexOf(b.check));
+
+			const summary: Record<string, number> = {};
+			for (const check of HEALTH_CHECKS.filter((name) => selected.includes(name))) {
+				summary[check] = issues.filter((issue) => issue.check === check).length;
+			}
+
+			const page = issues.slice(offset, offset + limit);
+			return {
+				content: [{
+					type: "text",
+					text: JSON.stringify({
+						notes_checked: files.length,
+						summary,
+						total: issues.length,
+						issues: page,
+						next_cursor: buildNextCursor(offset + page.length, issues.length),
+					}, null, 2),
+				}],
+			};
+		} catch (error) {
+			return {
+				content: [{ type: "text", text: `Error checking vault health: ${error instanceof Error ? error.message : String(error)}` }],
+				isError: true,
+			};
+		}
+	},
+};
+
+/**
+ * Get all built-in vault health tools
+ */
+export function getBuiltinVaultHealthTools(): MCPToolDefinition[] {
+	return [vaultHealthTool];
+}
@@ -0,0 +1,50 @@
+import type { TFile } from "obsidian";
+import type { AppContext } from "../../../plugin/context";
+
+export interface BatchFilePlan {
+	file: TFile;
+	before: string;
+	after: string;
+}
+
+export interface BatchFileReport {
+	path: string;
+	status: "changed" | "unchanged" | "error" | "rolled_back";
+	diff?: string;
+	version?: string;
+	error?: string;
+}
+
+/**
+ * Writes every plan in order. When a write fails, the notes already written are restored
+ * to their previous content so the batch leaves no partial result.
+ */
+export async function writeBatchPlans(plans: BatchFilePlan[], context: AppContext): Promise<BatchFileReport[] | null> {
+	const written: BatchFilePlan[] = [];
+	for (const plan of plans) {
+		try {
+			await context.vault.modify(plan.file, plan.after);
+			written.push(plan);
+		} catch (error) {
+			const reports: BatchFileReport[] = [{
+				path: plan.file.path,
+				status: "error",
+				error: `Error: ${error instanceof Error ? error.message : String(error)}`,
+			}];
+			for (const previous of written.reverse()) {
+				try {
+					await context.vault.modify(previous.file, previous.before);
+					reports.push({ path: previous.file.path, status: "rolled_back" });
+				} catch (rollbackError) {
+					reports.push({
+						path: previous.file.path,
+						status: "error",
+						error: `Error: Rollback failed: ${rollbackError instanceof Error ? rollbackError.message : String(rollbackError)}`,
+					});
+				}
+			}
+			return reports;
+		}
+	}
+	return null;
+}
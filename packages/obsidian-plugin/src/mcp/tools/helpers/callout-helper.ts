@@ -0,0 +1,83 @@
+import type { Tokens } from "marked";
+import { buildLineOffsets, extractHeadingsWithPositions, findLineIndex, parseMarkdown } from "./markdown-helper";
+
+export type CalloutFold = "none" | "expanded" | "collapsed";
+
+export interface Callout {
+	index: number;
+	type: string;
+	title: string;
+	fold: CalloutFold;
+	content: string;
+	heading: string | null;
+	/** Zero-based body line index of the [!type] line */
+	startLine: number;
+	/** Exclusive zero-based body line index after the last line */
+	endLine: number;
+}
+
+export const CALLOUT_FOLDS: CalloutFold[] = ["none", "expanded", "collapsed"];
+
+const CALLOUT_HEADER_PATTERN = /^>[ \t]?\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)$/;
+const FOLD_MARKERS: Record<CalloutFold, string> = { none: "", expanded: "+", collapsed: "-" };
+
+/**
+ * Finds top-level callouts: blockquote tokens whose first line is a [!type] marker.
+ */
+export function findCallouts(body: string): Callout[] {
+	const lineOffsets = buildLineOffsets(body);
+	const headings = extractHeadingsWithPositions(body);
+	const callouts: Callout[] = [];
+	let searchIndex = 0;
+
+	for (const token of parseMarkdown(body)) {
+		if (token.type !== "blockquote") {
+			continue;
+		}
+		const raw = (token as Tokens.Blockquote).raw.replace(/\n+$/, "");
+		const matchIndex = body.indexOf(raw, searchIndex);
+		if (matchIndex === -1) {
+			continue;
+		}
+		searchIndex = matchIndex + raw.length;
+
+		const [firstLine = "", ...contentLines] = raw.split("\n");
+		const header = firstLine.match(CALLOUT_HEADER_PATTERN);
+		if (!header) {
+			continue;
+		}
+
+		const startLine = findLineIndex(lineOffsets, matchIndex);
+		let heading: string | null = null;
+		for (const candidate of headings) {
+			if (candidate.lineIndex > startLine) {
+				break;
+			}
+			heading = candidate.text;
+		}
+
+		callouts.push({
+			index: callouts.length,
+			type: header[1]!,
+			title: header[3]!.trim(),
+			fold: header[2] === "+" ? "expanded" : header[2] === "-" ? "collapsed" : "none",
+			content: contentLines.map((line) => line.replace(/^>[ \t]?/, "")).join("\n"),
+			heading,
+			startLine,
+			endLine: startLine + contentLines.length + 1,
+		});
+	}
+
+	return callouts;
+}
+
+/**
+ * Renders a callout as blockquote lines. Empty content lines become a bare ">".
+ */
+export function renderCallout(callout: Pick<Callout, "type" | "title" | "fold" | "content">): string[] {
+	const header = `> [!${callout.type}]${FOLD_MARKERS[callout.fold]}${callout.title ? ` ${callout.title}` : ""}`;
+	if (callout.content.length === 0) {
+		return [header];
+	}
+	return [header, ...callout.content.split("\n").map((line) => (line.length === 0 ? ">" : `> ${line}`))];
+}
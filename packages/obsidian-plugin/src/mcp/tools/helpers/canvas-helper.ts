@@ -0,0 +1,298 @@
+import { normalizePath } from "obsidian";
+
+/**
+ * JSON Canvas 1.0 types (https://jsoncanvas.org/spec/1.0/).
+ * Unknown properties are kept so files written by newer apps survive a round trip.
+ */
+export type CanvasNodeType = "text" | "file" | "link" | "group";
+export type CanvasSide = "top" | "right" | "bottom" | "left";
+export type CanvasEnd = "none" | "arrow";
+
+export interface CanvasNode {
+	id: string;
+	type: CanvasNodeType;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	color?: string;
+	text?: string;
+	file?: string;
+	subpath?: string;
+	url?: string;
+	label?: string;
+	background?: string;
+	backgroundStyle?: "cover" | "ratio" | "repeat";
+	[key: string]: unknown;
+}
+
+export interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	toNode: string;
+	fromSide?: CanvasSide;
+	toSide?: CanvasSide;
+	fromEnd?: CanvasEnd;
+	toEnd?: CanvasEnd;
+	color?: string;
+	label?: string;
+	[key: string]: unknown;
+}
+
+export interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+	[key: string]: unknown;
+}
+
+export const CANVAS_NODE_TYPES: CanvasNodeType[] = ["text", "file", "link", "group"];
+const CANVAS_SIDES: CanvasSide[] = ["top", "right", "bottom", "left"];
+const CANVAS_ENDS: CanvasEnd[] = ["none", "arrow"];
+const BACKGROUND_STYLES = ["cover", "ratio", "repeat"];
+const COLOR_PATTERN = /^(?:[1-6]|#[0-9a-fA-F]{6}|#[0-9a-fA-F]{3})$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalizes a canvas path and appends the .canvas extension when missing.
+ */
+export function normalizeCanvasPath(path: string): string {
+	let normalizedPath = normalizePath(path);
+	if (!normalizedPath.toLowerCase().endsWith(".canvas")) {
+		normalizedPath = `${normalizedPath}.canvas`;
+	}
+	return normalizedPath;
+}
+
+/**
+ * Parses canvas file content. An empty file is an empty canvas, as in Obsidian.
+ */
+export function parseCanvas(content: string): { canvas: CanvasData } | { error: string } {
+	if (content.trim().length === 0) {
+		return { canvas: { nodes: [], edges: [] } };
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		return { error: `Error: Invalid canvas JSON: ${error instanceof Error ? error.message : String(error)}` };
+	}
+	if (!isPlainObject(parsed)) {
+		return { error: "Error: Invalid canvas: top level must be an object." };
+	}
+	const nodes = parsed.nodes ?? [];
+	const edges = parsed.edges ?? [];
+	if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+		return { error: "Error: Invalid canvas: nodes and edges must be arrays." };
+	}
+	return { canvas: { ...parsed, nodes: nodes as CanvasNode[], edges: edges as CanvasEdge[] } };
+}
+
+/**
+ * Serializes a canvas the way Obsidian writes it (tab-indented JSON).
+ */
+export function serializeCanvas(canvas: CanvasData): string {
+	return JSON.stringify(canvas, null, "\t");
+}
+
+/**
+ * Validates a node against the JSON Canvas spec. Returns an error message or null.
+ */
+export function validateCanvasNode(node: Record<string, unknown>): string | null {
+	if (typeof node.id !== "string" || node.id.length === 0) {
+		return "node id must be a non-empty string";
+	}
+	const label = `node "${node.id}"`;
+	if (!CANVAS_NODE_TYPES.includes(node.type as CanvasNodeType)) {
+		return `${label}: type must be one of ${CANVAS_NODE_TYPES.join(", ")}`;
+	}
+	for (const key of ["x", "y"]) {
+		if (typeof node[key] !== "number" || !Number.isFinite(node[key])) {
+			return `${label}: ${key} must be a number`;
+		}
+	}
+	for (const key of ["width", "height"]) {
+		if (typeof node[key] !== "number" || !Number.isFinite(node[key]) || node[key] <= 0) {
+			return `${label}: ${key} must be a positive number`;
+		}
+	}
+	if (node.color !== undefined && (typeof node.color !== "string" || !COLOR_PATTERN.test(node.color))) {
+		return `${label}: color must be a preset "1"-"6" or a hex color like "#ff0000"`;
+	}
+	switch (node.type) {
+		case "text":
+			if (typeof node.text !== "string") {
+				return `${label}: text nodes need a text string`;
+			}
+			break;
+		case "file":
+			if (typeof node.file !== "string" || node.file.length === 0) {
+				return `${label}: file nodes need a file path`;
+			}
+			if (node.subpath !== undefined && (typeof node.subpath !== "string" || !node.subpath.startsWith("#"))) {
+				return `${label}: subpath must start with "#"`;
+			}
+			break;
+		case "link":
+			if (typeof node.url !== "string" || node.url.length === 0) {
+				return `${label}: link nodes need a url`;
+			}
+			break;
+		case "group":
+			if (node.label !== undefined && typeof node.label !== "string") {
+				return `${label}: label must be a string`;
+			}
+			if (node.background !== undefined && typeof node.background !== "string") {
+				return `${label}: background must be a string`;
+			}
+			if (node.backgroundStyle !== undefined && !BACKGROUND_STYLES.includes(node.backgroundStyle as string)) {
+				return `${label}: backgroundStyle must be one of ${BACKGROUND_STYLES.join(", ")}`;
+			}
+			break;
+	}
+	return null;
+}
+
+/**
+ * Validates an edge against the JSON Canvas spec and the node ids it refers to.
+ */
+export function validateCanvasEdge(edge: Record<string, unknown>, nodeIds: Set<string>): string | null {
+	if (typeof edge.id !== "string" || edge.id.length === 0) {
+		return "edge id must be a non-empty string";
+	}
+	const label = `edge "${edge.id}"`;
+	for (const key of ["fromNode", "toNode"]) {
+		if (typeof edge[key] !== "string" || !nodeIds.has(edge[key])) {
+			return `${label}: ${key} must be the id of an existing node`;
+		}
+	}
+	for (const key of ["fromSide", "toSide"]) {
+		if (edge[key] !== undefined && !CANVAS_SIDES.includes(edge[key] as CanvasSide)) {
+			return `${label}: ${key} must be one of ${CANVAS_SIDES.join(", ")}`;
+		}
+	}
+	for (const key of ["fromEnd", "toEnd"]) {
+		if (edge[key] !== undefined && !CANVAS_ENDS.includes(edge[key] as CanvasEnd)) {
+			return `${label}: ${key} must be one of ${CANVAS_ENDS.join(", ")}`;
+		}
+	}
+	if (edge.color !== undefined && (typeof edge.color !== "string" || !COLOR_PATTERN.test(edge.color))) {
+		return `${label}: color must be a preset "1"-"6" or a hex color like "#ff0000"`;
+	}
+	if (edge.label !== undefined && typeof edge.label !== "string") {
+		return `${label}: label must be a string`;
+	}
+	return null;
+}
+
+/**
+ * Validates a whole canvas: every node and edge, and unique ids across both.
+ */
+export function validateCanvas(canvas: CanvasData): string | null {
+	const ids = new Set<string>();
+	for (const node of canvas.nodes) {
+		const error = validateCanvasNode(node);
+		if (error) {
+			return error;
+		}
+		if (ids.has(node.id)) {
+			return `duplicate id "${node.id}"`;
+		}
+		ids.add(node.id);
+	}
+	const nodeIds = new Set(ids);
+	for (const edge of canvas.edges) {
+		const error = validateCanvasEdge(edge, nodeIds);
+		if (error) {
+			return error;
+		}
+		if (ids.has(edge.id)) {
+			return `duplicate id "${edge.id}"`;
+		}
+		ids.add(edge.id);
+	}
+	return null;
+}
+
+/**
+ * Validates the result of an edit against the canvas it started from. Nodes and edges that
+ * are new or changed get the full spec check; untouched ones are left alone, so node types
+ * or colors written by plugins and other apps do not block unrelated edits. Ids must stay
+ * unique and every edge must still point at existing nodes.
+ */
+export function validateCanvasChanges(before: CanvasData, after: CanvasData): string | null {
+	const previous = new Map<string, string>();
+	for (const item of [...before.nodes, ...before.edges]) {
+		previous.set(item.id, JSON.stringify(item));
+	}
+	const isChanged = (item: CanvasNode | CanvasEdge) => previous.get(item.id) !== JSON.stringify(item);
+
+	const ids = new Set<string>();
+	for (const node of after.nodes) {
+		const error = isChanged(node) ? validateCanvasNode(node) : null;
+		if (error) {
+			return error;
+		}
+		if (ids.has(node.id)) {
+			return `duplicate id "${node.id}"`;
+		}
+		ids.add(node.id);
+	}
+	const nodeIds = new Set(ids);
+	for (const edge of after.edges) {
+		if (isChanged(edge)) {
+			const error = validateCanvasEdge(edge, nodeIds);
+			if (error) {
+				return error;
+			}
+		} else {
+			const missing = [edge.fromNode, edge.toNode].find((id) => !nodeIds.has(id));
+			if (missing !== undefined) {
+				return `edge "${edge.id}" points at node "${missing}", which no longer exists`;
+			}
+		}
+		if (ids.has(edge.id)) {
+			return `duplicate id "${edge.id}"`;
+		}
+		ids.add(edge.id);
+	}
+	return null;
+}
+
+/**
+ * Returns the id of the smallest group whose bounds fully contain the node, or null.
+ */
+export function findParentGroup(node: CanvasNode, nodes: CanvasNode[]): string | null {
+	let parent: CanvasNode | null = null;
+	for (const group of nodes) {
+		if (group.type !== "group" || group.id === node.id) {
+			continue;
+		}
+		const contains =
+			node.x >= group.x &&
+			node.y >= group.y &&
+			node.x + node.width <= group.x + group.width &&
+			node.y + node.height <= group.y + group.height;
+		if (contains && (!parent || group.width * group.height < parent.width * parent.height)) {
+			parent = group;
+		}
+	}
+	return parent?.id ?? null;
+}
+
+/**
+ * Generates a 16-character hex id like the ones Obsidian assigns, unique within the canvas.
+ */
+export function generateCanvasId(existing: Set<string>): string {
+	for (;;) {
+		let id = "";
+		for (let index = 0; index < 16; index += 1) {
+			id += Math.floor(Math.random() * 16).toString(16);
+		}
+		if (!existing.has(id)) {
+			return id;
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import { extractHeadingsWithPositions } from "./markdown-helper";
+
+export interface FencedCodeBlock {
+	index: number;
+	/** Language: the first word of the info string, or null */
+	language: string | null;
+	/** Everything after the opening fence, trimmed */
+	info: string;
+	/** title/label/name attribute from the info string, or null */
+	label: string | null;
+	/** Zero-based body line index of the opening fence */
+	startLine: number;
+	/** Zero-based body line index of the closing fence, or the last line when the block is unclosed */
+	endLine: number;
+	closed: boolean;
+	heading: string | null;
+	/** Blockquote markers and indentation in front of every line of the block */
+	prefix: string;
+	fence: string;
+	content: string;
+}
+
+const OPENING_FENCE_PATTERN = /^([ \t]*(?:>[ \t]?)*[ \t]*)(`{3,}|~{3,})(.*)$/;
+const LABEL_PATTERN = /(?:^|\s)(?:title|label|name)[:=]\s*(?:"([^"]*)"|'([^']*)'|(\S+))/i;
+
+function stripPrefix(line: string, prefix: string): string {
+	if (line.startsWith(prefix)) {
+		return line.slice(prefix.length);
+	}
+	// Indentation may be shorter on continuation lines; blank lines may carry no prefix at all
+	const indent = line.match(/^[ \t]*/)?.[0] ?? "";
+	return prefix.trim().length === 0 ? line.slice(Math.min(indent.length, prefix.length)) : line.replace(/^[ \t]*(?:>[ \t]?)*/, "");
+}
+
+function isClosingFence(line: string, prefix: string, fence: string): boolean {
+	const match = stripPrefix(line, prefix).match(/^[ \t]*(`{3,}|~{3,})[ \t]*$/);
+	return match !== null && match[1]![0] === fence[0] && match[1]!.length >= fence.length;
+}
+
+/**
+ * Finds fenced code blocks in a markdown body, including blocks nested in lists and callouts.
+ */
+export function findCodeBlocks(body: string): FencedCodeBlock[] {
+	// Fences are matched without a CRLF "\r", so content comes back with LF line endings
+	const lines = body.split("\n").map((line) => line.replace(/\r$/, ""));
+	const headings = extractHeadingsWithPositions(body);
+	const blocks: FencedCodeBlock[] = [];
+
+	for (let lineIndex = 0; lineIndex < lines.length; lineIndex += 1) {
+		const match = lines[lineIndex]!.match(OPENING_FENCE_PATTERN);
+		if (!match) {
+			continue;
+		}
+		const [, prefix = "", fence = "", rest = ""] = match;
+		if (fence.startsWith("`") && rest.includes("`")) {
+			continue;
+		}
+
+		let endLine = lineIndex + 1;
+		while (endLine < lines.length && !isClosingFence(lines[endLine]!, prefix, fence)) {
+			endLine += 1;
+		}
+		const closed = endLine < lines.length;
+		const contentLines = lines.slice(lineIndex + 1, endLine).map((line) => stripPrefix(line, prefix));
+		const info = rest.trim();
+		const labelMatch = info.match(LABEL_PATTERN);
+		let heading: string | null = null;
+		for (const candidate of headings) {
+			if (candidate.lineIndex > lineIndex) {
+				break;
+			}
+			heading = candidate.text;
+		}
+
+		blocks.push({
+			index: blocks.length,
+			language: info.split(/\s+/)[0] || null,
+			info,
+			label: labelMatch ? labelMatch[1] ?? labelMatch[2] ?? labelMatch[3] ?? null : null,
+			startLine: lineIndex,
+			endLine: closed ? endLine : lines.length - 1,
+			closed,
+			heading,
+			prefix,
+			fence,
+			content: contentLines.join("\n"),
+		});
+		lineIndex = endLine;
+	}
+
+	return blocks;
+}
+
+/**
+ * Renders a block's lines with new content (and optionally a new info string), keeping its fence
+ * and the container prefix. The fence is lengthened when the content contains a fence of its own.
+ */
+export function renderCodeBlock(block: FencedCodeBlock, content: string, info: string = block.info): string[] {
+	const contentLines = content.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+	const fenceChar = block.fence[0]!;
+	const longestInner = Math.max(0, ...contentLines.map((line) => line.match(new RegExp(`^\\s*(\\${fenceChar}{3,})`))?.[1]?.length ?? 0));
+	const fence = fenceChar.repeat(Math.max(block.fence.length, longestInner + 1));
+	const blankPrefix = block.prefix.trimEnd();
+	const withPrefix = (line: string): string => (line.length === 0 ? blankPrefix : `${block.prefix}${line}`);
+	return [
+		`${block.prefix}${fence}${info}`,
+		...(content.length === 0 ? [] : contentLines.map(withPrefix)),
+		`${block.prefix}${fence}`,
+	];
+}
@@ -0,0 +1,58 @@
+import { buildOutline } from "../builtin/note-outline";
+import { extractHeadingsWithPositions, getFrontmatterLineRange, HeadingPosition } from "./markdown-helper";
+
+/**
+ * Heading selector shared by tools that address a section.
+ * Either `id` (from get_note_outline) or `heading` (+ optional `level`) must be set.
+ */
+export interface HeadingSelector {
+	heading?: string;
+	level?: number;
+	id?: string;
+}
+
+/**
+ * Finds the body heading addressed by a selector.
+ * Outline ids are computed over the whole file, so they are mapped back to body lines
+ * through the frontmatter line count.
+ */
+export function findSectionHeading(
+	content: string,
+	body: string,
+	selector: HeadingSelector,
+): HeadingPosition | { error: string } {
+	const headings = extractHeadingsWithPositions(body);
+
+	if (selector.id) {
+		const outlineItem = buildOutline(content, { includeFrontmatter: false, includeCodeblocks: false })
+			.find((item) => item.id === selector.id);
+		if (!outlineItem) {
+			return { error: `Error: Heading with id "${selector.id}" not found. The note may have changed; fetch the outline again.` };
+		}
+		const frontmatterLines = getFrontmatterLineRange(content)?.end ?? 0;
+		const bodyLineNumber = outlineItem.start_line - frontmatterLines;
+		const heading = headings.find((candidate) => candidate.lineNumber === bodyLineNumber);
+		if (!heading) {
+			return { error: `Error: Heading with id "${selector.id}" not found.` };
+		}
+		return heading;
+	}
+
+	const matches = headings.filter(
+		(candidate) =>
+			candidate.text === selector.heading &&
+			(selector.level === undefined || candidate.level === selector.level),
+	);
+	if (matches.length === 0) {
+		if (selector.level === undefined) {
+			return { error: `Error: Section "${selector.heading}" not found.` };
+		}
+		return { error: `Error: Section "${selector.heading}" with level ${selector.level} not found.` };
+	}
+	if (matches.length > 1) {
+		return {
+			error: `Error: ${matches.length} headings match "${selector.heading}" (lines ${matches.map((match) => match.lineNumber).join(", ")}). Specify level or id.`,
+		};
+	}
+	return matches[0]!;
+}
@@ -0,0 +1,13 @@
+import type { AppContext } from "../../../plugin/context";
+import type { EditRecord } from "../../../plugin/edit-journal";
+
+/**
+ * Records a completed write in the edit journal, attributed to the current caller.
+ * No-op when the context has no journal (e.g. script tools or tests).
+ */
+export async function recordEdit(context: AppContext, record: Omit<EditRecord, "keyId">): Promise<void> {
+	if (!context.editJournal) {
+		return;
+	}
+	await context.editJournal.record({ ...record, keyId: context.caller?.keyId ?? null });
+}
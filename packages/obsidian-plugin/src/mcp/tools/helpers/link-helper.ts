@@ -0,0 +1,220 @@
+import { TFile } from "obsidian";
+import type { AppContext } from "../../../plugin/context";
+import { extractHeadingsWithPositions, splitFrontmatter } from "./markdown-helper";
+
+interface ObsidianLinkParts {
+	linkPath: string;
+	subpath: string;
+	displayText: string;
+}
+
+export type EmbedSkipReason = "not_found" | "cycle" | "depth" | "fragment_not_found" | "size";
+
+export interface SkippedEmbed {
+	link: string;
+	reason: EmbedSkipReason;
+}
+
+export interface EmbedExpansion {
+	text: string;
+	expanded: number;
+	skipped: SkippedEmbed[];
+}
+
+export const DEFAULT_EMBED_DEPTH = 3;
+export const MAX_EMBED_DEPTH = 10;
+// Caps the inlined text of one expansion; repeated embeds otherwise grow exponentially with depth.
+export const MAX_EMBED_CHARS = 1024 * 1024;
+
+const WIKI_LINK_PATTERN = /(!)?\[\[([^\]\n]+)\]\]/g;
+const EMBED_PATTERN = /!\[\[([^\]\n]+)\]\]/g;
+
+export function parseObsidianLink(rawLink: string): ObsidianLinkParts {
+	const [targetRaw, displayRaw] = rawLink.split("|");
+	const target = targetRaw?.trim() ?? "";
+	const displayText = displayRaw?.trim() ?? "";
+
+	const hashIndex = target.indexOf("#");
+	if (hashIndex === -1) {
+		return {
+			linkPath: target,
+			subpath: "",
+			displayText,
+		};
+	}
+
+	return {
+		linkPath: target.slice(0, hashIndex).trim(),
+		subpath: target.slice(hashIndex + 1).trim(),
+		displayText,
+	};
+}
+
+/**
+ * Rewrites resolvable wiki links and embeds into markdown links with vault paths.
+ * Unresolvable links are left unchanged.
+ */
+export function resolveVaultLinks(
+	markdown: string,
+	sourceFilePath: string,
+	context: AppContext,
+	options: { skipEmbeds?: boolean } = {},
+): string {
+	return markdown.replace(
+		WIKI_LINK_PATTERN,
+		(match, embedPrefix, rawLink: string) => {
+			if (embedPrefix && options.skipEmbeds) {
+				return match;
+			}
+
+			const { linkPath, subpath, displayText } =
+				parseObsidianLink(rawLink);
+			if (!linkPath) {
+				return match;
+			}
+
+			const resolvedFile = context.app.metadataCache.getFirstLinkpathDest(
+				linkPath,
+				sourceFilePath,
+			);
+			if (!resolvedFile) {
+				return match;
+			}
+
+			const label = displayText || resolvedFile.basename || linkPath;
+			const anchorSuffix = subpath ? `#${subpath}` : "";
+			const resolvedPath = `${resolvedFile.path}${anchorSuffix}`;
+
+			if (embedPrefix) {
+				return `![${label}](${resolvedPath})`;
+			}
+
+			return `[${label}](${resolvedPath})`;
+		},
+	);
+}
+
+/**
+ * Returns the part of a note addressed by an embed subpath, without frontmatter.
+ * "#Heading" selects the heading and everything up to the next heading of the same
+ * or a higher level; "#^id" selects the block; nested "#A#B" selects the last heading.
+ */
+function extractEmbedFragment(
+	content: string,
+	subpath: string,
+	file: TFile,
+	context: AppContext,
+): string | null {
+	if (!subpath) {
+		return splitFrontmatter(content).body;
+	}
+
+	const lines = content.split("\n");
+	if (subpath.startsWith("^")) {
+		const blockId = subpath.slice(1);
+		const cache = context.app.metadataCache.getFileCache(file);
+		const block = cache?.blocks?.[blockId] ?? cache?.blocks?.[blockId.toLowerCase()];
+		if (!block) {
+			return null;
+		}
+		return lines.slice(block.position.start.line, block.position.end.line + 1).join("\n");
+	}
+
+	const headingText = subpath.split("#").pop()?.trim().toLowerCase() ?? "";
+	const { body } = splitFrontmatter(content);
+	const bodyLines = body.split("\n");
+	const headings = extractHeadingsWithPositions(body);
+	const selected = headings.find((heading) => heading.text.trim().toLowerCase() === headingText);
+	if (!selected) {
+		return null;
+	}
+	const next = headings.find(
+		(heading) => heading.lineIndex > selected.lineIndex && heading.level <= selected.level,
+	);
+	return bodyLines
+		.slice(selected.lineIndex, next ? next.lineIndex : bodyLines.length)
+		.join("\n")
+		.replace(/\n+$/, "");
+}
+
+/**
+ * Inlines the content of `![[note]]`, `![[note#heading]]` and `![[note#^block]]` embeds.
+ * Nested embeds are expanded up to `maxDepth` levels, inlining at most `maxChars` characters
+ * in total. An embed that would include one of its own ancestors, points at a non-note file,
+ * exceeds the depth or no longer fits the character budget is left unchanged and reported in
+ * `skipped`. Links inside inlined content are resolved relative to the embedded note.
+ */
+export async function expandEmbeds(
+	markdown: string,
+	sourcePath: string,
+	context: AppContext,
+	maxDepth: number,
+	maxChars: number = MAX_EMBED_CHARS,
+): Promise<EmbedExpansion> {
+	return expandEmbedsWithin(markdown, sourcePath, context, maxDepth, [sourcePath], { remaining: maxChars });
+}
+
+async function expandEmbedsWithin(
+	markdown: string,
+	sourcePath: string,
+	context: AppContext,
+	maxDepth: number,
+	ancestors: string[],
+	budget: { remaining: number },
+): Promise<EmbedExpansion> {
+	const result: EmbedExpansion = { text: "", expanded: 0, skipped: [] };
+	let lastIndex = 0;
+
+	for (const match of markdown.matchAll(EMBED_PATTERN)) {
+		const rawLink = match[1] ?? "";
+		const matchIndex = match.index ?? 0;
+		result.text += markdown.slice(lastIndex, matchIndex);
+		lastIndex = matchIndex + match[0].length;
+
+		const { linkPath, subpath } = parseObsidianLink(rawLink);
+		const target = linkPath
+			? context.app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath)
+			: context.vault.getAbstractFileByPath(sourcePath);
+		if (!(target instanceof TFile) || target.extension !== "md") {
+			// Attachments stay embeds; the caller renders them as links.
+			if (!target) {
+				result.skipped.push({ link: rawLink, reason: "not_found" });
+			}
+			result.text += match[0];
+			continue;
+		}
+
+		const key = subpath ? `${target.path}#${subpath}` : target.path;
+		if (ancestors.includes(key)) {
+			result.skipped.push({ link: rawLink, reason: "cycle" });
+			result.text += match[0];
+			continue;
+		}
+		if (ancestors.length > maxDepth) {
+			result.skipped.push({ link: rawLink, reason: "depth" });
+			result.text += match[0];
+			continue;
+		}
+
+		const fragment = extractEmbedFragment(await context.vault.cachedRead(target), subpath, target, context);
+		if (fragment === null) {
+			result.skipped.push({ link: rawLink, reason: "fragment_not_found" });
+			result.text += match[0];
+			continue;
+		}
+		if (fragment.length > budget.remaining) {
+			result.skipped.push({ link: rawLink, reason: "size" });
+			result.text += match[0];
+			continue;
+		}
+		budget.remaining -= fragment.length;
+
+		const nested = await expandEmbedsWithin(fragment, target.path, context, maxDepth, [...ancestors, key], budget);
+		result.text += resolveVaultLinks(nested.text, target.path, context);
+		result.expanded += 1 + nested.expanded;
+		result.skipped.push(...nested.skipped);
+	}
+
+	result.text += markdown.slice(lastIndex);
+	return result;
+}
@@ -0,0 +1,127 @@
+import type { Tokens } from "marked";
+import { buildLineOffsets, findLineIndex, parseMarkdown } from "./markdown-helper";
+
+export interface ListItem {
+	/** Zero-based body line index of the bullet line */
+	line: number;
+	/** Exclusive zero-based body line index after the item and its children (trailing blank lines excluded) */
+	endLine: number;
+	depth: number;
+	/** Leading whitespace of the bullet line */
+	indent: string;
+	/** Bullet or number, e.g. "-" or "3." */
+	marker: string;
+	/** Width of the marker and the spaces after it */
+	contentOffset: number;
+	text: string;
+	parent: ListItem | null;
+	children: ListItem[];
+	/** Items of the same list, including this one */
+	siblings: ListItem[];
+}
+
+const LIST_ITEM_PATTERN = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+
+function countLineBreaks(text: string): number {
+	return text.split("\n").length - 1;
+}
+
+function collectItems(
+	list: Tokens.List,
+	startLine: number,
+	lines: string[],
+	depth: number,
+	parent: ListItem | null,
+	out: ListItem[],
+): ListItem[] {
+	const siblings: ListItem[] = [];
+	let line = startLine;
+
+	for (const item of list.items) {
+		const match = (lines[line] ?? "").match(LIST_ITEM_PATTERN);
+		const node: ListItem = {
+			line,
+			endLine: line + countLineBreaks(item.raw.replace(/\n+$/, "")) + 1,
+			depth,
+			indent: match?.[1] ?? "",
+			marker: match?.[2] ?? "-",
+			contentOffset: (match?.[2]?.length ?? 1) + Math.max(1, match?.[3]?.length ?? 1),
+			text: match?.[4] ?? item.text.split("\n")[0] ?? "",
+			parent,
+			children: [],
+			siblings,
+		};
+		siblings.push(node);
+		out.push(node);
+
+		// item.text is the item de-indented line by line, so offsets in it map to raw lines
+		const firstBreak = Math.max(0, item.text.indexOf("\n"));
+		for (const child of item.tokens) {
+			if (child.type !== "list") {
+				continue;
+			}
+			const childIndex = item.text.indexOf(child.raw, firstBreak);
+			if (childIndex === -1) {
+				continue;
+			}
+			const childStart = line + countLineBreaks(item.text.slice(0, childIndex));
+			node.children.push(...collectItems(child as Tokens.List, childStart, lines, depth + 1, node, out));
+		}
+
+		line += countLineBreaks(item.raw);
+	}
+
+	return siblings;
+}
+
+/**
+ * Finds the items of top-level lists (and their nested lists) in document order.
+ * Lists inside blockquotes and callouts are not included.
+ */
+export function findListItems(body: string): ListItem[] {
+	const lines = body.split("\n");
+	const lineOffsets = buildLineOffsets(body);
+	const items: ListItem[] = [];
+	let searchIndex = 0;
+
+	for (const token of parseMarkdown(body)) {
+		if (token.type !== "list") {
+			continue;
+		}
+		const raw = (token as Tokens.List).raw.replace(/\n+$/, "");
+		const matchIndex = body.indexOf(raw, searchIndex);
+		if (matchIndex === -1) {
+			continue;
+		}
+		searchIndex = matchIndex + raw.length;
+		collectItems(token as Tokens.List, findLineIndex(lineOffsets, matchIndex), lines, 0, null, items);
+	}
+
+	return items;
+}
+
+/**
+ * Returns the indentation for a child of the item: that of its existing children,
+ * otherwise one tab when the item is tab-indented, otherwise its content offset in spaces.
+ */
+export function getChildIndent(item: ListItem): string {
+	if (item.children.length > 0) {
+		return item.children[0]!.indent;
+	}
+	if (item.indent.includes("\t")) {
+		return `${item.indent}\t`;
+	}
+	return `${item.indent}${" ".repeat(item.contentOffset)}`;
+}
+
+/**
+ * Replaces the item's indentation with a new one on every line of the item and its children.
+ */
+export function reindentItem(lines: string[], item: ListItem, indent: string): void {
+	for (let index = item.line; index < item.endLine; index += 1) {
+		const line = lines[index]!;
+		if (line.trim().length > 0 && line.startsWith(item.indent)) {
+			lines[index] = `${indent}${line.slice(item.indent.length)}`;
+		}
+	}
+}
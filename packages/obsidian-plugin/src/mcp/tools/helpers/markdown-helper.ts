@@ -142,15 +142,11 @@ export function mergeFrontmatter(frontmatter: string, body: string): string {
 }
 
 /**
- * Lexer instance for markdown parsing
- */
-const lexer = new Lexer();
-
-/**
- * Parse markdown content into tokens using marked's Lexer
+ * Parse markdown content into tokens using marked's Lexer.
+ * A fresh lexer is used per call: a Lexer instance keeps appending to its token list.
  */
 export function parseMarkdown(markdown: string): Token[] {
-	return lexer.lex(markdown);
+	return Lexer.lex(markdown);
 }
 
 /**
@@ -387,3 +383,31 @@ export function getTokensByType<T extends Token['type']>(
 	searchTokens(tokens);
 	return results;
 }
+
+/**
+ * Returns [start, end) character ranges of code blocks (fenced and indented) and inline code spans.
+ * The lexer normalizes line endings, so ranges are located on an LF copy and mapped back to CRLF offsets.
+ */
+export function getCodeRanges(markdown: string): Array<[number, number]> {
+	const normalized = markdown.replace(/\r\n/g, "\n");
+	const removedReturns: number[] = [];
+	for (const match of markdown.matchAll(/\r\n/g)) {
+		removedReturns.push(match.index - removedReturns.length);
+	}
+	const toOriginal = (offset: number) => offset + removedReturns.filter((position) => position < offset).length;
+
+	const ranges: Array<[number, number]> = [];
+	for (const type of ["code", "codespan"] as const) {
+		let searchIndex = 0;
+		for (const token of getTokensByType(normalized, type)) {
+			const raw = token.raw.replace(/\n+$/, "");
+			const matchIndex = raw ? normalized.indexOf(raw, searchIndex) : -1;
+			if (matchIndex === -1) {
+				continue;
+			}
+			ranges.push([toOriginal(matchIndex), toOriginal(matchIndex + raw.length)]);
+			searchIndex = matchIndex + raw.length;
+		}
+	}
+	return ranges.sort((a, b) => a[0] - b[0]);
+}
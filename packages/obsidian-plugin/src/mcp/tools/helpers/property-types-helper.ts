@@ -0,0 +1,159 @@
+import type { AppContext } from "../../../plugin/context";
+
+/**
+ * Property types Obsidian stores in `.obsidian/types.json`.
+ * "multitext" is the list type; "aliases" and "tags" are the built-in list properties.
+ */
+export type PropertyType = "text" | "multitext" | "number" | "checkbox" | "date" | "datetime" | "aliases" | "tags";
+
+export type PropertyTypes = Record<string, PropertyType>;
+
+const PROPERTY_TYPES: PropertyType[] = ["text", "multitext", "number", "checkbox", "date", "datetime", "aliases", "tags"];
+const LIST_TYPES: PropertyType[] = ["multitext", "aliases", "tags"];
+
+function pad(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+/**
+ * Reads the declared property types of the vault. Keys are lowercased because Obsidian
+ * matches property names case-insensitively. Returns an empty map when the file is missing
+ * or unreadable.
+ */
+export async function loadPropertyTypes(context: AppContext): Promise<PropertyTypes> {
+	try {
+		const path = `${context.vault.configDir}/types.json`;
+		if (!(await context.vault.adapter.exists(path))) {
+			return {};
+		}
+		const parsed = JSON.parse(await context.vault.adapter.read(path)) as { types?: Record<string, unknown> };
+		const types: PropertyTypes = {};
+		for (const [key, type] of Object.entries(parsed.types ?? {})) {
+			if (PROPERTY_TYPES.includes(type as PropertyType)) {
+				types[key.toLowerCase()] = type as PropertyType;
+			}
+		}
+		return types;
+	} catch {
+		return {};
+	}
+}
+
+export function getPropertyType(types: PropertyTypes, key: string): PropertyType | null {
+	return types[key.toLowerCase()] ?? null;
+}
+
+/**
+ * Parses a date or datetime value. Date-only strings are read in local time.
+ */
+function parseDateValue(value: unknown): Date | null {
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? new Date(value) : null;
+	}
+	if (typeof value !== "string" || value.trim().length === 0) {
+		return null;
+	}
+	const trimmed = value.trim();
+	const dateOnly = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	const date = dateOnly
+		? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+		: new Date(trimmed);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Formats a date the way Obsidian writes date properties (YYYY-MM-DD).
+ */
+export function formatPropertyDate(date: Date): string {
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Formats a datetime the way Obsidian writes datetime properties (YYYY-MM-DDTHH:mm[:ss]).
+ */
+export function formatPropertyDatetime(date: Date): string {
+	const seconds = date.getSeconds() === 0 ? "" : `:${pad(date.getSeconds())}`;
+	return `${formatPropertyDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}${seconds}`;
+}
+
+/**
+ * Coerces a value to a declared property type. Null is always accepted as an empty property.
+ */
+export function coercePropertyValue(value: unknown, type: PropertyType): { value: unknown } | { error: string } {
+	if (value === null) {
+		return { value };
+	}
+
+	if (LIST_TYPES.includes(type)) {
+		const items = Array.isArray(value) ? (value as unknown[]) : [value];
+		if (!items.every((item) => ["string", "number", "boolean"].includes(typeof item))) {
+			return { error: "expected a list of text values" };
+		}
+		return { value: items.map((item) => String(item as string | number | boolean)) };
+	}
+
+	switch (type) {
+		case "text":
+			if (typeof value === "string") {
+				return { value };
+			}
+			if (typeof value === "number" || typeof value === "boolean") {
+				return { value: String(value) };
+			}
+			return { error: "expected text" };
+		case "number": {
+			const numeric = typeof value === "string" && value.trim().length > 0 ? Number(value) : value;
+			if (typeof numeric === "number" && Number.isFinite(numeric)) {
+				return { value: numeric };
+			}
+			return { error: "expected a number" };
+		}
+		case "checkbox":
+			if (typeof value === "boolean") {
+				return { value };
+			}
+			if (value === "true" || value === "false") {
+				return { value: value === "true" };
+			}
+			return { error: "expected true or false" };
+		case "date":
+		case "datetime": {
+			const date = parseDateValue(value);
+			if (!date) {
+				return { error: `expected a ${type} such as ${type === "date" ? "2024-01-31" : "2024-01-31T09:30"}` };
+			}
+			return { value: type === "date" ? formatPropertyDate(date) : formatPropertyDatetime(date) };
+		}
+		default:
+			return { value };
+	}
+}
+
+/**
+ * Coerces every top-level key that has a declared type. Keys without a declared type are
+ * passed through unchanged. Returns all mismatches at once so the caller can report them together.
+ */
+export function coerceProperties(
+	data: Record<string, unknown>,
+	types: PropertyTypes,
+): { data: Record<string, unknown> } | { error: string } {
+	const coerced: Record<string, unknown> = {};
+	const errors: string[] = [];
+	for (const [key, value] of Object.entries(data)) {
+		const type = getPropertyType(types, key);
+		if (!type) {
+			coerced[key] = value;
+			continue;
+		}
+		const result = coercePropertyValue(value, type);
+		if ("error" in result) {
+			errors.push(`"${key}" is a ${type} property: ${result.error}, got ${JSON.stringify(value)}`);
+		} else {
+			coerced[key] = result.value;
+		}
+	}
+	if (errors.length > 0) {
+		return { error: `Error: Property type mismatch: ${errors.join("; ")}.` };
+	}
+	return { data: coerced };
+}
@@ -0,0 +1,353 @@
+export type FrontmatterPredicate = (frontmatter: Record<string, unknown>) => boolean;
+
+type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+type QueryValue = string | number | boolean | null;
+
+interface Token {
+	type: "word" | "string" | "symbol";
+	value: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?$/;
+const RELATIVE_DATE_PATTERN = /^(today|now)(?:([+-])(\d+)([dwmy]))?$/i;
+const COMPARISON_OPERATORS: ComparisonOperator[] = ["=", "!=", "<", "<=", ">", ">=", "contains"];
+
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	const pattern = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(`[^`]*`)|(==|!=|<=|>=|=|<|>|\(|\)|,)|([^\s"'`()=!<>,]+))/gy;
+	let index = 0;
+	let match: RegExpExecArray | null;
+	while (index < expression.length && (match = pattern.exec(expression)) !== null) {
+		index = pattern.lastIndex;
+		if (match[1] !== undefined) {
+			tokens.push({ type: "string", value: match[1].slice(1, -1).replace(/\\(.)/g, "$1") });
+		} else if (match[2] !== undefined) {
+			tokens.push({ type: "word", value: match[2].slice(1, -1) });
+		} else if (match[3] !== undefined) {
+			tokens.push({ type: "symbol", value: match[3] === "==" ? "=" : match[3] });
+		} else if (match[4] !== undefined) {
+			tokens.push({ type: "word", value: match[4] });
+		}
+	}
+	if (expression.slice(index).trim().length > 0) {
+		throw new Error(`Unexpected character at position ${index}.`);
+	}
+	return tokens;
+}
+
+/**
+ * Resolves `today`, `now` and relative forms such as `today+7d` or `today-1m`
+ * to a timestamp in local time.
+ */
+function resolveRelativeDate(word: string, now: Date): number | null {
+	const match = word.match(RELATIVE_DATE_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const date = new Date(now.getTime());
+	if (match[1]!.toLowerCase() === "today") {
+		date.setHours(0, 0, 0, 0);
+	}
+	if (match[2] && match[3] && match[4]) {
+		const amount = Number.parseInt(match[3], 10) * (match[2] === "-" ? -1 : 1);
+		switch (match[4].toLowerCase()) {
+			case "d":
+				date.setDate(date.getDate() + amount);
+				break;
+			case "w":
+				date.setDate(date.getDate() + amount * 7);
+				break;
+			case "m":
+				date.setMonth(date.getMonth() + amount);
+				break;
+			case "y":
+				date.setFullYear(date.getFullYear() + amount);
+				break;
+		}
+	}
+	return date.getTime();
+}
+
+/**
+ * Parses a date-like property value. Date-only strings are read in local time so
+ * they line up with `today`.
+ */
+export function toTimestamp(value: unknown): number | null {
+	if (value instanceof Date) {
+		return value.getTime();
+	}
+	if (typeof value !== "string" || !DATE_PATTERN.test(value.trim())) {
+		return null;
+	}
+	const [datePart, timePart] = value.trim().split(/[T ]/);
+	const [year = 0, month = 1, day = 1] = (datePart ?? "").split("-").map(Number);
+	const [hours = 0, minutes = 0, seconds = 0] = (timePart ?? "").split(":").map(Number);
+	return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+/**
+ * Parses an absolute (YYYY-MM-DD) or relative (today, today+7d) date to a timestamp.
+ */
+export function parseDateExpression(value: string, now: Date = new Date()): number | null {
+	return resolveRelativeDate(value.trim(), now) ?? toTimestamp(value);
+}
+
+/**
+ * Reads a property by key; dotted keys address nested objects (e.g. `project.owner`).
+ */
+export function getPropertyValue(frontmatter: Record<string, unknown>, key: string): unknown {
+	if (Object.prototype.hasOwnProperty.call(frontmatter, key)) {
+		return frontmatter[key];
+	}
+	let current: unknown = frontmatter;
+	for (const segment of key.split(".")) {
+		if (typeof current !== "object" || current === null || Array.isArray(current)) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+/**
+ * Returns the cached frontmatter without Obsidian's internal `position` entry.
+ */
+export function getCachedFrontmatter(cache: { frontmatter?: Record<string, unknown> } | null): Record<string, unknown> | null {
+	if (!cache?.frontmatter) {
+		return null;
+	}
+	return Object.fromEntries(
+		Object.entries(cache.frontmatter).filter(([key]) => key !== "position"),
+	);
+}
+
+function compareScalars(actual: unknown, expected: QueryValue | number, expectedIsDate: boolean): number | null {
+	if (expectedIsDate) {
+		const timestamp = toTimestamp(actual);
+		return timestamp === null ? null : timestamp - (expected as number);
+	}
+	if (typeof expected === "number") {
+		const numeric = typeof actual === "number" ? actual : typeof actual === "string" && actual.trim() !== "" ? Number(actual) : NaN;
+		return Number.isNaN(numeric) ? null : numeric - expected;
+	}
+	if (typeof expected === "string" && (typeof actual === "string" || typeof actual === "number")) {
+		return String(actual).localeCompare(expected, undefined, { sensitivity: "accent" });
+	}
+	if (typeof expected === "boolean" || expected === null) {
+		return actual === expected ? 0 : null;
+	}
+	return null;
+}
+
+function matchesComparison(
+	actual: unknown,
+	operator: ComparisonOperator,
+	expected: QueryValue | number,
+	expectedIsDate: boolean,
+): boolean {
+	if (actual === undefined) {
+		return false;
+	}
+
+	if (operator === "contains") {
+		if (Array.isArray(actual)) {
+			return actual.some((item) => compareScalars(item, expected, expectedIsDate) === 0);
+		}
+		if (typeof actual === "string" && expected !== null) {
+			return actual.toLowerCase().includes(String(expected).toLowerCase());
+		}
+		return false;
+	}
+
+	// A list property equals a value when one of its items does
+	if (Array.isArray(actual) && (operator === "=" || operator === "!=")) {
+		const found = actual.some((item) => compareScalars(item, expected, expectedIsDate) === 0);
+		return operator === "=" ? found : !found;
+	}
+
+	const difference = compareScalars(actual, expected, expectedIsDate);
+	if (difference === null) {
+		return operator === "!=";
+	}
+	switch (operator) {
+		case "=":
+			return difference === 0;
+		case "!=":
+			return difference !== 0;
+		case "<":
+			return difference < 0;
+		case "<=":
+			return difference <= 0;
+		case ">":
+			return difference > 0;
+		case ">=":
+			return difference >= 0;
+	}
+}
+
+/**
+ * Parses a frontmatter query into a predicate over a note's properties.
+ *
+ * Grammar (keywords are case-insensitive):
+ *   expr       := or
+ *   or         := and ("OR" and)*
+ *   and        := not ("AND" not)*
+ *   not        := "NOT" not | "(" expr ")" | condition
+ *   condition  := "exists(" key ")" | key "exists"
+ *               | key op value | key "between" value "and" value
+ *   op         := = | == | != | < | <= | > | >= | contains
+ *   value      := "string" | 'string' | number | true | false | null
+ *               | YYYY-MM-DD[THH:MM] | today | now | today+7d (d, w, m, y)
+ *
+ * Keys may be dotted for nested objects or wrapped in backticks when they contain spaces.
+ */
+export function parseFrontmatterQuery(expression: string, now: Date = new Date()): FrontmatterPredicate | { error: string } {
+	let tokens: Token[];
+	try {
+		tokens = tokenize(expression);
+	} catch (error) {
+		return { error: `Error: Invalid query: ${error instanceof Error ? error.message : String(error)}` };
+	}
+	let position = 0;
+
+	const peek = (): Token | undefined => tokens[position];
+	const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+		token?.type === "word" && token.value.toLowerCase() === keyword;
+	const next = (): Token => {
+		const token = tokens[position];
+		if (!token) {
+			throw new Error("Unexpected end of query.");
+		}
+		position += 1;
+		return token;
+	};
+	const expectSymbol = (symbol: string): void => {
+		const token = next();
+		if (token.type !== "symbol" || token.value !== symbol) {
+			throw new Error(`Expected "${symbol}" but found "${token.value}".`);
+		}
+	};
+
+	function parseValue(): { value: QueryValue | number; isDate: boolean } {
+		const token = next();
+		if (token.type === "string") {
+			const timestamp = toTimestamp(token.value);
+			return timestamp === null ? { value: token.value, isDate: false } : { value: timestamp, isDate: true };
+		}
+		if (token.type === "symbol") {
+			throw new Error(`Expected a value but found "${token.value}".`);
+		}
+		const word = token.value;
+		const lower = word.toLowerCase();
+		if (lower === "true" || lower === "false") {
+			return { value: lower === "true", isDate: false };
+		}
+		if (lower === "null") {
+			return { value: null, isDate: false };
+		}
+		const relative = resolveRelativeDate(word, now);
+		if (relative !== null) {
+			return { value: relative, isDate: true };
+		}
+		const timestamp = toTimestamp(word);
+		if (timestamp !== null) {
+			return { value: timestamp, isDate: true };
+		}
+		if (/^-?\d+(\.\d+)?$/.test(word)) {
+			return { value: Number(word), isDate: false };
+		}
+		return { value: word, isDate: false };
+	}
+
+	function parseCondition(): FrontmatterPredicate {
+		const keyToken = next();
+		if (keyToken.type !== "word") {
+			throw new Error(`Expected a property name but found "${keyToken.value}".`);
+		}
+
+		if (isKeyword(keyToken, "exists") && peek()?.value === "(") {
+			expectSymbol("(");
+			const key = next().value;
+			expectSymbol(")");
+			return (frontmatter) => getPropertyValue(frontmatter, key) !== undefined;
+		}
+
+		const key = keyToken.value;
+		const operatorToken = next();
+		if (isKeyword(operatorToken, "exists")) {
+			return (frontmatter) => getPropertyValue(frontmatter, key) !== undefined;
+		}
+		if (isKeyword(operatorToken, "between")) {
+			const lower = parseValue();
+			if (!isKeyword(next(), "and")) {
+				throw new Error("Expected \"and\" in between.");
+			}
+			const upper = parseValue();
+			return (frontmatter) => {
+				const actual = getPropertyValue(frontmatter, key);
+				return (
+					matchesComparison(actual, ">=", lower.value, lower.isDate) &&
+					matchesComparison(actual, "<=", upper.value, upper.isDate)
+				);
+			};
+		}
+
+		const operator = (operatorToken.type === "word" ? operatorToken.value.toLowerCase() : operatorToken.value) as ComparisonOperator;
+		if (!COMPARISON_OPERATORS.includes(operator)) {
+			throw new Error(`Unknown operator "${operatorToken.value}".`);
+		}
+		const { value, isDate } = parseValue();
+		return (frontmatter) => matchesComparison(getPropertyValue(frontmatter, key), operator, value, isDate);
+	}
+
+	function parseNot(): FrontmatterPredicate {
+		if (isKeyword(peek(), "not")) {
+			position += 1;
+			const operand = parseNot();
+			return (frontmatter) => !operand(frontmatter);
+		}
+		if (peek()?.type === "symbol" && peek()?.value === "(") {
+			position += 1;
+			const inner = parseOr();
+			expectSymbol(")");
+			return inner;
+		}
+		return parseCondition();
+	}
+
+	function parseAnd(): FrontmatterPredicate {
+		let left = parseNot();
+		while (isKeyword(peek(), "and")) {
+			position += 1;
+			const right = parseNot();
+			const previous = left;
+			left = (frontmatter) => previous(frontmatter) && right(frontmatter);
+		}
+		return left;
+	}
+
+	function parseOr(): FrontmatterPredicate {
+		let left = parseAnd();
+		while (isKeyword(peek(), "or")) {
+			position += 1;
+			const right = parseAnd();
+			const previous = left;
+			left = (frontmatter) => previous(frontmatter) || right(frontmatter);
+		}
+		return left;
+	}
+
+	try {
+		if (tokens.length === 0) {
+			throw new Error("Query is empty.");
+		}
+		const predicate = parseOr();
+		if (position < tokens.length) {
+			throw new Error(`Unexpected "${tokens[position]!.value}".`);
+		}
+		return predicate;
+	} catch (error) {
+		return { error: `Error: Invalid query: ${error instanceof Error ? error.message : String(error)}` };
+	}
+}
@@ -0,0 +1,131 @@
+import type { Tokens } from "marked";
+import { buildLineOffsets, extractHeadingsWithPositions, findLineIndex, parseMarkdown } from "./markdown-helper";
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export interface MarkdownTable {
+	index: number;
+	/** Zero-based body line index of the header row */
+	startLine: number;
+	/** Exclusive zero-based body line index after the last row */
+	endLine: number;
+	heading: string | null;
+	align: TableAlign[];
+	header: string[];
+	rows: string[][];
+}
+
+const MIN_COLUMN_WIDTH = 3;
+/** Characters that take no column of their own: combining marks, zero-width joiners and variation selectors */
+const ZERO_WIDTH_PATTERN = /[\p{Mn}\p{Me}\p{Default_Ignorable_Code_Point}]/u;
+/** Emoji and the East Asian wide and fullwidth ranges, which monospace editors render two columns wide */
+const WIDE_PATTERN = /[\p{Extended_Pictographic}\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6\u{20000}-\u{3FFFD}]/u;
+
+/**
+ * Finds the top-level GFM tables of a markdown body with their line range and the heading they are under.
+ * Tables nested in lists or blockquotes are not included.
+ */
+export function findTables(markdown: string): MarkdownTable[] {
+	// CRLF notes are matched on an LF copy; removing "\r" keeps every line index the same.
+	const body = markdown.replace(/\r\n/g, "\n");
+	const lineOffsets = buildLineOffsets(body);
+	const headings = extractHeadingsWithPositions(body);
+	const tables: MarkdownTable[] = [];
+	let searchIndex = 0;
+
+	for (const token of parseMarkdown(body)) {
+		if (token.type !== "table") {
+			continue;
+		}
+		const table = token as Tokens.Table;
+		const raw = table.raw.replace(/\n+$/, "");
+		const matchIndex = body.indexOf(raw, searchIndex);
+		if (matchIndex === -1) {
+			continue;
+		}
+		searchIndex = matchIndex + raw.length;
+
+		const startLine = findLineIndex(lineOffsets, matchIndex);
+		let heading: string | null = null;
+		for (const candidate of headings) {
+			if (candidate.lineIndex > startLine) {
+				break;
+			}
+			heading = candidate.text;
+		}
+
+		tables.push({
+			index: tables.length,
+			startLine,
+			endLine: startLine + raw.split("\n").length,
+			heading,
+			align: [...table.align],
+			header: table.header.map((cell) => cell.text),
+			rows: table.rows.map((row) => row.map((cell) => cell.text)),
+		});
+	}
+
+	return tables;
+}
+
+/**
+ * Counts the monospace columns a cell takes, with wide characters and emoji as two.
+ */
+function displayWidth(value: string): number {
+	let width = 0;
+	for (const character of value) {
+		if (ZERO_WIDTH_PATTERN.test(character)) {
+			continue;
+		}
+		width += WIDE_PATTERN.test(character) ? 2 : 1;
+	}
+	return width;
+}
+
+function escapeCell(value: string): string {
+	return value.replace(/\|/g, "\\|");
+}
+
+function padCell(value: string, width: number, align: TableAlign): string {
+	const padding = width - displayWidth(value);
+	if (align === "right") {
+		return " ".repeat(padding) + value;
+	}
+	if (align === "center") {
+		const left = Math.floor(padding / 2);
+		return " ".repeat(left) + value + " ".repeat(padding - left);
+	}
+	return value + " ".repeat(padding);
+}
+
+function buildDelimiter(width: number, align: TableAlign): string {
+	if (align === "center") {
+		return `:${"-".repeat(width - 2)}:`;
+	}
+	if (align === "left") {
+		return `:${"-".repeat(width - 1)}`;
+	}
+	if (align === "right") {
+		return `${"-".repeat(width - 1)}:`;
+	}
+	return "-".repeat(width);
+}
+
+/**
+ * Serializes a table as markdown lines with every column padded to the same display width.
+ * Pipes inside cells are escaped.
+ */
+export function serializeTable(table: Pick<MarkdownTable, "header" | "rows" | "align">): string[] {
+	const header = table.header.map(escapeCell);
+	const rows = table.rows.map((row) => header.map((_, column) => escapeCell(row[column] ?? "")));
+	const widths = header.map((cell, column) =>
+		Math.max(MIN_COLUMN_WIDTH, displayWidth(cell), ...rows.map((row) => displayWidth(row[column]!))));
+	const formatRow = (cells: string[]): string =>
+		`| ${cells.map((cell, column) => padCell(cell, widths[column]!, table.align[column] ?? null)).join(" | ")} |`;
+
+	return [
+		formatRow(header),
+		`| ${widths.map((width, column) => buildDelimiter(width, table.align[column] ?? null)).join(" | ")} |`,
+		...rows.map(formatRow),
+	];
+}
@@ -0,0 +1,296 @@
+import { mergeFrontmatter, splitFrontmatter } from "./markdown-helper";
+import { buildFrontmatterBlock, parseFrontmatterBlock } from "./yaml-helper";
+import { hasTag, normalizeTag } from "./vault-helper";
+
+export type TagPredicate = (noteTags: string[]) => boolean;
+
+export interface TagRewrite {
+	content: string;
+	/** Number of tag occurrences changed (frontmatter entries plus inline tags) */
+	changes: number;
+}
+
+const FRONTMATTER_TAG_KEYS = ["tags", "tag"];
+const INLINE_TAG_PATTERN = /(^|[\s(,;])#([\p{L}\p{N}_\-/]+)/gu;
+const TAG_NAME_PATTERN = /^[\p{L}\p{N}_\-/]+$/u;
+
+/**
+ * Returns true when a tag name is valid for Obsidian: letters, digits, "_", "-" and "/",
+ * with at least one non-digit character.
+ */
+export function isValidTagName(tag: string): boolean {
+	const name = tag.replace(/^#/, "");
+	return TAG_NAME_PATTERN.test(name) && !/^[\d/]+$/.test(name) && !name.startsWith("/") && !name.endsWith("/");
+}
+
+/**
+ * Parses a boolean tag expression into a predicate over normalized note tags.
+ * Supports `AND`/`&&`, `OR`/`||`, `NOT`/`!`/`-`, parentheses, and implicit AND between
+ * adjacent terms. Terms match nested children (`#project` matches `#project/alpha`).
+ */
+export function parseTagExpression(expression: string): TagPredicate | { error: string } {
+	const tokens = expression.match(/\(|\)|&&|\|\||!|[^\s()!]+/g) ?? [];
+	let position = 0;
+
+	const peek = (): string | undefined => tokens[position];
+	const isOperator = (token: string | undefined, ...names: string[]): boolean =>
+		token !== undefined && names.includes(token.toUpperCase());
+
+	function parseOr(): TagPredicate {
+		let left = parseAnd();
+		while (isOperator(peek(), "OR", "||")) {
+			position += 1;
+			const right = parseAnd();
+			const previous = left;
+			left = (noteTags) => previous(noteTags) || right(noteTags);
+		}
+		return left;
+	}
+
+	function parseAnd(): TagPredicate {
+		let left = parseNot();
+		for (;;) {
+			const token = peek();
+			if (isOperator(token, "AND", "&&")) {
+				position += 1;
+			} else if (token === undefined || token === ")" || isOperator(token, "OR", "||")) {
+				return left;
+			}
+			const right = parseNot();
+			const previous = left;
+			left = (noteTags) => previous(noteTags) && right(noteTags);
+		}
+	}
+
+	function parseNot(): TagPredicate {
+		const token = peek();
+		if (isOperator(token, "NOT", "!")) {
+			position += 1;
+			const operand = parseNot();
+			return (noteTags) => !operand(noteTags);
+		}
+		if (token?.startsWith("-") && token.length > 1) {
+			position += 1;
+			const tag = token.slice(1);
+			return (noteTags) => !hasTag(noteTags, tag);
+		}
+		return parsePrimary();
+	}
+
+	function parsePrimary(): TagPredicate {
+		const token = peek();
+		if (token === undefined) {
+			throw new Error("Unexpected end of expression.");
+		}
+		if (token === "(") {
+			position += 1;
+			const inner = parseOr();
+			if (peek() !== ")") {
+				throw new Error("Missing closing parenthesis.");
+			}
+			position += 1;
+			return inner;
+		}
+		if (token === ")" || isOperator(token, "AND", "OR", "&&", "||")) {
+			throw new Error(`Unexpected "${token}".`);
+		}
+		position += 1;
+		return (noteTags) => hasTag(noteTags, token);
+	}
+
+	try {
+		if (tokens.length === 0) {
+			throw new Error("Expression is empty.");
+		}
+		const predicate = parseOr();
+		if (position < tokens.length) {
+			throw new Error(`Unexpected "${tokens[position]}".`);
+		}
+		return predicate;
+	} catch (error) {
+		return { error: `Error: Invalid tag expression: ${error instanceof Error ? error.message : String(error)}` };
+	}
+}
+
+/**
+ * Maps a tag to its renamed form when it equals `from` or is nested under it.
+ * Returns null when the tag is unaffected.
+ */
+function renameTagName(tag: string, from: string, to: string): string | null {
+	const normalized = normalizeTag(tag);
+	if (normalized === from) {
+		return to;
+	}
+	if (normalized.startsWith(`${from}/`)) {
+		return `${to}${tag.replace(/^#/, "").slice(from.length)}`;
+	}
+	return null;
+}
+
+function readFrontmatterTags(value: unknown): string[] | null {
+	if (Array.isArray(value)) {
+		return value.filter((item): item is string => typeof item === "string");
+	}
+	if (typeof value === "string") {
+		return value.split(/[,\s]+/).filter((item) => item.length > 0);
+	}
+	return null;
+}
+
+/**
+ * Applies a transform to every frontmatter tag list. Lists are written back as arrays
+ * without "#" and without duplicates.
+ */
+function rewriteFrontmatterTags(
+	frontmatter: string,
+	transform: (tags: string[], key: string) => string[],
+): { frontmatter: string; changes: number } | { error: string } {
+	const parsed = parseFrontmatterBlock(frontmatter);
+	if ("error" in parsed) {
+		return parsed;
+	}
+
+	const data = { ...parsed.data };
+	let changes = 0;
+	for (const key of FRONTMATTER_TAG_KEYS) {
+		const current = readFrontmatterTags(data[key]);
+		if (current === null) {
+			continue;
+		}
+		const cleaned = current.map((tag) => tag.replace(/^#/, ""));
+		const next = Array.from(new Set(transform(cleaned, key)));
+		const delta = countDifferences(cleaned, next);
+		if (delta > 0) {
+			data[key] = next;
+			changes += delta;
+		}
+	}
+
+	if (changes === 0) {
+		return { frontmatter, changes };
+	}
+	return { frontmatter: buildFrontmatterBlock(data), changes };
+}
+
+function countDifferences(before: string[], after: string[]): number {
+	const removed = before.filter((tag) => !after.includes(tag)).length;
+	const added = after.filter((tag) => !before.includes(tag)).length;
+	return Math.max(removed, added);
+}
+
+/**
+ * Rewrites inline tags outside fenced code blocks and inline code spans.
+ * The replacer returns the new tag name, null to remove the tag, or undefined to keep it.
+ */
+function rewriteInlineTags(
+	body: string,
+	replacer: (tag: string) => string | null | undefined,
+): { body: string; changes: number } {
+	let changes = 0;
+	let inFence = false;
+	const lines = body.split("\n").map((line) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return line;
+		}
+		if (inFence) {
+			return line;
+		}
+		let removedTag = false;
+		// Odd segments of a backtick split are inline code
+		const nextLine = line
+			.split("`")
+			.map((segment, index) => {
+				if (index % 2 === 1) {
+					return segment;
+				}
+				return segment.replace(INLINE_TAG_PATTERN, (match, prefix: string, tag: string) => {
+					if (/^\d+$/.test(tag)) {
+						return match;
+					}
+					const replacement = replacer(tag);
+					if (replacement === undefined) {
+						return match;
+					}
+					changes += 1;
+					if (replacement === null) {
+						removedTag = true;
+						return prefix;
+					}
+					return `${prefix}#${replacement}`;
+				});
+			})
+			.join("`");
+		return removedTag ? nextLine.trimEnd() : nextLine;
+	});
+	return { body: lines.join("\n"), changes };
+}
+
+/**
+ * Renames (or merges) a tag and its nested children in frontmatter tag lists and inline tags.
+ */
+export function renameTagInContent(content: string, from: string, to: string): TagRewrite | { error: string } {
+	const fromTag = normalizeTag(from);
+	const toTag = to.trim().replace(/^#/, "");
+	const { frontmatter, body } = splitFrontmatter(content);
+
+	const nextFrontmatter = rewriteFrontmatterTags(frontmatter, (tags) =>
+		tags.map((tag) => renameTagName(tag, fromTag, toTag) ?? tag),
+	);
+	if ("error" in nextFrontmatter) {
+		return nextFrontmatter;
+	}
+	const nextBody = rewriteInlineTags(body, (tag) => renameTagName(tag, fromTag, toTag) ?? undefined);
+
+	return {
+		content: mergeFrontmatter(nextFrontmatter.frontmatter, nextBody.body),
+		changes: nextFrontmatter.changes + nextBody.changes,
+	};
+}
+
+/**
+ * Adds tags to the frontmatter `tags` list unless the note already has them.
+ */
+export function addTagsToContent(content: string, tags: string[], noteTags: string[]): TagRewrite | { error: string } {
+	const missing = tags
+		.map((tag) => tag.trim().replace(/^#/, ""))
+		.filter((tag) => !noteTags.includes(normalizeTag(tag)));
+	if (missing.length === 0) {
+		return { content, changes: 0 };
+	}
+
+	const { frontmatter, body } = splitFrontmatter(content);
+	const parsed = parseFrontmatterBlock(frontmatter);
+	if ("error" in parsed) {
+		return parsed;
+	}
+	const key = FRONTMATTER_TAG_KEYS.find((candidate) => readFrontmatterTags(parsed.data[candidate]) !== null) ?? "tags";
+	const current = (readFrontmatterTags(parsed.data[key]) ?? []).map((tag) => tag.replace(/^#/, ""));
+	const data = { ...parsed.data, [key]: Array.from(new Set([...current, ...missing])) };
+
+	return {
+		content: mergeFrontmatter(buildFrontmatterBlock(data), body),
+		changes: missing.length,
+	};
+}
+
+/**
+ * Removes tags (exact matches only, not nested children) from frontmatter tag lists and inline tags.
+ */
+export function removeTagsFromContent(content: string, tags: string[]): TagRewrite | { error: string } {
+	const removed = new Set(tags.map(normalizeTag));
+	const { frontmatter, body } = splitFrontmatter(content);
+
+	const nextFrontmatter = rewriteFrontmatterTags(frontmatter, (current) =>
+		current.filter((tag) => !removed.has(normalizeTag(tag))),
+	);
+	if ("error" in nextFrontmatter) {
+		return nextFrontmatter;
+	}
+	const nextBody = rewriteInlineTags(body, (tag) => (removed.has(normalizeTag(tag)) ? null : undefined));
+
+	return {
+		content: mergeFrontmatter(nextFrontmatter.frontmatter, nextBody.body),
+		changes: nextFrontmatter.changes + nextBody.changes,
+	};
+}
@@ -0,0 +1,36 @@
+import { moment } from "obsidian";
+
+export interface TemplateValues {
+	/** Replaces {{title}} */
+	title: string;
+	/** Date used for {{date}} and {{date:FORMAT}}; {{time}} always uses the current time */
+	date: ReturnType<typeof moment>;
+	/** Format used for a bare {{date}}. Default: YYYY-MM-DD */
+	dateFormat?: string;
+	/** Extra {{name}} replacements */
+	variables?: Record<string, string>;
+}
+
+/**
+ * Renders the placeholders the core Templates and Daily Notes plugins understand:
+ * {{title}}, {{date}}, {{time}}, {{date:FORMAT}} and {{time:FORMAT}}, plus custom variables.
+ * Unknown placeholders are left untouched.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+	return template.replace(/\{\{\s*([\w-]+)\s*(?::([^}]*))?\}\}/g, (match, name: string, format: string | undefined) => {
+		const key = name.toLowerCase();
+		if (key === "title" && format === undefined) {
+			return values.title;
+		}
+		if (key === "date") {
+			return values.date.format(format?.trim() || (values.dateFormat ?? "YYYY-MM-DD"));
+		}
+		if (key === "time") {
+			return moment().format(format?.trim() || "HH:mm");
+		}
+		if (format === undefined && values.variables && Object.prototype.hasOwnProperty.call(values.variables, name)) {
+			return values.variables[name]!;
+		}
+		return match;
+	});
+}
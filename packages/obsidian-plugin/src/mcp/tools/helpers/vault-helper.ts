@@ -0,0 +1,157 @@
+import { CachedMetadata, getAllTags, normalizePath, TFile } from "obsidian";
+
+/**
+ * Normalizes a note path and appends the .md extension when missing.
+ */
+export function normalizeNotePath(path: string): string {
+	let normalizedPath = normalizePath(path);
+	if (!normalizedPath.toLowerCase().endsWith(".md")) {
+		normalizedPath = `${normalizedPath}.md`;
+	}
+	return normalizedPath;
+}
+
+/**
+ * Normalizes a folder filter. Empty values and "/" refer to the vault root.
+ */
+export function normalizeFolderPath(folder: string | undefined): string {
+	if (!folder) {
+		return "";
+	}
+	const normalized = normalizePath(folder);
+	return normalized === "/" ? "" : normalized;
+}
+
+/**
+ * Returns true when the path is inside the folder (or the folder is the vault root).
+ */
+export function isPathInFolder(path: string, folder: string): boolean {
+	if (!folder) {
+		return true;
+	}
+	return path.startsWith(`${folder}/`);
+}
+
+/**
+ * Normalizes a tag for comparison: strips the leading "#" and lowercases.
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Collects normalized frontmatter and inline tags of a note from the metadata cache.
+ */
+export function getNoteTags(cache: CachedMetadata | null | undefined): string[] {
+	if (!cache) {
+		return [];
+	}
+	const tags = getAllTags(cache) ?? [];
+	return Array.from(new Set(tags.map(normalizeTag)));
+}
+
+/**
+ * Returns true when the note tags contain the tag or one of its nested children
+ * (e.g. "project" matches "project/alpha").
+ */
+export function hasTag(noteTags: string[], tag: string): boolean {
+	const wanted = normalizeTag(tag);
+	return noteTags.some((noteTag) => noteTag === wanted || noteTag.startsWith(`${wanted}/`));
+}
+
+/**
+ * Returns markdown files sorted by path, optionally limited to a folder.
+ */
+export function getMarkdownFilesInFolder(files: TFile[], folder: string): TFile[] {
+	return files
+		.filter((file) => isPathInFolder(file.path, folder))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Parses an opaque pagination cursor into a zero-based offset.
+ * Returns null when the cursor is malformed.
+ */
+export function parseCursor(cursor: unknown): number | null {
+	if (cursor === undefined || cursor === null || cursor === "") {
+		return 0;
+	}
+	if (typeof cursor !== "string" || !/^\d+$/.test(cursor)) {
+		return null;
+	}
+	return Number.parseInt(cursor, 10);
+}
+
+/**
+ * Builds the cursor for the next page, or undefined when no entries remain.
+ */
+export function buildNextCursor(nextOffset: number, total: number): string | undefined {
+	return nextOffset < total ? String(nextOffset) : undefined;
+}
+
+/**
+ * Converts a glob pattern into a regular expression matched against vault paths.
+ * Supports "**" (any depth), "*" (within a path segment), "?" and "{a,b}" alternatives.
+ * Throws when a "{" is never closed.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	let braceDepth = 0;
+	for (let index = 0; index < pattern.length; index += 1) {
+		const char = pattern[index]!;
+		if (char === "*") {
+			if (pattern[index + 1] === "*") {
+				const followedBySlash = pattern[index + 2] === "/";
+				source += followedBySlash ? "(?:.*/)?" : ".*";
+				index += followedBySlash ? 2 : 1;
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			braceDepth += 1;
+			source += "(?:";
+		} else if (char === "}" && braceDepth > 0) {
+			braceDepth -= 1;
+			source += ")";
+		} else if (char === "," && braceDepth > 0) {
+			source += "|";
+		} else {
+			source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	if (braceDepth > 0) {
+		throw new Error(`Glob "${pattern}" has an unclosed "{".`);
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles glob patterns, or returns an error for the first malformed one.
+ */
+export function compileGlobs(patterns: string[]): RegExp[] | { error: string } {
+	try {
+		return patterns.map(globToRegExp);
+	} catch (error) {
+		return { error: `Error: ${error instanceof Error ? error.message : String(error)}` };
+	}
+}
+
+/**
+ * Returns true when the path matches at least one include glob (if any) and no exclude glob.
+ */
+export function matchesGlobs(path: string, include: RegExp[], exclude: RegExp[]): boolean {
+	if (include.length > 0 && !include.some((regex) => regex.test(path))) {
+		return false;
+	}
+	return !exclude.some((regex) => regex.test(path));
+}
+
+/**
+ * Returns the number of file lines taken by frontmatter according to the metadata cache.
+ * Subtract it from zero-based cache positions to get markdown body line indexes.
+ */
+export function getBodyLineOffset(cache: CachedMetadata | null | undefined): number {
+	return cache?.frontmatterPosition ? cache.frontmatterPosition.end.line + 1 : 0;
+}
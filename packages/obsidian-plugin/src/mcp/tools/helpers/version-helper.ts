@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import { createTwoFilesPatch } from "diff";
+import { MCPToolResult } from "../types";
+
+/**
+ * Recently served note contents keyed by version, so a conflict can show what changed
+ * since the caller read the note. Bounded to keep memory flat on large vaults.
+ */
+const MAX_REMEMBERED_VERSIONS = 200;
+const MAX_REMEMBERED_CONTENT_CHARS = 256 * 1024;
+const rememberedContents = new Map<string, string>();
+
+function rememberContent(version: string, content: string): void {
+	if (content.length > MAX_REMEMBERED_CONTENT_CHARS) {
+		return;
+	}
+	rememberedContents.delete(version);
+	rememberedContents.set(version, content);
+	// Maps iterate in insertion order, so the first keys are the oldest entries.
+	for (const oldest of rememberedContents.keys()) {
+		if (rememberedContents.size <= MAX_REMEMBERED_VERSIONS) {
+			break;
+		}
+		rememberedContents.delete(oldest);
+	}
+}
+
+/**
+ * Computes the version of a note: a hash of its full content (frontmatter included).
+ * Read tools return it as `version`; write tools accept it as `expected_version`.
+ */
+export function computeContentVersion(content: string): string {
+	const version = createHash("sha256").update(content).digest("hex").slice(0, 16);
+	rememberContent(version, content);
+	return version;
+}
+
+/**
+ * Validates the `expected_version` argument of a write tool.
+ * Returns an error message when the value is present but malformed.
+ */
+export function validateExpectedVersion(expectedVersion: unknown): string | null {
+	if (expectedVersion === undefined || (typeof expectedVersion === "string" && expectedVersion.length > 0)) {
+		return null;
+	}
+	return "Error: expected_version must be a non-empty string.";
+}
+
+/**
+ * Checks an `expected_version` precondition against the current note content.
+ * Returns a structured conflict result when the note changed, or null when the write may proceed.
+ * A missing note has no version, so any expected version conflicts with it.
+ */
+export function checkExpectedVersion(
+	expectedVersion: string | undefined,
+	path: string,
+	currentContent: string | null,
+): MCPToolResult | null {
+	if (expectedVersion === undefined) {
+		return null;
+	}
+
+	const currentVersion = currentContent === null ? null : computeContentVersion(currentContent);
+	if (currentVersion === expectedVersion) {
+		return null;
+	}
+
+	const expectedContent = rememberedContents.get(expectedVersion);
+	const diff = expectedContent !== undefined && currentContent !== null
+		? createTwoFilesPatch(path, path, expectedContent, currentContent, expectedVersion, currentVersion ?? undefined)
+		: null;
+
+	return {
+		content: [{
+			type: "text",
+			text: JSON.stringify({
+				error: "conflict",
+				message: `Error: Note "${path}" changed since version ${expectedVersion}. Re-read the note and retry.`,
+				path,
+				expected_version: expectedVersion,
+				current_version: currentVersion,
+				diff,
+			}, null, 2),
+		}],
+		isError: true,
+	};
+}
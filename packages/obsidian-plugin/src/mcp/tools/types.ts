@@ -22,16 +22,40 @@ export interface JSONSchema {
 	required?: string[];
 }
 
+/**
+ * Content block returned by tool handlers.
+ * Non-text blocks declare `text?: never` so `content[0]?.text` stays readable on the union.
+ */
+export type MCPToolContent =
+	| {
+		type: "text";
+		text: string;
+	}
+	| {
+		type: "image";
+		/** Base64-encoded image data */
+		data: string;
+		mimeType: string;
+		text?: never;
+	}
+	| {
+		type: "resource";
+		resource: {
+			uri: string;
+			mimeType?: string;
+			/** Base64-encoded file data */
+			blob: string;
+		};
+		text?: never;
+	};
+
 /**
  * Result returned by tool handlers
  * Compatible with MCP SDK CallToolResult
  */
 export interface MCPToolResult {
 	[key: string]: unknown;
-	content: Array<{
-		type: "text";
-		text: string;
-	}>;
+	content: MCPToolContent[];
 	isError?: boolean;
 }
 
@@ -0,0 +1,9 @@
+import { createHash } from "crypto";
+
+/**
+ * Derives a short, non-secret identifier for an MCP API key.
+ * Used to attribute journaled writes to a key without storing the key itself.
+ */
+export function getApiKeyId(apiKey: string): string {
+	return createHash("sha256").update(apiKey).digest("hex").slice(0, 8);
+}
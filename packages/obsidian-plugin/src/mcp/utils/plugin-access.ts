@@ -13,3 +13,31 @@ export function getPlugin(app: App, id: string): unknown | undefined {
 	}
 	return getter.call(pluginManager, id);
 }
+
+/** Safely reads a vault configuration value (e.g. "alwaysUpdateLinks"). Returns undefined if unavailable. */
+// eslint-disable-next-line @typescript-eslint/no-redundant-type-constituents
+export function getVaultConfig(app: App, key: string): unknown | undefined {
+	const vault = app.vault as unknown as { getConfig?: (key: string) => unknown };
+	if (typeof vault.getConfig !== "function") {
+		return undefined;
+	}
+	return vault.getConfig.call(vault, key);
+}
+
+/**
+ * Safely reads the options of an enabled core plugin (e.g. "daily-notes").
+ * Returns undefined if the plugin is missing or disabled.
+ */
+export function getInternalPluginOptions(app: App, id: string): Record<string, unknown> | undefined {
+	const internalPlugins = (app as unknown as {
+		internalPlugins?: { getPluginById?: (id: string) => { enabled?: boolean; instance?: { options?: Record<string, unknown> } } | null };
+	}).internalPlugins;
+	if (typeof internalPlugins?.getPluginById !== "function") {
+		return undefined;
+	}
+	const plugin = internalPlugins.getPluginById.call(internalPlugins, id);
+	if (!plugin?.enabled) {
+		return undefined;
+	}
+	return plugin.instance?.options;
+}
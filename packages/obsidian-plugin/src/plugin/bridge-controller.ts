@@ -3,6 +3,7 @@ import { BridgeServer } from "../mcp/server";
 import { ToolRegistry } from "../mcp/tools/registry";
 import { ToolExecutor } from "../mcp/tools/executor";
 import { AppContext } from "./context";
+import { EditJournal } from "./edit-journal";
 import { SettingsStore } from "../settings/settings-store";
 import { EventRef } from "../settings/setting-store-base";
 
@@ -21,6 +22,7 @@ export class BridgeController {
 	private vault: Vault;
 	private settings: BridgeSettings;
 	private toolRegistry: ToolRegistry;
+	private editJournal: EditJournal | null;
 	private server: BridgeServer | null = null;
 	private runningSettings: BridgeSettings | null = null;
 	private changeEventRef: EventRef | null = null;
@@ -29,12 +31,14 @@ export class BridgeController {
 		app: App,
 		vault: Vault,
 		settings: BridgeSettings,
-		toolRegistry: ToolRegistry
+		toolRegistry: ToolRegistry,
+		editJournal: EditJournal | null = null,
 	) {
 		this.app = app;
 		this.vault = vault;
 		this.settings = settings;
 		this.toolRegistry = toolRegistry;
+		this.editJournal = editJournal;
 	}
 
 	isRunning(): boolean {
@@ -75,6 +79,9 @@ export class BridgeController {
 			vault: this.vault,
 			app: this.app,
 		};
+		if (this.editJournal) {
+			toolContext.editJournal = this.editJournal;
+		}
 		const executor = new ToolExecutor(this.toolRegistry, toolContext);
 		this.server = new BridgeServer(
 			executor,
@@ -1,5 +1,14 @@
 import { App, EventRef, Vault } from "obsidian";
 import type MCPPlugin from "../main";
+import type { EditJournal } from "./edit-journal";
+
+/**
+ * Identity of the client behind a tool call.
+ */
+export interface ToolCaller {
+	/** Fingerprint of the MCP API key, or null for unauthenticated bridge v1 calls */
+	keyId: string | null;
+}
 
 /**
  * Minimal application context interface.
@@ -14,6 +23,10 @@ export interface AppContext {
 	vault: Vault;
 	/** Obsidian App instance for global app state */
 	app: App;
+	/** Journal that write tools record into; absent outside the bridge */
+	editJournal?: EditJournal;
+	/** Caller of the current tool call; set per request by the MCP endpoint */
+	caller?: ToolCaller;
 }
 
 /**
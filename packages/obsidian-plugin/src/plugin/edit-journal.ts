@@ -0,0 +1,273 @@
+import { TFile } from "obsidian";
+import type { AppContext } from "./context";
+
+export type EditAction = "create" | "modify" | "delete" | "move";
+
+/**
+ * A single write made through the bridge.
+ * `before`/`after` are full snapshots of the note; they are null when the note did not
+ * exist on that side of the write, for moves and binary files, or when the note exceeded
+ * the snapshot limit.
+ */
+export interface EditJournalEntry {
+	id: number;
+	tool: string;
+	/** Fingerprint of the MCP API key that made the call, or null for unauthenticated calls */
+	key_id: string | null;
+	timestamp: number;
+	action: EditAction;
+	path: string;
+	/** Original path of a moved note or folder */
+	previous_path?: string;
+	before: string | null;
+	after: string | null;
+	/** True when a snapshot was dropped because the note exceeded the size limit */
+	snapshot_omitted?: boolean;
+	/** True for binary files such as attachments, which are journaled without snapshots */
+	binary?: boolean;
+	reverted_at?: number;
+}
+
+/**
+ * A write to record. The journal assigns the id and timestamp.
+ */
+export interface EditRecord {
+	tool: string;
+	keyId: string | null;
+	action: EditAction;
+	path: string;
+	previousPath?: string;
+	before: string | null;
+	after: string | null;
+	binary?: boolean;
+}
+
+export type RevertResult = { ok: true; entry: EditJournalEntry } | { ok: false; error: string };
+
+/**
+ * Persistence layer interface for the journal.
+ * Implementations provide framework-specific storage (e.g., a JSON file in the plugin folder).
+ */
+export interface EditJournalPersistence {
+	load(): Promise<EditJournalEntry[] | null>;
+	save(entries: EditJournalEntry[]): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+const MAX_SNAPSHOT_CHARS = 512 * 1024;
+// The whole journal is rewritten on every write, so its snapshots share one budget
+const DEFAULT_MAX_TOTAL_CHARS = 4 * 1024 * 1024;
+
+function getSnapshotChars(entry: EditJournalEntry): number {
+	return (entry.before?.length ?? 0) + (entry.after?.length ?? 0);
+}
+
+/**
+ * Bounded, persistent journal of writes made through the bridge.
+ * Entries are kept newest last; the oldest entries are dropped once the entry limit or the
+ * total snapshot size is reached. The newest entry is always kept.
+ */
+export class EditJournal {
+	private entries: EditJournalEntry[] = [];
+	private nextId = 1;
+	private readonly persistence: EditJournalPersistence;
+	private readonly maxEntries: number;
+	private readonly maxTotalChars: number;
+
+	constructor(
+		persistence: EditJournalPersistence,
+		maxEntries: number = DEFAULT_MAX_ENTRIES,
+		maxTotalChars: number = DEFAULT_MAX_TOTAL_CHARS,
+	) {
+		this.persistence = persistence;
+		this.maxEntries = maxEntries;
+		this.maxTotalChars = maxTotalChars;
+	}
+
+	async load(): Promise<void> {
+		try {
+			const loaded = await this.persistence.load();
+			this.entries = Array.isArray(loaded) ? loaded : [];
+			this.evictOldest();
+		} catch (error) {
+			console.error("[EditJournal] Failed to load journal:", error);
+			this.entries = [];
+		}
+		this.nextId = this.entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+	}
+
+	/**
+	 * Records a write. Persistence failures are logged and never fail the write itself.
+	 */
+	async record(record: EditRecord): Promise<EditJournalEntry> {
+		const tooLarge =
+			(record.before?.length ?? 0) > MAX_SNAPSHOT_CHARS ||
+			(record.after?.length ?? 0) > MAX_SNAPSHOT_CHARS;
+		const entry: EditJournalEntry = {
+			id: this.nextId++,
+			tool: record.tool,
+			key_id: record.keyId,
+			timestamp: Date.now(),
+			action: record.action,
+			path: record.path,
+			before: tooLarge ? null : record.before,
+			after: tooLarge ? null : record.after,
+		};
+		if (record.previousPath !== undefined) {
+			entry.previous_path = record.previousPath;
+		}
+		if (record.binary) {
+			entry.binary = true;
+		}
+		if (tooLarge) {
+			entry.snapshot_omitted = true;
+		}
+
+		this.entries.push(entry);
+		this.evictOldest();
+		await this.save();
+		return entry;
+	}
+
+	/**
+	 * Returns entries newest first.
+	 */
+	list(): EditJournalEntry[] {
+		return [...this.entries].reverse();
+	}
+
+	get(id: number): EditJournalEntry | null {
+		return this.entries.find((entry) => entry.id === id) ?? null;
+	}
+
+	/**
+	 * Returns the newest entry that has not been reverted, optionally limited to one path.
+	 */
+	getLastRevertible(path?: string): EditJournalEntry | null {
+		for (let index = this.entries.length - 1; index >= 0; index -= 1) {
+			const entry = this.entries[index]!;
+			if (entry.reverted_at !== undefined) {
+				continue;
+			}
+			if (path === undefined || entry.path === path || entry.previous_path === path) {
+				return entry;
+			}
+		}
+		return null;
+	}
+
+	async clear(): Promise<void> {
+		this.entries = [];
+		await this.save();
+	}
+
+	/**
+	 * Restores the state before an entry's write.
+	 * Unless `force` is set, the note must still match the entry's after-snapshot,
+	 * so a revert never discards changes made after the journaled write.
+	 */
+	async revert(id: number, context: AppContext, force: boolean = false): Promise<RevertResult> {
+		const entry = this.get(id);
+		if (!entry) {
+			return { ok: false, error: `Error: Journal entry ${id} not found.` };
+		}
+		if (entry.reverted_at !== undefined) {
+			return { ok: false, error: `Error: Journal entry ${id} was already reverted.` };
+		}
+		if (entry.snapshot_omitted) {
+			return { ok: false, error: `Error: Journal entry ${id} has no snapshot because the note was too large.` };
+		}
+
+		try {
+			const error = entry.action === "move"
+				? await this.revertMove(entry, context)
+				: entry.binary
+					? await this.revertBinary(entry, context)
+					: await this.revertContent(entry, context, force);
+			if (error) {
+				return { ok: false, error };
+			}
+		} catch (error) {
+			return {
+				ok: false,
+				error: `Error reverting journal entry ${id}: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+
+		entry.reverted_at = Date.now();
+		await this.save();
+		return { ok: true, entry };
+	}
+
+	private async revertMove(entry: EditJournalEntry, context: AppContext): Promise<string | null> {
+		const moved = context.vault.getAbstractFileByPath(entry.path);
+		if (!moved || entry.previous_path === undefined) {
+			return `Error: Nothing to move back; "${entry.path}" no longer exists.`;
+		}
+		if (context.vault.getAbstractFileByPath(entry.previous_path)) {
+			return `Error: Cannot move back; "${entry.previous_path}" already exists.`;
+		}
+		await context.app.fileManager.renameFile(moved, entry.previous_path);
+		return null;
+	}
+
+	/**
+	 * Binary files have no snapshots, so only their creation can be undone.
+	 */
+	private async revertBinary(entry: EditJournalEntry, context: AppContext): Promise<string | null> {
+		if (entry.action !== "create") {
+			return `Error: Journal entry ${entry.id} changed a binary file; only newly created files can be reverted.`;
+		}
+		const existing = context.vault.getAbstractFileByPath(entry.path);
+		if (!(existing instanceof TFile)) {
+			return `Error: Nothing to remove; "${entry.path}" no longer exists.`;
+		}
+		await context.app.fileManager.trashFile(existing);
+		return null;
+	}
+
+	private async revertContent(entry: EditJournalEntry, context: AppContext, force: boolean): Promise<string | null> {
+		const existing = context.vault.getAbstractFileByPath(entry.path);
+		if (existing && !(existing instanceof TFile)) {
+			return `Error: Path "${entry.path}" is a folder, not a note`;
+		}
+		const currentContent = existing ? await context.vault.read(existing) : null;
+		if (!force && currentContent !== entry.after) {
+			return `Error: "${entry.path}" changed after journal entry ${entry.id}. Pass force=true to revert anyway.`;
+		}
+
+		if (entry.before === null) {
+			if (existing) {
+				await context.app.fileManager.trashFile(existing);
+			}
+			return null;
+		}
+		if (existing) {
+			await context.vault.modify(existing, entry.before);
+		} else {
+			await context.vault.create(entry.path, entry.before);
+		}
+		return null;
+	}
+
+	private evictOldest(): void {
+		if (this.entries.length > this.maxEntries) {
+			this.entries.splice(0, this.entries.length - this.maxEntries);
+		}
+		let totalChars = this.entries.reduce((total, entry) => total + getSnapshotChars(entry), 0);
+		let dropCount = 0;
+		while (totalChars > this.maxTotalChars && dropCount < this.entries.length - 1) {
+			totalChars -= getSnapshotChars(this.entries[dropCount]!);
+			dropCount += 1;
+		}
+		this.entries.splice(0, dropCount);
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.persistence.save(this.entries);
+		} catch (error) {
+			console.error("[EditJournal] Failed to save journal:", error);
+		}
+	}
+}
@@ -7,6 +7,26 @@ import { getBuiltinNoteTools } from "../mcp/tools/builtin/read";
 import { getBuiltinNoteOutlineTools } from "../mcp/tools/builtin/note-outline";
 import { getBuiltinEditTools } from "../mcp/tools/builtin/edit";
 import { getBuiltinFrontmatterTools } from "../mcp/tools/builtin/frontmatter-tool";
+import { getBuiltinSearchTools } from "../mcp/tools/builtin/search";
+import { getBuiltinListTools } from "../mcp/tools/builtin/list";
+import { getBuiltinLinkTools } from "../mcp/tools/builtin/links";
+import { getBuiltinMoveTools } from "../mcp/tools/builtin/move";
+import { getBuiltinSectionEditTools } from "../mcp/tools/builtin/section-edit";
+import { getBuiltinJournalTools } from "../mcp/tools/builtin/journal";
+import { getBuiltinBlockRefTools } from "../mcp/tools/builtin/block-ref";
+import { getBuiltinTagTools } from "../mcp/tools/builtin/tags";
+import { getBuiltinFrontmatterQueryTools } from "../mcp/tools/builtin/frontmatter-query";
+import { getBuiltinTaskTools } from "../mcp/tools/builtin/tasks";
+import { getBuiltinPeriodicNoteTools } from "../mcp/tools/builtin/periodic-note";
+import { getBuiltinCreateNoteTools } from "../mcp/tools/builtin/create-note";
+import { getBuiltinAttachmentTools } from "../mcp/tools/builtin/attachments";
+import { getBuiltinCanvasTools } from "../mcp/tools/builtin/canvas";
+import { getBuiltinReplaceTools } from "../mcp/tools/builtin/replace";
+import { getBuiltinTableTools } from "../mcp/tools/builtin/tables";
+import { getBuiltinCodeBlockTools } from "../mcp/tools/builtin/code-blocks";
+import { getBuiltinStructureTools } from "../mcp/tools/builtin/structure";
+import { getBuiltinVaultHealthTools } from "../mcp/tools/builtin/vault-health";
+import { getBuiltinRenameHeadingTools } from "../mcp/tools/builtin/rename-heading";
 import {
 	ScriptLoader,
 	ScriptRegistry,
@@ -63,6 +83,66 @@ export class ToolingManager {
 		for (const tool of getBuiltinFrontmatterTools()) {
 			this.registry.register(tool, ToolSource.Builtin);
 		}
+		for (const tool of getBuiltinSearchTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinListTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinLinkTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinMoveTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinSectionEditTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinJournalTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinBlockRefTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinTagTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinFrontmatterQueryTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinTaskTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinPeriodicNoteTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinCreateNoteTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinAttachmentTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinCanvasTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinReplaceTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinTableTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinCodeBlockTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinStructureTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinVaultHealthTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
+		for (const tool of getBuiltinRenameHeadingTools()) {
+			this.registry.register(tool, ToolSource.Builtin);
+		}
 
 		const scriptsPath = this.settings.scriptsPath ?? "";
 
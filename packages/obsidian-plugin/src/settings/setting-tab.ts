@@ -5,14 +5,18 @@ import { ExampleManager } from "../mcp/tools/scripting/example-manager";
 import { BridgeController } from "../plugin/bridge-controller";
 import { ToolingManager } from "../plugin/tooling-manager";
 import { EventRef } from "./setting-store-base";
+import { EditJournal, EditJournalEntry } from "../plugin/edit-journal";
+import { getApiKeyId } from "../mcp/utils/api-key";
 
 const TIMER_DELAY = 2000;
+const JOURNAL_DISPLAY_LIMIT = 30;
 
 export class MCPSettingTab extends PluginSettingTab {
 	private settingsStore: SettingsStore;
 	private bridgeController: BridgeController;
 	private toolingManager: ToolingManager;
 	private exampleManager: ExampleManager | null;
+	private editJournal: EditJournal | null;
 	private displayTimer: number | null = null;
 	private changeEventRef: EventRef | null = null;
 
@@ -23,12 +27,14 @@ export class MCPSettingTab extends PluginSettingTab {
 		bridgeController: BridgeController,
 		toolingManager: ToolingManager,
 		exampleManager: ExampleManager | null,
+		editJournal: EditJournal | null = null,
 	) {
 		super(app, plugin);
 		this.settingsStore = settingsStore;
 		this.bridgeController = bridgeController;
 		this.toolingManager = toolingManager;
 		this.exampleManager = exampleManager;
+		this.editJournal = editJournal;
 
 		// Subscribe to settings changes for automatic UI updates
 		this.changeEventRef = this.settingsStore.on("change", () => {
@@ -66,6 +72,64 @@ export class MCPSettingTab extends PluginSettingTab {
 		return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
 	}
 
+	private describeJournalEntry(entry: EditJournalEntry): string {
+		const parts = [
+			new Date(entry.timestamp).toLocaleString(),
+			entry.tool,
+			entry.key_id ? `key ${entry.key_id}` : "no key",
+		];
+		if (entry.previous_path !== undefined) {
+			parts.push(`from ${entry.previous_path}`);
+		}
+		if (entry.reverted_at !== undefined) {
+			parts.push("reverted");
+		}
+		return parts.join(" · ");
+	}
+
+	private displayEditJournal(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Edit journal").setHeading();
+
+		const editJournal = this.editJournal;
+		if (!editJournal) {
+			containerEl.createEl("p", {
+				text: "The edit journal is not available.",
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		const entries = editJournal.list();
+		new Setting(containerEl)
+			.setName("Journaled edits")
+			.setDesc(`Writes made through the bridge, newest first. ${entries.length} entries are kept.`)
+			.addButton((button) =>
+				button
+					.setButtonText("Clear")
+					.setDisabled(entries.length === 0)
+					.onClick(async () => {
+						await editJournal.clear();
+						this.display();
+					}),
+			);
+
+		for (const entry of entries.slice(0, JOURNAL_DISPLAY_LIMIT)) {
+			new Setting(containerEl)
+				.setName(`${entry.action} ${entry.path}`)
+				.setDesc(this.describeJournalEntry(entry))
+				.addButton((button) =>
+					button
+						.setButtonText("Revert")
+						.setDisabled(entry.reverted_at !== undefined || entry.snapshot_omitted === true)
+						.onClick(async () => {
+							const result = await editJournal.revert(entry.id, { vault: this.app.vault, app: this.app });
+							new Notice(result.ok ? `Reverted ${entry.action} of "${entry.path}"` : result.error);
+							this.display();
+						}),
+				);
+		}
+	}
+
 	display(): void {
 		const { containerEl } = this;
 
@@ -229,7 +293,7 @@ export class MCPSettingTab extends PluginSettingTab {
 			for (const apiKey of mcpApiKeys) {
 				new Setting(containerEl)
 					.setName(this.maskApiKey(apiKey))
-					.setDesc("Use this value as the API key environment variable in the stdio bridge")
+					.setDesc(`Key ID ${getApiKeyId(apiKey)}. Use this value as the API key environment variable in the stdio bridge`)
 					.addButton((button) =>
 						button.setButtonText("Revoke").setWarning().onClick(async () => {
 							await this.settingsStore.revokeMcpApiKey(apiKey);
@@ -239,6 +303,8 @@ export class MCPSettingTab extends PluginSettingTab {
 			}
 		}
 
+		this.displayEditJournal(containerEl);
+
 		new Setting(containerEl).setName("Script tools").setHeading();
 
 		new Setting(containerEl)
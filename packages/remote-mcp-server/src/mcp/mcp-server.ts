@@ -11,7 +11,8 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { PluginClient } from "../plugin/plugin-client.js";
 import type { TokenStore } from "../store/token-store.js";
-import type { MCPContent, Tool } from "../types.js";
+import { toCallToolContent } from "@obsiscripta/shared";
+import type { Tool } from "../types.js";
 import { SERVER_VERSION } from "../config.js";
 
 interface RequestContext {
@@ -164,21 +165,7 @@ export class RemoteMcpServer {
 					);
 
 					return {
-						content: response.content.map((c: MCPContent) => {
-							if (c.type === "text") {
-								return { type: "text" as const, text: c.text ?? "" };
-							}
-							if (c.type === "image") {
-								return {
-									type: "image" as const,
-									data: c.data ?? "",
-									mimeType:
-										(c as MCPContent & { mimeType?: string }).mimeType ??
-										"image/png",
-								};
-							}
-							return { type: "text" as const, text: JSON.stringify(c) };
-						}),
+						content: response.content.map(toCallToolContent),
 						isError: "isError" in response ? response.isError : false,
 					};
 				} catch (error) {
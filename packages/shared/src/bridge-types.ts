@@ -14,15 +14,47 @@
  * - No transformation or extension is performed
  * - This type is used to pass through MCP responses without modification
  *
- * Type: { type: "text" | "image" | ..., text?: string, data?: string, ... }
+ * Type: { type: "text" | "image" | "resource", text?: string, data?: string, resource?: {...}, ... }
  */
 export type MCPContent = {
-	type: "text" | "image";
+	type: "text" | "image" | "resource";
 	text?: string;
 	data?: string;
+	mimeType?: string;
+	resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
 	[key: string]: unknown;
 };
 
+/**
+ * Maps plugin content to the MCP SDK's CallToolResult content shape.
+ * Used by both relays (stdio bridge and remote server) so they forward the same content.
+ * Unknown content types are relayed as their JSON text.
+ */
+export function toCallToolContent(c: MCPContent) {
+	if (c.type === "text") {
+		return { type: "text" as const, text: c.text ?? "" };
+	}
+	if (c.type === "image") {
+		return {
+			type: "image" as const,
+			data: c.data ?? "",
+			mimeType: c.mimeType ?? "image/png",
+		};
+	}
+	if (c.type === "resource" && c.resource) {
+		return c.resource.blob !== undefined
+			? {
+					type: "resource" as const,
+					resource: { uri: c.resource.uri, mimeType: c.resource.mimeType, blob: c.resource.blob },
+				}
+			: {
+					type: "resource" as const,
+					resource: { uri: c.resource.uri, mimeType: c.resource.mimeType, text: c.resource.text ?? "" },
+				};
+	}
+	return { type: "text" as const, text: JSON.stringify(c) };
+}
+
 // =============================================================================
 // Bridge Protocol Types
 // =============================================================================
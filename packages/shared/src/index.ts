@@ -3,6 +3,8 @@
  * Shared type definitions for ObsiScripta
  */
 
+export { toCallToolContent } from "./bridge-types.js";
+
 export type {
 	MCPContent,
 	HealthResponse,
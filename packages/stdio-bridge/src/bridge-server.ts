@@ -14,8 +14,8 @@ import type {
 	PollingState,
 	ToolCallResponse,
 	Tool,
-	MCPContent,
 } from "./types.js";
+import { toCallToolContent } from "@obsiscripta/shared";
 import { PluginClient, RetryExhaustedError } from "./plugin-client.js";
 
 declare const __BRIDGE_VERSION__: string;
@@ -118,22 +118,7 @@ export class StdioBridgeServer {
 				);
 
 				return {
-					content: response.content.map((c: MCPContent) => {
-						if (c.type === "text") {
-							return { type: "text" as const, text: c.text ?? "" };
-						}
-						if (c.type === "image") {
-							return {
-								type: "image" as const,
-								data: c.data ?? "",
-								mimeType:
-									(c as MCPContent & { mimeType?: string }).mimeType ??
-									"image/png",
-							};
-						}
-						// Default to text
-						return { type: "text" as const, text: JSON.stringify(c) };
-					}),
+					content: response.content.map(toCallToolContent),
 					isError: "isError" in response ? response.isError : false,
 				};
 			}